@@ -1,13 +1,27 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { spawn } from 'child_process';
-import { ProjectStorage, GitFileGroupsData } from './ProjectStorage';
-import { promptForCommitInput } from './commitQuickInput';
+import * as fs from 'fs';
+import { ProjectStorage, GitFileGroupsData, ShelvedGroup } from './ProjectStorage';
+import { CommitInputOptions, promptForCommitInput } from './commitQuickInput';
+import { BatchCommitGroup, previewBatchCommit } from './commitAllPreview';
+import { getCommitErrorOutput, isRetryableCommitFailure, reportCommitFailure } from './commitFailure';
+import { CommitToggleOptions, parseCommitOptionDefaults, serializeCommitOptionDefaults } from './commitOptions';
+import { renderCommitTemplate, stripTemplateComments } from './commitTemplates';
+import { ConventionalCommitsConfig, parseConventionalCommitsConfig } from './conventionalCommitMessage';
+import { FileChangeState, StageState, describeChangeKinds } from './fileChangeState';
+import { toDecoratedUri } from './fileDecorations';
+import { StagingEntry, hasStagedChanges, isCommittedWhole, isSplitEntry, offersStagedOnlyCommit, planGroupStaging } from './groupStaging';
+import { GitBackend, GitBackendPreference, GitChange, GitLogEntry, GitRepositoryStatus, parseGitBackendPreference, resolveGitBackend } from './gitBackend';
+import { GitCommandError, execGit, execGitOrThrow, restoreIndex, snapshotIndex, withTemporaryIndex } from './gitCli';
+import { FileDiff, buildPartialPatch, describeHunk, parseFileDiff } from './hunks';
 import { log, setLoggedFeatures } from './logging';
-
-interface GitAPI {
-  getAPI(version: number): any;
-}
+import { PublishBranchResult, publishToBranch } from './publishBranch';
+import { RebaseStep, abortRebase, runScriptedRebase, shellQuote } from './rebaseLite';
+import { LineStats, LineStatsCache, describeLargestFiles, formatLineStats, sumLineStats } from './lineStats';
+import { GIT_OPERATION_LABELS, GitOperation, abortGitOperation, acceptConflictSide, continueGitOperation, detectGitOperation } from './gitOperations';
+import { ChangeKind, parseAssignmentRules } from './assignmentRules';
+import { FileHunkSelection, GroupModel, ModelFile, UNGROUPED } from './GroupModel';
+import { isSameOrInsidePath } from './pathKeys';
 
 export function getGitCommitErrorMessage(error: unknown): string {
   const details = error && typeof error === 'object' ? error as Record<string, unknown> : undefined;
@@ -37,15 +51,18 @@ export function getGitCommitErrorMessage(error: unknown): string {
 }
 
 export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.Disposable {
-  public static readonly UNGROUPED = 'uncategorized';
+  public static readonly UNGROUPED = UNGROUPED;
   public static readonly AUTO_SYNC_SETTING = 'auto_sync';
+  public static readonly COMMIT_EDITOR_SETTING = 'commit_editor';
+  public static readonly COMMIT_OPTIONS_SETTING = 'commit_options';
   public static readonly DEFAULT_GROUP_SETTING = 'default_group';
+  public static readonly GIT_BACKEND_SETTING = 'git_backend';
   private onDidChangeTreeDataEmitter = new vscode.EventEmitter<vscode.TreeItem | undefined>();
   readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
 
-  private groups: string[] = [];
-  private assignments: Record<string, string> = {};
+  private model: GroupModel = new GroupModel();
   private cachedRepositoryRoot: string | undefined;
+  private nestedRepositoryRoots: string[] = [];
   private storage: ProjectStorage;
   private treeView: vscode.TreeView<vscode.TreeItem> | undefined;
   private treeViewStateSubscriptions: vscode.Disposable[] = [];
@@ -53,14 +70,22 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
   private loggedFeatures: Set<string> = new Set();
   private syncAssignmentsTimer: ReturnType<typeof setTimeout> | undefined;
   private syncStatusDescription: string | undefined;
+  private gitOperation: GitOperation | undefined;
+  private lineStats: LineStatsCache = new LineStatsCache();
+  private treeGitData: TreeGitData | undefined;
   private autoSyncEnabled: boolean = true;
+  private commitEditorEnabled: boolean = false;
+  private commitOptionDefaults: CommitToggleOptions = parseCommitOptionDefaults(undefined);
+  private gitBackendPreference: GitBackendPreference = 'auto';
+  private gitBackend: Promise<GitBackend> | undefined;
   private hasAutoSyncToRemoteSetting: boolean = false;
-  private defaultGroupName: string = GitFileGroupsProvider.UNGROUPED;
   private hasDefaultGroupSetting: boolean = false;
   private collapsedGroupNames: Set<string> = new Set();
-  private hasInitializedKnownChangedKeys: boolean = false;
-  private knownChangedKeys: Set<string> = new Set();
   private storageInitialized: boolean = false;
+  private showSyncStatusInViewDescription: boolean = true;
+  private createdNodes: WeakSet<vscode.TreeItem> = new WeakSet();
+  private initialization: Promise<void>;
+  private branchSwitch: Promise<void> = Promise.resolve();
 
   private async executeFirstAvailableCommand(commandIds: string[]): Promise<boolean> {
     for (const commandId of commandIds) {
@@ -119,12 +144,29 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
     return false;
   }
 
-  constructor(private workspaceRoot: string, private state: vscode.Memento) {
+  /**
+   * @param storageRoot folder holding .vscode/git-file-groups.jsonc; defaults to the repository root,
+   * but stays on the opened workspace folder when that folder lives inside a larger repository.
+   */
+  constructor(private workspaceRoot: string, private state: vscode.Memento, private readonly storageRoot: string = workspaceRoot) {
       log(`GitFileGroupsProvider constructor called with workspaceRoot: ${this.workspaceRoot}`, 'lifecycle');
     log(`Constructor timestamp: ${new Date().toISOString()}`, 'lifecycle');
     
-    this.storage = new ProjectStorage(workspaceRoot);
-    this.initializeStorage().then(() => {
+    this.storage = new ProjectStorage(this.storageRoot, (message, filePath) => {
+      void vscode.window.showErrorMessage(message, 'Open File').then(async selection => {
+        if (selection !== 'Open File') {
+          return;
+        }
+
+        try {
+          const document = await vscode.workspace.openTextDocument(filePath);
+          await vscode.window.showTextDocument(document, { preview: false });
+        } catch (openError) {
+          log(`Failed to open malformed config file ${filePath}: ${openError}`, 'config');
+        }
+      });
+    });
+    this.initialization = this.initializeStorage().then(() => {
       this.refresh();
     });
   }
@@ -156,92 +198,147 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
 
   private async loadData(): Promise<void> {
     const data = await this.storage.loadData();
-    this.groups = (data.groups || []).filter(groupName => groupName !== GitFileGroupsProvider.UNGROUPED);
-    this.assignments = {};
 
     // Load raw config to pick up logged features
-    let shouldPersistDefaultGroup = false;
-    let shouldPersistAssignments = false;
+    let storedDefaultGroup: unknown;
     try {
       const cfg = await this.storage.loadConfig();
       const features: string[] | undefined = Array.isArray(cfg.logged_features) ? cfg.logged_features : undefined;
       this.loggedFeatures = new Set((features || []).filter(f => typeof f === 'string' && f.trim().length > 0).map(f => f.trim()));
       setLoggedFeatures(features);
-      this.hasDefaultGroupSetting = typeof cfg[GitFileGroupsProvider.DEFAULT_GROUP_SETTING] === 'string';
-      const configuredDefaultGroup = this.normalizeStoredGroupName(cfg[GitFileGroupsProvider.DEFAULT_GROUP_SETTING]);
-      if (configuredDefaultGroup && this.isKnownGroupName(configuredDefaultGroup)) {
-        this.defaultGroupName = configuredDefaultGroup;
-        shouldPersistDefaultGroup = cfg[GitFileGroupsProvider.DEFAULT_GROUP_SETTING] !== configuredDefaultGroup;
-      } else {
-        this.defaultGroupName = GitFileGroupsProvider.UNGROUPED;
-        shouldPersistDefaultGroup = true;
-      }
+      // default_group belongs to the active branch's group set, the other settings are shared.
+      const setCfg = this.storage.selectSet(cfg);
+      storedDefaultGroup = setCfg[GitFileGroupsProvider.DEFAULT_GROUP_SETTING];
+      this.hasDefaultGroupSetting = typeof storedDefaultGroup === 'string';
+      this.model.setRules(parseAssignmentRules(cfg.rules, (entry, reason) => {
+        log(`Ignoring assignment rule ${JSON.stringify(entry)}: ${reason}`, 'config');
+      }));
       this.hasAutoSyncToRemoteSetting = typeof cfg[GitFileGroupsProvider.AUTO_SYNC_SETTING] === 'boolean';
       if (this.hasAutoSyncToRemoteSetting) {
         this.autoSyncEnabled = cfg[GitFileGroupsProvider.AUTO_SYNC_SETTING];
       }
-    } catch (e) {
-      this.defaultGroupName = GitFileGroupsProvider.UNGROUPED;
-      shouldPersistDefaultGroup = true;
-    }
-
-    for (const [key, rawGroupName] of Object.entries(data.assignments || {})) {
-      const assignmentKey = this.normalizeAssignmentKey(key);
-      const normalizedGroupName = this.normalizeStoredGroupName(rawGroupName);
-      if (!normalizedGroupName) {
-        shouldPersistAssignments = true;
-        continue;
-      }
-
-      if (normalizedGroupName === GitFileGroupsProvider.UNGROUPED) {
-          this.assignments[assignmentKey] = normalizedGroupName;
-          if (normalizedGroupName !== rawGroupName) {
-            shouldPersistAssignments = true;
-          }
-        continue;
-      }
-
-      if (this.groups.includes(normalizedGroupName)) {
-        this.assignments[assignmentKey] = normalizedGroupName;
-        if (normalizedGroupName !== rawGroupName) {
-          shouldPersistAssignments = true;
-        }
-        continue;
+      this.commitEditorEnabled = cfg[GitFileGroupsProvider.COMMIT_EDITOR_SETTING] === true;
+      this.commitOptionDefaults = parseCommitOptionDefaults(cfg[GitFileGroupsProvider.COMMIT_OPTIONS_SETTING]);
+      const gitBackendPreference = parseGitBackendPreference(cfg[GitFileGroupsProvider.GIT_BACKEND_SETTING]);
+      if (gitBackendPreference !== this.gitBackendPreference) {
+        this.gitBackendPreference = gitBackendPreference;
+        this.gitBackend = undefined;
       }
-
-      shouldPersistAssignments = true;
+    } catch (e) {
+      storedDefaultGroup = undefined;
     }
 
-    if (shouldPersistDefaultGroup) {
-      await this.storage.saveConfigValue([GitFileGroupsProvider.DEFAULT_GROUP_SETTING], this.defaultGroupName);
-      this.hasDefaultGroupSetting = true;
+    const diff = this.model.load(data, storedDefaultGroup);
+    if (diff.defaultGroup) {
+      await this.saveDefaultGroup();
     }
 
-    if (shouldPersistAssignments) {
+    if (diff.data) {
       await this.saveData();
     }
   }
 
   getDefaultGroupName(): string {
-    return this.defaultGroupName;
+    return this.model.getDefaultGroup();
   }
 
   async setDefaultGroup(groupName: string): Promise<void> {
-    const normalizedGroupName = this.normalizeStoredGroupName(groupName);
-    if (!normalizedGroupName || !this.isKnownGroupName(normalizedGroupName)) {
+    const previous = this.model.getDefaultGroup();
+    if (!this.model.setDefaultGroup(groupName)) {
       return;
     }
 
-    if (this.defaultGroupName === normalizedGroupName && this.hasDefaultGroupSetting) {
+    if (previous === this.model.getDefaultGroup() && this.hasDefaultGroupSetting) {
       return;
     }
 
-    this.defaultGroupName = normalizedGroupName;
-    await this.storage.saveConfigValue([GitFileGroupsProvider.DEFAULT_GROUP_SETTING], this.defaultGroupName);
-    this.hasDefaultGroupSetting = true;
+    await this.saveDefaultGroup();
     this.refresh();
   }
 
+  private async saveDefaultGroup(): Promise<void> {
+    await this.storage.saveSetValue(GitFileGroupsProvider.DEFAULT_GROUP_SETTING, this.model.getDefaultGroup());
+    this.hasDefaultGroupSetting = true;
+  }
+
+  getActiveBranch(): string | undefined {
+    return this.storage.getActiveBranch();
+  }
+
+  /**
+   * Swap to the group set of the branch HEAD points at; undefined means a detached HEAD. A
+   * branch without a saved set starts with a copy of the active set, the same way uncommitted
+   * changes carry over on checkout.
+   */
+  setActiveBranch(branch: string | undefined): Promise<void> {
+    this.branchSwitch = this.branchSwitch
+      .then(() => this.applyActiveBranch(branch))
+      .catch(error => {
+        log(`Switching group set to ${branch ?? 'detached HEAD'} failed: ${error}`, 'config');
+      });
+    return this.branchSwitch;
+  }
+
+  private async applyActiveBranch(branch: string | undefined): Promise<void> {
+    await this.initialization;
+    const previous = this.storage.getActiveBranch();
+    if (previous === branch) {
+      return;
+    }
+
+    const isNewSet = !await this.storage.hasBranchSet(branch);
+    this.storage.setActiveBranch(branch);
+    if (isNewSet) {
+      // Also writes default_group into the new set.
+      this.hasDefaultGroupSetting = false;
+      await this.saveData();
+      log(`Started group set for branch '${branch}' from ${previous ? `'${previous}'` : 'the detached HEAD set'}`, 'config');
+    } else {
+      await this.loadData();
+      log(`Switched to the group set of ${branch ? `branch '${branch}'` : 'detached HEAD'}`, 'config');
+    }
+
+    this.model.clearRuleMatches();
+    await this.syncAssignmentsWithGitStatus(true);
+  }
+
+  /**
+   * Group sets that can be copied into the active one; undefined is the detached HEAD set.
+   */
+  async getOtherGroupSets(): Promise<Array<string | undefined>> {
+    const active = this.storage.getActiveBranch();
+    const branches = (await this.storage.listBranchSets()).filter(branch => branch !== active).sort((a, b) => a.localeCompare(b));
+    return active ? [...branches, undefined] : branches;
+  }
+
+  /**
+   * Copy another branch's group set into the active one. Merging keeps the active set's
+   * groups and assignments and only adds what is missing; replacing overwrites it.
+   */
+  async copyGroupSet(sourceBranch: string | undefined, mode: 'merge' | 'replace'): Promise<void> {
+    await this.branchSwitch;
+    const source = await this.storage.loadData(sourceBranch);
+    const sourceDefaultGroup = this.storage.selectSet(await this.storage.loadConfig(), sourceBranch)[GitFileGroupsProvider.DEFAULT_GROUP_SETTING];
+
+    if (mode === 'replace') {
+      await this.storage.saveData(source);
+      if (typeof sourceDefaultGroup === 'string') {
+        await this.storage.saveSetValue(GitFileGroupsProvider.DEFAULT_GROUP_SETTING, sourceDefaultGroup);
+      }
+    } else {
+      const current = await this.storage.loadData();
+      await this.storage.saveData({
+        groups: Array.from(new Set([...current.groups, ...source.groups])).sort((a, b) => a.localeCompare(b)),
+        assignments: { ...source.assignments, ...current.assignments },
+        hunkAssignments: { ...(source.hunkAssignments ?? {}), ...(current.hunkAssignments ?? {}) }
+      });
+    }
+
+    await this.loadData();
+    log(`Copied group set of ${sourceBranch ? `branch '${sourceBranch}'` : 'detached HEAD'} (${mode})`, 'config');
+    await this.syncAssignmentsWithGitStatus(true);
+  }
+
   getautoSyncEnabled(): boolean {
     return this.autoSyncEnabled;
   }
@@ -256,22 +353,29 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
     this.hasAutoSyncToRemoteSetting = true;
   }
 
-  private async saveData(): Promise<void> {
-    const persistedAssignments: Record<string, string> = {};
-    for (const [key, value] of Object.entries(this.assignments)) {
-      if (value) {
-        persistedAssignments[key] = value;
-      }
-    }
+  getCommitEditorEnabled(): boolean {
+    return this.commitEditorEnabled;
+  }
 
-    await this.storage.saveData({
-      groups: this.groups,
-      assignments: persistedAssignments
-    });
+  async setCommitEditorEnabled(enabled: boolean): Promise<void> {
+    this.commitEditorEnabled = enabled;
+    await this.storage.saveConfigValue([GitFileGroupsProvider.COMMIT_EDITOR_SETTING], enabled);
+  }
+
+  getCommitOptionDefaults(): CommitToggleOptions {
+    return this.commitOptionDefaults;
+  }
+
+  async setCommitOptionDefaults(options: CommitToggleOptions): Promise<void> {
+    this.commitOptionDefaults = { ...options, amend: false };
+    await this.storage.saveConfigValue([GitFileGroupsProvider.COMMIT_OPTIONS_SETTING], serializeCommitOptionDefaults(options));
+  }
+
+  private async saveData(): Promise<void> {
+    await this.storage.saveData(this.model.toData());
 
     if (!this.hasDefaultGroupSetting) {
-      await this.storage.saveConfigValue([GitFileGroupsProvider.DEFAULT_GROUP_SETTING], this.defaultGroupName);
-      this.hasDefaultGroupSetting = true;
+      await this.saveDefaultGroup();
     }
 
     if (!this.hasAutoSyncToRemoteSetting) {
@@ -333,14 +437,14 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
     let snapshot = await this.loadGitSnapshot();
     if (!snapshot.repositoryAvailable) {
       log('Skipping assignment sync because repository is not available yet', 'git');
+      this.treeGitData = undefined;
       if (refreshTree) {
         this.refresh();
       }
       return false;
     }
 
-    const hasPersistedAssignments = Object.keys(this.assignments).length > 0;
-    if (snapshot.entries.length === 0 && hasPersistedAssignments) {
+    if (snapshot.entries.length === 0 && this.model.hasAssignments()) {
       for (let attempt = 0; attempt < 5; attempt += 1) {
         await this.delay(200);
         snapshot = await this.loadGitSnapshot();
@@ -355,58 +459,20 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
       }
     }
 
-    const activeAssignmentKeys = new Set(
-      snapshot.entries
-        .map(entry => this.toAssignmentKey(entry.resourceUri))
-        .filter((key): key is string => typeof key === 'string' && key.length > 0)
-    );
-
-    let newlyDiscoveredKeys: string[] = [];
-    if (!this.hasInitializedKnownChangedKeys) {
-      this.knownChangedKeys = new Set(activeAssignmentKeys);
-      this.hasInitializedKnownChangedKeys = true;
-    } else {
-      newlyDiscoveredKeys = Array.from(activeAssignmentKeys).filter(key => !this.knownChangedKeys.has(key));
-    }
-
-    let removedAssignments = 0;
-    for (const key of Object.keys(this.assignments)) {
-      if (!activeAssignmentKeys.has(key)) {
-        delete this.assignments[key];
-        removedAssignments += 1;
-      }
-    }
-
-    let assignedCount = 0;
-    if (this.defaultGroupName !== GitFileGroupsProvider.UNGROUPED) {
-      for (const key of newlyDiscoveredKeys) {
-        if (!this.assignments[key]) {
-          this.assignments[key] = this.defaultGroupName;
-          assignedCount += 1;
-        }
-      }
-    }
-
-    for (const key of activeAssignmentKeys) {
-      this.knownChangedKeys.add(key);
-    }
-
-    for (const key of Array.from(this.knownChangedKeys)) {
-      if (!activeAssignmentKeys.has(key)) {
-        this.knownChangedKeys.delete(key);
-      }
-    }
+    const files = await this.toModelFiles(snapshot.entries);
+    const { removed: removedAssignments, assigned: assignedCount } = this.model.syncWithChangedFiles(files);
 
     if (removedAssignments > 0 || assignedCount > 0) {
       if (removedAssignments > 0) {
         log(`Pruned ${removedAssignments} assignment(s) that no longer have git changes`, 'git');
       }
       if (assignedCount > 0) {
-        log(`Assigned ${assignedCount} externally discovered file(s) to default group '${this.defaultGroupName}'`, 'git');
+        log(`Assigned ${assignedCount} externally discovered file(s) by rules or to default group '${this.model.getDefaultGroup()}'`, 'git');
       }
       await this.saveData();
     }
 
+    this.treeGitData = await this.loadTreeGitData(snapshot.entries, files);
     if (refreshTree) {
       this.refresh();
     }
@@ -415,31 +481,29 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
   }
 
   async assignDefaultGroupToEditedFiles(uris: vscode.Uri[], refreshTree: boolean = true): Promise<boolean> {
-    if (!this.storageInitialized || this.defaultGroupName === GitFileGroupsProvider.UNGROUPED || uris.length === 0) {
-      return false;
-    }
-
-    const targetKeys = new Set(
-      uris
-        .map(uri => this.toAssignmentKey(uri))
-        .filter((key): key is string => typeof key === 'string' && key.length > 0)
-    );
-
-    if (targetKeys.size === 0) {
+    if (!this.storageInitialized || uris.length === 0) {
       return false;
     }
 
-    let assignedCount = 0;
-    for (const key of targetKeys) {
-      this.knownChangedKeys.add(key);
-      if (!this.assignments[key]) {
-        this.assignments[key] = this.defaultGroupName;
-        assignedCount += 1;
+    // Change kinds come from git status, which is only worth loading when a rule asks for one.
+    const changeKinds = new Map<string, ChangeKind | undefined>();
+    if (this.model.rulesNeedChangeKinds()) {
+      const snapshot = await this.loadGitSnapshot();
+      for (const entry of snapshot.entries) {
+        const key = this.toAssignmentKey(entry.resourceUri);
+        if (key) {
+          changeKinds.set(key, entry.changeKind);
+        }
       }
     }
 
+    const files = uris
+      .map(uri => this.toModelFile(uri))
+      .filter((file): file is ModelFile => !!file)
+      .map(file => ({ ...file, changeKind: changeKinds.get(file.key) }));
+    const assignedCount = this.model.assignEditedFiles(files);
     if (assignedCount > 0) {
-      log(`Assigned ${assignedCount} created/edited file(s) to default group '${this.defaultGroupName}'`, 'git');
+      log(`Assigned ${assignedCount} created/edited file(s) by rules or to default group '${this.model.getDefaultGroup()}'`, 'git');
       await this.saveData();
       if (refreshTree) {
         this.refresh();
@@ -450,6 +514,29 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
     return false;
   }
 
+  /**
+   * Run the rules again over files still in uncategorized, e.g. after editing the rules.
+   * Returns how many files were moved.
+   */
+  async reapplyRules(): Promise<number> {
+    const cfg = await this.storage.loadConfig();
+    this.model.setRules(parseAssignmentRules(cfg.rules, (entry, reason) => {
+      log(`Ignoring assignment rule ${JSON.stringify(entry)}: ${reason}`, 'config');
+    }));
+
+    const snapshot = await this.loadGitSnapshot();
+    const movedCount = this.model.reapplyRules(snapshot.entries
+      .map(entry => this.toModelFile(entry.resourceUri, entry.changeKind))
+      .filter((file): file is ModelFile => !!file));
+
+    if (movedCount > 0) {
+      log(`Re-applied rules to ${movedCount} uncategorized file(s)`, 'config');
+      await this.saveData();
+    }
+    this.refresh();
+    return movedCount;
+  }
+
   scheduleSyncAssignmentsWithGitStatus(delayMs: number = 150): void {
     if (this.syncAssignmentsTimer) {
       clearTimeout(this.syncAssignmentsTimer);
@@ -467,49 +554,23 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
     await new Promise(resolve => setTimeout(resolve, durationMs));
   }
 
-  async syncRepositoryToRemote(repository: any): Promise<boolean> {
-    if (!repository) {
-      return false;
-    }
-
-    const attempts: Array<() => Promise<void>> = [];
-
-    if (typeof repository.sync === 'function') {
-      attempts.push(async () => {
-        await repository.sync();
-      });
-    }
-
-    if (typeof repository.push === 'function') {
-      attempts.push(async () => {
-        await repository.push();
+  /**
+   * The backend all git operations go through, chosen by `git_backend` in the project config:
+   * the Git extension's API by default, the git CLI when that is unavailable or asked for.
+   */
+  async getGitBackend(): Promise<GitBackend> {
+    if (!this.gitBackend) {
+      this.gitBackend = resolveGitBackend(this.gitBackendPreference).then(backend => {
+        log(`Using the ${backend.name} Git backend for ${this.workspaceRoot}`, 'git');
+        return backend;
       });
     }
 
-    const commandArgs = [repository, repository.rootUri, repository.sourceControl, undefined];
-    for (const commandId of ['git.sync', 'git.push']) {
-      for (const arg of commandArgs) {
-        attempts.push(async () => {
-          if (arg === undefined) {
-            await vscode.commands.executeCommand(commandId);
-            return;
-          }
-
-          await vscode.commands.executeCommand(commandId, arg);
-        });
-      }
-    }
-
-    for (const attempt of attempts) {
-      try {
-        await attempt();
-        return true;
-      } catch (error) {
-        log(`Post-commit git sync attempt failed: ${error}`, 'git');
-      }
-    }
+    return this.gitBackend;
+  }
 
-    return false;
+  async syncRepositoryToRemote(repositoryRoot: string): Promise<boolean> {
+    return (await this.getGitBackend()).sync(repositoryRoot);
   }
 
   /**
@@ -524,10 +585,7 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
         return;
       }
 
-      const assigned = this.assignments[oldKey];
-      if (assigned) {
-        this.assignments[newKey] = assigned;
-        delete this.assignments[oldKey];
+      if (this.model.renameFile(oldKey, newKey)) {
         await this.saveData();
       }
 
@@ -542,24 +600,31 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
     return this.workspaceRoot;
   }
 
-  setTreeView(treeView: vscode.TreeView<vscode.TreeItem>): void {
+  /**
+   * The tree view is shared by every repository's provider. Only a lone provider owns the
+   * view description; with several repositories the sync status moves onto its repository node.
+   */
+  setTreeView(treeView: vscode.TreeView<vscode.TreeItem>, showSyncStatusInViewDescription: boolean = true): void {
     for (const subscription of this.treeViewStateSubscriptions) {
       subscription.dispose();
     }
 
     this.treeViewStateSubscriptions = [];
     this.treeView = treeView;
-    this.treeView.description = this.syncStatusDescription;
+    this.showSyncStatusInViewDescription = showSyncStatusInViewDescription;
+    if (showSyncStatusInViewDescription) {
+      this.treeView.description = this.syncStatusDescription;
+    }
     this.treeViewStateSubscriptions.push(
       this.treeView.onDidCollapseElement((event) => {
-        if (event.element instanceof GroupNode) {
+        if (event.element instanceof GroupNode && this.ownsTreeItem(event.element)) {
           this.collapsedGroupNames.add(event.element.groupName);
         }
       })
     );
     this.treeViewStateSubscriptions.push(
       this.treeView.onDidExpandElement((event) => {
-        if (event.element instanceof GroupNode) {
+        if (event.element instanceof GroupNode && this.ownsTreeItem(event.element)) {
           this.collapsedGroupNames.delete(event.element.groupName);
         }
       })
@@ -568,11 +633,46 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
 
   setSyncStatus(ahead: number, behind: number): void {
     this.syncStatusDescription = `Sync: ${ahead}↑ ${behind}↓`;
-    if (this.treeView) {
+    if (this.treeView && this.showSyncStatusInViewDescription) {
       this.treeView.description = this.syncStatusDescription;
     }
   }
 
+  /**
+   * Read the sync counts, branch and rebase state from the Git backend, for when no Git
+   * extension reports repository state changes.
+   */
+  async refreshRepositoryState(): Promise<void> {
+    const git = await this.getGitBackend();
+    const repositoryRoot = await git.findRepositoryRoot(this.workspaceRoot);
+    const status = repositoryRoot ? await git.status(repositoryRoot) : undefined;
+    if (status) {
+      this.setSyncStatus(status.ahead, status.behind);
+      await this.setActiveBranch(status.branch);
+    }
+    await this.updateOperationContext();
+    this.scheduleSyncAssignmentsWithGitStatus();
+  }
+
+  getSyncStatusDescription(): string | undefined {
+    return this.syncStatusDescription;
+  }
+
+  /**
+   * True when the item was produced by this provider, so shared-view handlers can route
+   * commands and events to the repository the item belongs to.
+   */
+  ownsTreeItem(item: vscode.TreeItem): boolean {
+    return this.createdNodes.has(item);
+  }
+
+  private trackNodes<T extends vscode.TreeItem>(items: T[]): T[] {
+    for (const item of items) {
+      this.createdNodes.add(item);
+    }
+    return items;
+  }
+
   dispose(): void {
     // Clean up resources
     if (this.syncAssignmentsTimer) {
@@ -673,47 +773,35 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
   }
 
   async addGroup(name: string): Promise<void> {
-    const trimmed = name.trim();
-    if (!trimmed) {
-      return;
-    }
-
-    if (trimmed === GitFileGroupsProvider.UNGROUPED || this.groups.includes(trimmed)) {
+    if (!this.model.addGroup(name)) {
       return;
     }
 
-    this.groups = [...this.groups, trimmed].sort((a, b) => a.localeCompare(b));
     await this.saveData();
     this.refresh();
   }
 
   async renameGroup(oldName: string, newName: string): Promise<void> {
-    const trimmedOld = oldName.trim();
-    const trimmedNew = newName.trim();
-    if (!trimmedOld || !trimmedNew || trimmedOld === GitFileGroupsProvider.UNGROUPED || trimmedNew === GitFileGroupsProvider.UNGROUPED) {
+    const diff = this.model.renameGroup(oldName, newName);
+    if (!diff) {
       return;
     }
 
-    const index = this.groups.indexOf(trimmedOld);
-    if (index === -1) {
-      return;
+    const trimmedOld = oldName.trim();
+    const trimmedNew = newName.trim();
+    if (diff.defaultGroup) {
+      await this.saveDefaultGroup();
     }
 
-    // Update groups list
-    this.groups[index] = trimmedNew;
-    this.groups = [...this.groups].sort((a, b) => a.localeCompare(b));
-
-    // Migrate assignments from old name to new name
-    for (const [key, value] of Object.entries(this.assignments)) {
-      if (value === trimmedOld) {
-        this.assignments[key] = trimmedNew;
-      }
+    const draftMessage = await this.storage.loadDraftMessage(trimmedOld);
+    if (draftMessage) {
+      await this.storage.saveDraftMessage(trimmedOld, undefined);
+      await this.storage.saveDraftMessage(trimmedNew, draftMessage);
     }
-
-    if (this.defaultGroupName === trimmedOld) {
-      this.defaultGroupName = trimmedNew;
-      await this.storage.saveConfigValue([GitFileGroupsProvider.DEFAULT_GROUP_SETTING], this.defaultGroupName);
-      this.hasDefaultGroupSetting = true;
+    const notes = await this.storage.loadGroupNotes(trimmedOld);
+    if (notes) {
+      await this.storage.saveGroupNotes(trimmedOld, undefined);
+      await this.storage.saveGroupNotes(trimmedNew, notes);
     }
 
     await this.saveData();
@@ -721,67 +809,143 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
   }
 
   async deleteGroup(groupName: string): Promise<void> {
-    const trimmed = groupName.trim();
-    if (!trimmed) {
+    const diff = this.model.deleteGroup(groupName);
+    if (!diff) {
       return;
     }
 
-    const index = this.groups.indexOf(trimmed);
-    if (index === -1) {
-      return;
+    if (diff.defaultGroup) {
+      await this.saveDefaultGroup();
     }
 
-    // Remove the group
-    this.groups.splice(index, 1);
+    await this.saveData();
+    this.refresh();
+  }
+
+  /**
+   * Stage one file as shown in a group: a split file stages only that group's hunks.
+   */
+  async stageFile(uri: vscode.Uri, groupName?: string): Promise<void> {
+    const key = this.toAssignmentKey(uri);
+    const entry = groupName
+      ? (await this.getEntriesForGroup(groupName)).find(candidate => this.toAssignmentKey(candidate.resourceUri) === key)
+      : undefined;
+    await this.stageEntries([entry ?? { fileName: path.basename(uri.fsPath), resourceUri: uri }]);
+  }
+
+  async unstageFile(uri: vscode.Uri): Promise<void> {
+    await this.unstageEntries([{ fileName: path.basename(uri.fsPath), resourceUri: uri }]);
+  }
+
+  /**
+   * Stage every change of a group that isn't staged yet. Conflicted files are left alone, since
+   * staging them would mark them resolved.
+   */
+  async stageGroup(groupName: string): Promise<void> {
+    const entries = await this.getEntriesForGroup(groupName.trim());
+    await this.stageEntries(entries.filter(entry => !entry.conflicted && entry.stageState !== 'staged'));
+  }
+
+  async unstageGroup(groupName: string): Promise<void> {
+    const entries = await this.getEntriesForGroup(groupName.trim());
+    await this.unstageEntries(entries.filter(entry => hasStagedChanges(entry)));
+  }
 
-    if (this.defaultGroupName === trimmed) {
-      this.defaultGroupName = GitFileGroupsProvider.UNGROUPED;
-      await this.storage.saveConfigValue([GitFileGroupsProvider.DEFAULT_GROUP_SETTING], this.defaultGroupName);
-      this.hasDefaultGroupSetting = true;
+  private async stageEntries(entries: FileEntry[]): Promise<void> {
+    for (const [repositoryRoot, repositoryEntries] of this.groupEntriesByRepository(entries)) {
+      await this.stageGroupEntries(repositoryRoot, repositoryEntries);
     }
+    await this.syncAssignmentsWithGitStatus(true);
+  }
 
-    // Preserve an explicit uncategorized assignment so auto-assignment on edit
-    // does not immediately move these files into the default group.
-    for (const [key, value] of Object.entries(this.assignments)) {
-      if (value === trimmed) {
-        this.assignments[key] = GitFileGroupsProvider.UNGROUPED;
-      }
+  /**
+   * Unstage whole files; the index doesn't record which group a staged hunk came from.
+   */
+  private async unstageEntries(entries: FileEntry[]): Promise<void> {
+    for (const [repositoryRoot, repositoryEntries] of this.groupEntriesByRepository(entries)) {
+      await this.unstagePaths(repositoryRoot, repositoryEntries.map(entry => entry.resourceUri.fsPath));
+    }
+    await this.syncAssignmentsWithGitStatus(true);
+  }
+
+  private groupEntriesByRepository(entries: FileEntry[]): Map<string, FileEntry[]> {
+    const byRepository = new Map<string, FileEntry[]>();
+    for (const entry of entries) {
+      const repositoryRoot = entry.repositoryRoot ?? this.getRepositoryRootForPath(entry.resourceUri.fsPath);
+      byRepository.set(repositoryRoot, [...(byRepository.get(repositoryRoot) ?? []), entry]);
     }
+    return byRepository;
+  }
 
-    await this.saveData();
-    this.refresh();
+  /**
+   * When part of a group is already staged, ask whether to commit just that or to stage the whole
+   * group first. Returns undefined when the user cancels.
+   */
+  private async chooseStagedOnlyCommit(groupName: string, entries: FileEntry[]): Promise<boolean | undefined> {
+    if (!offersStagedOnlyCommit(entries.map(entry => this.toStagingEntry(entry)))) {
+      return false;
+    }
+
+    const stagedCount = entries.filter(entry => hasStagedChanges(entry)).length;
+
+    const choice = await vscode.window.showInformationMessage(
+      `${stagedCount} of ${entries.length} file${entries.length === 1 ? '' : 's'} in group '${groupName}' ${stagedCount === 1 ? 'has' : 'have'} staged changes.`,
+      { modal: true, detail: 'Commit only what is already staged in this group, or stage all of its changes first?' },
+      'Commit Staged Only',
+      'Stage All and Commit'
+    );
+    return choice === undefined ? undefined : choice === 'Commit Staged Only';
+  }
+
+  /**
+   * Get the index ready to commit the entries, see `planGroupStaging`. Returns the files the
+   * commit takes completely.
+   */
+  private async prepareIndexForGroup(repositoryRoot: string, entries: FileEntry[], stagedOnly: boolean): Promise<vscode.Uri[]> {
+    const status = await (await this.getGitBackend()).status(repositoryRoot);
+    const stagedPaths = new Map((status?.indexChanges ?? []).map(change => [this.model.toKey(change.uri.fsPath), change.uri.fsPath]));
+    const entriesByKey = new Map(entries.map(entry => [this.model.toKey(entry.resourceUri.fsPath), entry]));
+    const plan = planGroupStaging(entries.map(entry => this.toStagingEntry(entry)), Array.from(stagedPaths.keys()), stagedOnly);
+
+    await this.unstagePaths(repositoryRoot, plan.unstage.map(key => stagedPaths.get(key)!));
+    const toStage = [...plan.stageFiles, ...plan.stageHunks].map(key => entriesByKey.get(key)!);
+    if (toStage.length > 0) {
+      await this.stageGroupEntries(repositoryRoot, toStage);
+    }
+    return plan.wholeFiles.map(key => entriesByKey.get(key)!.resourceUri);
+  }
+
+  private toStagingEntry(entry: FileEntry): StagingEntry {
+    return { key: this.model.toKey(entry.resourceUri.fsPath), stageState: entry.stageState, hunks: entry.hunks };
   }
 
   async commitGroup(groupName: string): Promise<void> {
     const trimmed = groupName.trim();
-
-    const gitExtension = vscode.extensions.getExtension<GitAPI>('vscode.git');
-    if (!gitExtension) {
-      log('Git extension not available for commitGroup', 'git');
+    if (await this.reportOperationInProgress()) {
       return;
     }
-    if (!gitExtension.isActive) {
-      await gitExtension.activate();
-    }
-    const api = gitExtension.exports.getAPI(1);
 
-    const repository = api.repositories.find((repo: any) => {
-      const repoPath = repo.rootUri?.fsPath;
-      return repoPath && path.normalize(this.workspaceRoot).toLowerCase() === path.normalize(repoPath).toLowerCase();
-    });
-    if (!repository) {
+    const git = await this.getGitBackend();
+    const repositoryRoot = await git.findRepositoryRoot(this.workspaceRoot);
+    if (!repositoryRoot) {
       log('No repository found for commitGroup', 'git');
       return;
     }
 
-    log(`[commitGroup] Repository object keys: ${Object.keys(repository).join(', ')}`, 'git');
-    log(`[commitGroup] Repository.index: ${repository.index}`, 'git');
+    const groupEntries = await this.getEntriesForGroup(trimmed);
+    const stagedOnly = await this.chooseStagedOnlyCommit(trimmed, groupEntries);
+    if (stagedOnly === undefined) {
+      return;
+    }
 
-    const groupFiles = await this.getGroupedFiles();
-    const entriesForGroup = trimmed === GitFileGroupsProvider.UNGROUPED
-      ? groupFiles.ungrouped
-      : (groupFiles.grouped[trimmed] || []);
+    const entriesForGroup = stagedOnly ? groupEntries.filter(entry => hasStagedChanges(entry)) : groupEntries;
     const targetUris = new Set(entriesForGroup.map(f => f.resourceUri));
+    const parentEntries = entriesForGroup.filter(entry => !entry.repositoryRoot);
+    const nestedRepositoryRoots = Array.from(new Set(
+      entriesForGroup
+        .map(entry => entry.repositoryRoot)
+        .filter((root): root is string => typeof root === 'string')
+    )).sort((a, b) => b.length - a.length);
 
     log(`[commitGroup] Group: ${trimmed}`, 'git');
     log(`[commitGroup] Target files to stage: ${targetUris.size}`, 'git');
@@ -795,97 +959,1599 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
       log(`[commitGroup] Target URI: ${uri}`, 'git');
     }
 
-    const stagedChanges = Array.isArray(repository?.state?.indexChanges) ? repository.state.indexChanges : [];
-    for (const change of stagedChanges) {
-      const changeUri = change.resourceUri ?? change.uri;
-      if (!changeUri) {
-        continue;
-      }
-
-      log(`[commitGroup] Unstaging staged change: ${changeUri}`, 'git');
-      try {
-        await repository.revert([changeUri.fsPath ?? changeUri]);
-        log(`Unstaged staged change: ${changeUri.fsPath ?? String(changeUri)}`, 'git');
-      } catch (e1) {
-        log(`Unstage with primary resource failed: ${e1}`, 'git');
-        try {
-          await repository.revert([changeUri]);
-          log(`Unstaged staged change via Uri: ${changeUri.fsPath ?? String(changeUri)}`, 'git');
-        } catch (e2) {
-          log(`Failed to unstage ${changeUri.fsPath ?? String(changeUri)}: ${e2}`, 'git');
-        }
-      }
+    // Submodules and nested repositories commit in their own repository, deepest first.
+    const nestedCommits: Array<{ root: string; indexSnapshot: IndexSnapshot; wholeFileUris: vscode.Uri[] }> = [];
+    for (const nestedRoot of nestedRepositoryRoots) {
+      const nestedIndexSnapshot = await this.takeIndexSnapshot(nestedRoot);
+      const nestedWholeFileUris = await this.prepareIndexForGroup(
+        nestedRoot,
+        entriesForGroup.filter(entry => entry.repositoryRoot === nestedRoot),
+        stagedOnly
+      );
+      nestedCommits.push({ root: nestedRoot, indexSnapshot: nestedIndexSnapshot, wholeFileUris: nestedWholeFileUris });
     }
 
-    const filePathsToStage = Array.from(targetUris).map(uri => uri.fsPath);
-    log(`[commitGroup] Staging files: ${filePathsToStage.join(', ')}`, 'git');
-    try {
-      await repository.add(filePathsToStage);
-    } catch (e) {
-      log(`Failed to stage files: ${e}`, 'git');
-    }
+    // The index is captured before anything is unstaged so cancelling or a failed commit puts
+    // back exactly what was staged, partially staged files included.
+    const indexSnapshot = await this.takeIndexSnapshot(repositoryRoot);
+    const wholeFileUris = await this.prepareIndexForGroup(repositoryRoot, parentEntries, stagedOnly);
 
-    const commitInput = await promptForCommitInput({
+    // A commit undone back into this group left its message behind as a draft.
+    const draftMessage = await this.storage.loadDraftMessage(trimmed);
+    const suggestedMessage = draftMessage ?? await this.getSuggestedCommitMessage(trimmed, entriesForGroup);
+    // Shared with the prompt shown again when a failed commit's message is edited.
+    const promptOptions: CommitInputOptions = {
       title: `Commit Group: ${trimmed}`,
       placeHolder: 'Enter commit message...',
-      ...(trimmed === GitFileGroupsProvider.UNGROUPED ? {} : { value: trimmed }),
       syncToRemote: this.getautoSyncEnabled(),
       onSyncToRemoteChanged: async (enabled: boolean) => {
         await this.setautoSyncEnabled(enabled);
-      }
+      },
+      files: this.toCommitFileList(entriesForGroup),
+      useEditor: this.getCommitEditorEnabled(),
+      onUseEditorChanged: async (enabled: boolean) => {
+        await this.setCommitEditorEnabled(enabled);
+      },
+      conventional: await this.getConventionalCommitsConfig(),
+      commitOptions: this.getCommitOptionDefaults(),
+      onCommitOptionsChanged: async (options: CommitToggleOptions) => {
+        await this.setCommitOptionDefaults(options);
+      },
+      getAmendMessage: () => this.getCommitMessage('HEAD')
+    };
+    const commitInput = await promptForCommitInput({
+      ...promptOptions,
+      ...(suggestedMessage ? { value: suggestedMessage } : {})
     });
 
-    if (!commitInput) {
+    if (!commitInput || (commitInput.commitOptions.amend && !await this.confirmAmendOfPushedCommit(repositoryRoot))) {
       log(`[commitGroup] User cancelled, restoring staged changes`, 'git');
-      for (const change of stagedChanges) {
-        const changeUri = change.resourceUri ?? change.uri;
-        if (!changeUri) {
-          continue;
+      await this.restoreIndexSnapshot(indexSnapshot);
+      for (const nestedCommit of nestedCommits) {
+        await this.restoreIndexSnapshot(nestedCommit.indexSnapshot);
+      }
+      return;
+    }
+
+    const committedNestedRoots: string[] = [];
+    for (const nestedCommit of nestedCommits) {
+      try {
+        // Amending applies to the parent repository's last commit only.
+        await git.commit(nestedCommit.root, commitInput.message, { ...commitInput.commitOptions, amend: false });
+        committedNestedRoots.push(nestedCommit.root);
+        log(`[commitGroup] Committed nested repository ${nestedCommit.root} with message: ${commitInput.message}`, 'git');
+      } catch (error) {
+        log(`[commitGroup] Nested repository commit failed for ${nestedCommit.root}: ${error}`, 'git');
+        vscode.window.showErrorMessage(`${getGitCommitErrorMessage(error)} (in ${path.basename(nestedCommit.root)})`);
+        // Repositories that already committed keep their new index.
+        await this.restoreIndexSnapshot(indexSnapshot);
+        for (const pending of nestedCommits.filter(candidate => !committedNestedRoots.includes(candidate.root))) {
+          await this.restoreIndexSnapshot(pending.indexSnapshot);
         }
+        await this.syncAssignmentsWithGitStatus(true);
+        return;
+      }
+    }
 
+    // Offer to record the new submodule commits in the parent repository as part of the same commit.
+    const directSubmoduleRoots = committedNestedRoots.filter(root => this.findEnclosingRepositoryRoot(root) === repositoryRoot);
+    let stagedSubmodulePointers = false;
+    if (directSubmoduleRoots.length > 0) {
+      const names = directSubmoduleRoots.map(root => path.relative(repositoryRoot, root).split(path.sep).join('/'));
+      const choice = await vscode.window.showInformationMessage(
+        `Committed group '${trimmed}' in ${names.join(', ')}. Stage the updated submodule pointer${names.length === 1 ? '' : 's'} in the parent repository${parentEntries.length > 0 ? ' and include ' + (names.length === 1 ? 'it' : 'them') + ' in this commit' : ''}?`,
+        { modal: true },
+        'Stage Pointer'
+      );
+      if (choice === 'Stage Pointer') {
         try {
-          await repository.revert([changeUri.fsPath ?? changeUri]);
+          await git.stage(repositoryRoot, directSubmoduleRoots);
+          stagedSubmodulePointers = true;
         } catch (e) {
-          log(`Failed to unstage ${changeUri.fsPath ?? String(changeUri)}: ${e}`, 'git');
+          log(`[commitGroup] Failed to stage submodule pointers: ${e}`, 'git');
+          vscode.window.showWarningMessage('Could not stage the updated submodule pointer in the parent repository.');
         }
       }
-      return;
     }
 
-    try {
-      await repository.commit(commitInput.message);
-      log(`[commitGroup] Committed with message: ${commitInput.message}`, 'git');
-      await this.syncAssignmentsAfterGitOperation(Array.from(targetUris), true);
-
+    const allWholeFileUris = [...wholeFileUris, ...nestedCommits.flatMap(nestedCommit => nestedCommit.wholeFileUris)];
+    if (parentEntries.length === 0 && !stagedSubmodulePointers) {
+      // Nothing is committed in the parent repository, so its staged work comes back.
+      await this.restoreIndexSnapshot(indexSnapshot);
+      await this.syncAssignmentsAfterGitOperation(allWholeFileUris, true);
       if (commitInput.syncToRemote) {
-        const synced = await this.syncRepositoryToRemote(repository);
-        if (!synced) {
-          vscode.window.showWarningMessage('Commit completed, but Git sync to the remote did not run successfully.');
-        }
+        await this.syncCommittedRepositories(nestedCommits.map(nestedCommit => nestedCommit.root), undefined);
       }
-    } catch (error) {
-      log(`[commitGroup] Direct commit failed: ${error}`, 'git');
-      vscode.window.showErrorMessage(getGitCommitErrorMessage(error));
+      return;
     }
-  }
 
-  async stageAllChanges(): Promise<vscode.Uri[]> {
-    const gitExtension = vscode.extensions.getExtension<GitAPI>('vscode.git');
-    if (!gitExtension) {
-      log('Git extension not available for stageAllChanges', 'git');
-      return [];
-    }
-    if (!gitExtension.isActive) {
-      await gitExtension.activate();
-    }
-    const api = gitExtension.exports.getAPI(1);
+    const headBeforeCommit = await this.runGitCommand(['-C', repositoryRoot, 'rev-parse', '--verify', '--quiet', 'HEAD']);
+    let { message, commitOptions, syncToRemote } = commitInput;
+    let committedEntries = parentEntries;
+    for (;;) {
+      try {
+        await git.commit(repositoryRoot, message, commitOptions);
+        break;
+      } catch (error) {
+        log(`[commitGroup] Direct commit failed: ${error}`, 'git');
+        if (await this.isCommitRecorded(repositoryRoot, headBeforeCommit)) {
+          // The commit exists; only something after it (like a post-commit hook) failed, so it is
+          // still recorded and synced and just the failure is reported.
+          vscode.window.showErrorMessage(getGitCommitErrorMessage(error));
+          break;
+        }
 
-    // Find repository
-    const repository = api.repositories.find((repo: any) => {
-      const repoPath = repo.rootUri?.fsPath;
-      return repoPath && path.normalize(this.workspaceRoot).toLowerCase() === path.normalize(repoPath).toLowerCase();
+        if (!isRetryableCommitFailure(error)) {
+          vscode.window.showErrorMessage(getGitCommitErrorMessage(error));
+          await this.restoreIndexSnapshot(indexSnapshot);
+          return;
+        }
+
+        const action = await reportCommitFailure(error, { repositoryRoot, groupName: trimmed, message });
+        if (action === 'editMessage') {
+          const edited = await promptForCommitInput({ ...promptOptions, value: message, syncToRemote, commitOptions });
+          if (!edited) {
+            await this.restoreIndexSnapshot(indexSnapshot);
+            return;
+          }
+          ({ message, commitOptions, syncToRemote } = edited);
+        } else if (action === 'retryWithoutHooks') {
+          commitOptions = { ...commitOptions, noVerify: true };
+        } else if (action !== 'retry') {
+          log('[commitGroup] Commit failure dismissed, restoring staged changes', 'git');
+          await this.restoreIndexSnapshot(indexSnapshot);
+          return;
+        }
+
+        if (stagedOnly) {
+          // The failed commit left the staged changes in the index; commit them as they are.
+          continue;
+        }
+
+        // Files may have been fixed (or rewritten by the hook) since they were staged.
+        try {
+          committedEntries = await this.restageGroupForRetry(repositoryRoot, trimmed, stagedSubmodulePointers ? directSubmoduleRoots : []);
+        } catch (restageError) {
+          log(`[commitGroup] Failed to stage the group again: ${restageError}`, 'git');
+          vscode.window.showErrorMessage(`Could not stage group '${trimmed}' again for the retry: ${restageError instanceof Error ? restageError.message : String(restageError)}`);
+          await this.restoreIndexSnapshot(indexSnapshot);
+          return;
+        }
+      }
+    }
+
+    try {
+      log(`[commitGroup] Committed${commitOptions.amend ? ' (amend)' : ''} with message: ${message}`, 'git');
+      await this.recordGroupCommit(repositoryRoot, trimmed, committedEntries, message);
+      // Partially committed files keep their remaining hunks, so only wait on whole files.
+      const committedWholeFileUris = committedEntries
+        .filter(entry => isCommittedWhole(this.toStagingEntry(entry), stagedOnly))
+        .map(entry => entry.resourceUri);
+      await this.syncAssignmentsAfterGitOperation([...committedWholeFileUris, ...nestedCommits.flatMap(nestedCommit => nestedCommit.wholeFileUris)], true);
+
+      if (syncToRemote) {
+        const syncParent = await this.confirmSyncWithIncomingChanges(trimmed);
+        await this.syncCommittedRepositories(nestedCommits.map(nestedCommit => nestedCommit.root), syncParent ? repositoryRoot : undefined);
+      }
+    } catch (error) {
+      log(`[commitGroup] Post-commit steps failed: ${error}`, 'git');
+      vscode.window.showErrorMessage(getGitCommitErrorMessage(error));
+    }
+  }
+
+  /**
+   * Commit every named group as its own commit, in the order chosen in the preview, and sync
+   * once at the end. The first group that fails stops the batch; the groups committed before
+   * it stay committed.
+   */
+  async commitAllGroups(): Promise<void> {
+    if (await this.reportOperationInProgress()) {
+      return;
+    }
+
+    const git = await this.getGitBackend();
+    const repositoryRoot = await git.findRepositoryRoot(this.workspaceRoot);
+    if (!repositoryRoot) {
+      log('No repository found for commitAllGroups', 'git');
+      return;
+    }
+
+    const batchGroups: BatchCommitGroup[] = [];
+    const skippedNested: string[] = [];
+    for (const groupName of this.model.getGroups()) {
+      const entries = await this.getEntriesForGroup(groupName);
+      if (entries.some(entry => entry.repositoryRoot)) {
+        skippedNested.push(groupName);
+        continue;
+      }
+      if (entries.length === 0) {
+        continue;
+      }
+
+      const message = await this.storage.loadDraftMessage(groupName) ?? await this.getSuggestedCommitMessage(groupName, entries) ?? groupName;
+      batchGroups.push({ group: groupName, message, files: this.toCommitFileList(entries) });
+    }
+
+    if (skippedNested.length > 0) {
+      vscode.window.showWarningMessage(`Groups with files in submodules or nested repositories are left out of Commit All Groups: ${skippedNested.join(', ')}. Commit them on their own.`);
+    }
+    if (batchGroups.length === 0) {
+      vscode.window.showInformationMessage('No groups with changes to commit.');
+      return;
+    }
+
+    const plan = await previewBatchCommit(batchGroups, {
+      syncToRemote: this.getautoSyncEnabled(),
+      onSyncToRemoteChanged: async (enabled: boolean) => {
+        await this.setautoSyncEnabled(enabled);
+      }
+    });
+    if (!plan) {
+      return;
+    }
+
+    const headBeforeBatch = await this.runGitCommand(['-C', repositoryRoot, 'rev-parse', '--verify', '--quiet', 'HEAD']);
+    const indexSnapshot = await this.takeIndexSnapshot(repositoryRoot);
+    const committed: string[] = [];
+    const committedPaths: string[] = [];
+    let failure: { group: string; reason: string } | undefined;
+
+    for (const { group, message } of plan.entries) {
+      try {
+        await execGitOrThrow(['-C', repositoryRoot, 'reset', '-q']);
+        const entries = (await this.getEntriesForGroup(group)).filter(entry => !entry.repositoryRoot);
+        await this.stageGroupEntries(repositoryRoot, entries);
+        const staged = await execGit(['-C', repositoryRoot, 'diff', '--cached', '--quiet']);
+        if (entries.length === 0 || staged.code === 0) {
+          failure = { group, reason: 'nothing to commit' };
+          break;
+        }
+
+        const headBeforeCommit = await this.runGitCommand(['-C', repositoryRoot, 'rev-parse', '--verify', '--quiet', 'HEAD']);
+        try {
+          await git.commit(repositoryRoot, message);
+        } catch (error) {
+          log(`[commitAllGroups] Commit of group '${group}' failed: ${error}`, 'git');
+          if (!await this.isCommitRecorded(repositoryRoot, headBeforeCommit)) {
+            const output = getCommitErrorOutput(error);
+            failure = { group, reason: output.split(/\r?\n/).find(line => line.trim().length > 0)?.trim() ?? getGitCommitErrorMessage(error) };
+            break;
+          }
+        }
+
+        log(`[commitAllGroups] Committed group '${group}' with message: ${message}`, 'git');
+        committed.push(group);
+        committedPaths.push(...entries.map(entry => path.relative(repositoryRoot, entry.resourceUri.fsPath).split(path.sep).join('/')));
+        await this.recordGroupCommit(repositoryRoot, group, entries, message);
+      } catch (error) {
+        log(`[commitAllGroups] Staging group '${group}' failed: ${error}`, 'git');
+        failure = { group, reason: error instanceof Error ? error.message : String(error) };
+        break;
+      }
+    }
+
+    await this.restoreStagedAfterBatch(indexSnapshot, headBeforeBatch, committed.length > 0, committedPaths);
+    await this.syncAssignmentsWithGitStatus(true);
+
+    const remaining = plan.entries.map(entry => entry.group).filter(group => !committed.includes(group) && group !== failure?.group);
+    if (failure) {
+      vscode.window.showErrorMessage(
+        `Commit All Groups stopped at '${failure.group}': ${failure.reason}. ` +
+        `Committed: ${committed.length > 0 ? committed.join(', ') : 'none'}.` +
+        (remaining.length > 0 ? ` Not committed: ${remaining.join(', ')}.` : '')
+      );
+    } else {
+      vscode.window.showInformationMessage(`Committed ${committed.length} group${committed.length === 1 ? '' : 's'}: ${committed.join(', ')}.`);
+    }
+
+    if (committed.length > 0 && plan.syncToRemote && await this.confirmSyncWithIncomingChanges()) {
+      await this.syncCommittedRepositories([], repositoryRoot);
+    }
+  }
+
+  /**
+   * Put back what was staged before a batch commit. Paths the batch committed stay as
+   * committed; everything else staged beforehand is staged again from the snapshot.
+   */
+  private async restoreStagedAfterBatch(snapshot: IndexSnapshot, headBefore: string | undefined, anyCommitted: boolean, committedPaths: string[]): Promise<void> {
+    if (!anyCommitted) {
+      await this.restoreIndexSnapshot(snapshot);
+      return;
+    }
+
+    await execGit(['-C', snapshot.repositoryRoot, 'reset', '-q']);
+    if (!snapshot.tree || !headBefore) {
+      return;
+    }
+
+    const stagedBefore = await execGit(['-C', snapshot.repositoryRoot, 'diff', '--name-only', '-z', headBefore, snapshot.tree]);
+    const toRestage = stagedBefore.stdout.split('\0').filter(file => file && !committedPaths.includes(file));
+    if (toRestage.length === 0) {
+      return;
+    }
+
+    const restored = await execGit(['-C', snapshot.repositoryRoot, 'restore', '--staged', `--source=${snapshot.tree}`, '--', ...toRestage]);
+    if (restored.code !== 0) {
+      log(`[commitAllGroups] Failed to stage ${toRestage.join(', ')} again: ${restored.stderr.trim()}`, 'git');
+      vscode.window.showWarningMessage(`Could not stage ${toRestage.length} previously staged file${toRestage.length === 1 ? '' : 's'} again. The previous index is tree ${snapshot.tree}.`);
+    }
+  }
+
+  /**
+   * Stage the group again from scratch before retrying a rejected commit. Returns the entries
+   * that are now staged.
+   */
+  private async restageGroupForRetry(repositoryRoot: string, groupName: string, submoduleRoots: string[]): Promise<FileEntry[]> {
+    await execGitOrThrow(['-C', repositoryRoot, 'reset', '-q']);
+    const entries = (await this.getEntriesForGroup(groupName)).filter(entry => !entry.repositoryRoot);
+    await this.stageGroupEntries(repositoryRoot, entries);
+    await (await this.getGitBackend()).stage(repositoryRoot, submoduleRoots);
+    return entries;
+  }
+
+  /**
+   * Remember which group the new HEAD commit came from so it can be undone back into it.
+   */
+  private async recordGroupCommit(repositoryRoot: string, groupName: string, entries: FileEntry[], message: string): Promise<void> {
+    try {
+      await this.storage.saveDraftMessage(groupName, undefined);
+      const hash = await this.runGitCommand(['-C', repositoryRoot, 'rev-parse', 'HEAD']);
+      if (hash) {
+        await this.storage.saveCommitGroup(hash, {
+          group: groupName,
+          files: entries.map(entry => entry.resourceUri.fsPath),
+          message,
+          created: new Date().toISOString()
+        });
+      }
+    } catch (error) {
+      log(`[commitGroup] Failed to record the commit's group: ${error}`, 'config');
+    }
+  }
+
+  /**
+   * Soft-reset the most recent commit, leaving its changes staged, and put its files back into
+   * the group they were committed from with the message kept as a draft for the next commit.
+   */
+  async undoCommit(hash: string): Promise<void> {
+    const repositoryRoot = this.cachedRepositoryRoot ?? this.workspaceRoot;
+    const head = await this.runGitCommand(['-C', repositoryRoot, 'rev-parse', 'HEAD']);
+    if (head !== hash) {
+      vscode.window.showErrorMessage('Only the most recent commit can be undone.');
+      return;
+    }
+
+    const parent = await execGit(['-C', repositoryRoot, 'rev-parse', '--verify', '--quiet', 'HEAD^']);
+    if (parent.code !== 0) {
+      vscode.window.showErrorMessage('The first commit of a repository can\'t be undone.');
+      return;
+    }
+
+    const record = (await this.storage.loadCommitGroups())[hash];
+    const message = record?.message || (await this.runGitCommand(['-C', repositoryRoot, 'log', '-1', '--format=%s', hash])) || hash.slice(0, 7);
+    const confirmed = await vscode.window.showWarningMessage(
+      `Undo commit "${message}"? Its changes stay staged${record ? ` and return to group '${record.group}'` : ''}.`,
+      { modal: true },
+      'Undo Commit'
+    );
+    if (confirmed !== 'Undo Commit') {
+      return;
+    }
+
+    try {
+      await execGitOrThrow(['-C', repositoryRoot, 'reset', '--soft', 'HEAD^']);
+    } catch (error) {
+      log(`[undoCommit] git reset failed: ${error}`, 'git');
+      vscode.window.showErrorMessage(`Failed to undo commit: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    log(`[undoCommit] Reset ${hash} back into the index`, 'git');
+
+    if (record) {
+      // Files that still have hunks of another group keep their split.
+      this.model.restoreFiles(record.group, record.files.map(filePath => this.model.toKey(filePath)));
+      await this.saveData();
+      await this.storage.saveDraftMessage(record.group, record.message);
+      await this.storage.saveCommitGroup(hash, undefined);
+    }
+
+    // Not syncing here: the Git extension may not report the reset files yet, and a sync would
+    // prune the assignments just restored. Its state change event triggers the sync instead.
+    this.refresh();
+  }
+
+  /**
+   * Move an unpushed commit so it sits directly above `targetHash` in the pending list (newest
+   * first); without a target it becomes the newest commit.
+   */
+  async moveUnpushedCommit(hash: string, targetHash: string | undefined): Promise<void> {
+    await this.rewriteUnpushedCommits('reordering commits', commits => {
+      const moving = commits.find(commit => commit.hash === hash);
+      if (!moving || hash === targetHash) {
+        return undefined;
+      }
+
+      const newestFirst = [...commits].reverse().filter(commit => commit.hash !== hash);
+      const targetIndex = targetHash ? newestFirst.findIndex(commit => commit.hash === targetHash) : 0;
+      newestFirst.splice(Math.max(targetIndex, 0), 0, moving);
+      return newestFirst.reverse().map(commit => ({ hash: commit.hash, action: 'pick' }));
+    });
+  }
+
+  /**
+   * Meld an unpushed commit into the commit before it, keeping both messages (squash) or only
+   * the earlier one (fixup).
+   */
+  async squashUnpushedCommit(hash: string, mode: 'squash' | 'fixup'): Promise<void> {
+    await this.rewriteUnpushedCommits(`${mode === 'squash' ? 'squashing' : 'fixing up'} a commit`, commits => {
+      const index = commits.findIndex(commit => commit.hash === hash);
+      if (index === 0) {
+        vscode.window.showErrorMessage('The oldest unpushed commit has no earlier unpushed commit to be combined with.');
+        return undefined;
+      }
+
+      return index === -1 ? undefined : commits.map(commit => ({ hash: commit.hash, action: commit.hash === hash ? mode : 'pick' }));
+    });
+  }
+
+  async rewordUnpushedCommit(hash: string, message: string): Promise<void> {
+    await this.rewriteUnpushedCommits('rewording a commit', commits => commits.some(commit => commit.hash === hash)
+      ? commits.map(commit => commit.hash === hash ? { hash: commit.hash, action: 'reword', message } : { hash: commit.hash, action: 'pick' })
+      : undefined);
+  }
+
+  async dropUnpushedCommit(hash: string): Promise<void> {
+    await this.rewriteUnpushedCommits('dropping a commit', commits => commits.some(commit => commit.hash === hash)
+      ? commits.map(commit => ({ hash: commit.hash, action: commit.hash === hash ? 'drop' : 'pick' }))
+      : undefined);
+  }
+
+  /**
+   * Files changed by a commit, relative to its first parent, with renames detected.
+   */
+  async getCommitFiles(commit: PendingCommitEntry): Promise<CommitFileEntry[]> {
+    const output = await this.runGitCommand(['-C', commit.repositoryRoot, 'diff-tree', '--no-commit-id', '-r', '-z', '--name-status', '-M', commit.hash]);
+    if (!output) {
+      return [];
+    }
+
+    const fields = output.split('\0').filter(field => field.length > 0);
+    const files: CommitFileEntry[] = [];
+    for (let index = 0; index < fields.length;) {
+      const status = fields[index++].charAt(0);
+      if (status === 'R' || status === 'C') {
+        const originalPath = path.join(commit.repositoryRoot, fields[index++]);
+        files.push({ status, originalPath, path: path.join(commit.repositoryRoot, fields[index++]) });
+      } else {
+        files.push({ status, path: path.join(commit.repositoryRoot, fields[index++]) });
+      }
+    }
+
+    return files.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async openCommitFileDiff(commit: PendingCommitEntry, file: CommitFileEntry): Promise<void> {
+    const git = await this.getGitBackend();
+    const fileUri = vscode.Uri.file(file.path);
+    const title = `${path.basename(file.path)} (${commit.shortHash})`;
+    // One side of an added or deleted file doesn't exist, so show the other side on its own.
+    if (file.status === 'A') {
+      await vscode.commands.executeCommand('vscode.open', git.toGitUri(fileUri, commit.hash), { preview: true }, title);
+      return;
+    }
+    if (file.status === 'D') {
+      await vscode.commands.executeCommand('vscode.open', git.toGitUri(fileUri, `${commit.hash}^`), { preview: true }, title);
+      return;
+    }
+
+    const parentUri = git.toGitUri(vscode.Uri.file(file.originalPath ?? file.path), `${commit.hash}^`);
+    await vscode.commands.executeCommand('vscode.diff', parentUri, git.toGitUri(fileUri, commit.hash), title, { preview: true });
+  }
+
+  /**
+   * Amending a commit the upstream already has means force-pushing later, so ask first.
+   */
+  async confirmAmendOfPushedCommit(repositoryRoot: string): Promise<boolean> {
+    const pushed = await execGit(['-C', repositoryRoot, 'merge-base', '--is-ancestor', 'HEAD', '@{upstream}']);
+    if (pushed.code !== 0) {
+      return true;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      'The last commit has already been pushed. Amending it rewrites published history and needs a force push.',
+      { modal: true },
+      'Amend Anyway'
+    );
+    return choice === 'Amend Anyway';
+  }
+
+  /**
+   * Message to pre-fill when committing a group: the first matching `commit_templates` entry,
+   * otherwise the group name itself.
+   */
+  private async getSuggestedCommitMessage(groupName: string, entries: FileEntry[]): Promise<string | undefined> {
+    const repositoryRoot = this.cachedRepositoryRoot ?? this.workspaceRoot;
+    let config: any = {};
+    try {
+      config = await this.storage.loadConfig();
+    } catch (e) {
+      log(`Failed to load project config: ${e}`, 'config');
+    }
+
+    const templates = Array.isArray(config.commit_templates) ? config.commit_templates : [];
+    if (templates.length > 0) {
+      const rendered = renderCommitTemplate(templates, {
+        group: groupName,
+        branch: await this.getCurrentBranchName(),
+        files: this.toCommitFileList(entries),
+        notes: await this.storage.loadGroupNotes(groupName),
+        gitTemplate: await this.readGitCommitTemplate(repositoryRoot)
+      }, (pattern, error) => log(`Invalid commit template regexp '${pattern}': ${error}`, 'config'));
+      if (rendered) {
+        return rendered;
+      }
+    }
+
+    return groupName === GitFileGroupsProvider.UNGROUPED ? undefined : groupName;
+  }
+
+  async getConventionalCommitsConfig(): Promise<ConventionalCommitsConfig | undefined> {
+    try {
+      return parseConventionalCommitsConfig((await this.storage.loadConfig()).conventional_commits);
+    } catch (e) {
+      log(`Failed to load project config: ${e}`, 'config');
+      return undefined;
+    }
+  }
+
+  private toCommitFileList(entries: FileEntry[]): string[] {
+    const repositoryRoot = this.cachedRepositoryRoot ?? this.workspaceRoot;
+    return entries.map(entry => path.relative(repositoryRoot, entry.resourceUri.fsPath).split(path.sep).join('/'));
+  }
+
+  private async readGitCommitTemplate(repositoryRoot: string): Promise<string | undefined> {
+    const templatePath = await this.runGitCommand(['-C', repositoryRoot, 'config', '--path', 'commit.template']);
+    if (!templatePath) {
+      return undefined;
+    }
+
+    try {
+      return stripTemplateComments(await fs.promises.readFile(path.resolve(repositoryRoot, templatePath), 'utf8'));
+    } catch (error) {
+      log(`Failed to read commit.template ${templatePath}: ${error}`, 'config');
+      return undefined;
+    }
+  }
+
+  async getGroupNotes(groupName: string): Promise<string | undefined> {
+    return this.storage.loadGroupNotes(groupName.trim());
+  }
+
+  async setGroupNotes(groupName: string, notes: string): Promise<void> {
+    await this.storage.saveGroupNotes(groupName.trim(), notes.trim() ? notes : undefined);
+    this.refresh();
+  }
+
+  /**
+   * Take one file's change out of an unpushed commit and leave it in the working tree. The
+   * commit is rewritten with the file reset to its parent's version (or dropped when the file
+   * was all it changed), and the file's current content is put back afterwards.
+   */
+  async moveFileOutOfCommit(commit: PendingCommitEntry, file: CommitFileEntry): Promise<void> {
+    const repositoryRoot = commit.repositoryRoot;
+    const paths = file.originalPath ? [file.originalPath, file.path] : [file.path];
+    const relativePaths = paths.map(filePath => path.relative(repositoryRoot, filePath).split(path.sep).join('/'));
+
+    // Later commits and the rebase itself rewrite these files; what the user sees now is restored.
+    const savedContents = new Map<string, Buffer | undefined>();
+    for (const filePath of paths) {
+      savedContents.set(filePath, fs.existsSync(filePath) ? await fs.promises.readFile(filePath) : undefined);
+    }
+
+    const commitFiles = await this.getCommitFiles(commit);
+    const onlyFile = commitFiles.length === 1;
+    // A single exec line: git refuses to go on when an exec leaves changes behind.
+    const resetCommand = [
+      ...relativePaths.map(relativePath => `(git checkout HEAD^ -- ${shellQuote(relativePath)} 2>/dev/null || git rm -q --ignore-unmatch -- ${shellQuote(relativePath)})`),
+      'git commit --amend --no-edit --allow-empty --no-verify'
+    ].join(' && ');
+
+    const done = await this.rewriteUnpushedCommits(`moving ${relativePaths[relativePaths.length - 1]} out of a commit`, commits => commits.some(candidate => candidate.hash === commit.hash)
+      ? commits.map(candidate => candidate.hash !== commit.hash
+        ? { hash: candidate.hash, action: 'pick' }
+        : onlyFile ? { hash: candidate.hash, action: 'drop' } : { hash: candidate.hash, action: 'pick', exec: [resetCommand] })
+      : undefined);
+    if (!done) {
+      return;
+    }
+
+    for (const [filePath, content] of savedContents) {
+      if (content === undefined) {
+        await fs.promises.rm(filePath, { force: true });
+      } else {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, content);
+      }
+    }
+    log(`[rebase] Moved ${relativePaths.join(' -> ')} out of ${commit.shortHash}${onlyFile ? ' (commit dropped)' : ''}`, 'git');
+  }
+
+  async getCommitMessage(hash: string): Promise<string | undefined> {
+    const repositoryRoot = this.cachedRepositoryRoot ?? this.workspaceRoot;
+    return this.runGitCommand(['-C', repositoryRoot, 'log', '-1', '--format=%B', hash]);
+  }
+
+  async abortRebase(): Promise<void> {
+    const repositoryRoot = this.cachedRepositoryRoot ?? this.workspaceRoot;
+    try {
+      await abortRebase(repositoryRoot);
+      log('[rebase] Aborted', 'git');
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to abort the rebase: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    await this.updateOperationContext();
+    this.refresh();
+  }
+
+  /**
+   * Rewrite the unpushed commits with a scripted `git rebase -i` on their merge base with the
+   * upstream. `plan` gets the commits oldest first and returns the todo steps, or undefined to
+   * do nothing. Resolves to true when the rebase completed.
+   */
+  private async rewriteUnpushedCommits(description: string, plan: (commitsOldestFirst: PendingCommitEntry[]) => RebaseStep[] | undefined): Promise<boolean> {
+    const repositoryRoot = this.cachedRepositoryRoot ?? this.workspaceRoot;
+    const commits = (await this.loadUnpushedCommits()).reverse();
+    if (commits.length === 0) {
+      return false;
+    }
+
+    const merges = await this.runGitCommand(['-C', repositoryRoot, 'rev-list', '--merges', '@{upstream}..HEAD']);
+    if (merges) {
+      vscode.window.showErrorMessage('Unpushed commits that include merge commits can\'t be rewritten here.');
+      return false;
+    }
+
+    const steps = plan(commits);
+    if (!steps) {
+      return false;
+    }
+
+    const base = await this.runGitCommand(['-C', repositoryRoot, 'merge-base', 'HEAD', '@{upstream}']);
+    if (!base) {
+      vscode.window.showErrorMessage('Could not determine where the unpushed commits start.');
+      return false;
+    }
+
+    log(`[rebase] ${description}: ${steps.map(step => `${step.action} ${step.hash.slice(0, 7)}`).join(', ')}`, 'git');
+    const outcome = await runScriptedRebase(repositoryRoot, base, steps);
+    await this.updateOperationContext();
+    this.refresh();
+
+    if (outcome.status === 'done') {
+      return true;
+    }
+
+    log(`[rebase] ${outcome.status}: ${outcome.detail}`, 'git');
+    if (outcome.status === 'failed') {
+      vscode.window.showErrorMessage(`Rebase failed while ${description}: ${outcome.detail}`);
+      return false;
+    }
+
+    const choice = await vscode.window.showErrorMessage(
+      `Rebase stopped with conflicts while ${description}. Resolve them and continue the rebase, or abort to restore the previous commits.`,
+      'Abort Rebase',
+      'Show Conflicts'
+    );
+    if (choice === 'Abort Rebase') {
+      await this.abortRebase();
+    } else if (choice === 'Show Conflicts') {
+      await vscode.commands.executeCommand('workbench.view.scm');
+    }
+    return false;
+  }
+
+  /**
+   * Track a merge, rebase, cherry-pick or revert in progress; group commits are disabled and a
+   * banner with Continue / Abort is shown until it is finished.
+   */
+  async updateOperationContext(): Promise<void> {
+    const repositoryRoot = this.cachedRepositoryRoot ?? this.workspaceRoot;
+    let operation: GitOperation | undefined;
+    try {
+      operation = await detectGitOperation(repositoryRoot);
+    } catch (error) {
+      log(`Failed to check for an operation in progress: ${error}`, 'git');
+    }
+    await vscode.commands.executeCommand('setContext', 'gitFileGroups.operationInProgress', !!operation);
+    if (operation !== this.gitOperation) {
+      this.gitOperation = operation;
+      this.refresh();
+    }
+  }
+
+  async continueOperation(): Promise<void> {
+    const operation = this.gitOperation;
+    if (!operation) {
+      return;
+    }
+
+    const label = GIT_OPERATION_LABELS[operation];
+    const conflicts = (await this.loadGitFileEntries()).filter(entry => entry.conflicted && !entry.repositoryRoot);
+    if (conflicts.length > 0) {
+      vscode.window.showWarningMessage(`Resolve the ${conflicts.length} conflicted file${conflicts.length === 1 ? '' : 's'} before continuing the ${label.toLowerCase()}.`);
+      return;
+    }
+
+    try {
+      await continueGitOperation(this.cachedRepositoryRoot ?? this.workspaceRoot, operation);
+      log(`[${operation}] Continued`, 'git');
+    } catch (error) {
+      log(`[${operation}] Continue failed: ${error}`, 'git');
+      const detail = error instanceof GitCommandError ? (error.stderr.trim() || error.stdout.trim()) : String(error);
+      vscode.window.showErrorMessage(`${label} could not continue: ${detail}`);
+    }
+    await this.updateOperationContext();
+    await this.syncAssignmentsWithGitStatus(true);
+  }
+
+  async abortOperation(): Promise<void> {
+    const operation = this.gitOperation;
+    if (!operation) {
+      return;
+    }
+
+    const label = GIT_OPERATION_LABELS[operation];
+    const confirmed = await vscode.window.showWarningMessage(
+      `Abort the ${label.toLowerCase()} in progress? Conflict resolutions made so far are lost.`,
+      { modal: true },
+      `Abort ${label}`
+    );
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      await abortGitOperation(this.cachedRepositoryRoot ?? this.workspaceRoot, operation);
+      log(`[${operation}] Aborted`, 'git');
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to abort the ${label.toLowerCase()}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    await this.updateOperationContext();
+    await this.syncAssignmentsWithGitStatus(true);
+  }
+
+  /**
+   * Group commits wait until the operation in progress is finished. Returns true when one is.
+   */
+  private async reportOperationInProgress(): Promise<boolean> {
+    await this.updateOperationContext();
+    const operation = this.gitOperation;
+    if (!operation) {
+      return false;
+    }
+
+    const label = GIT_OPERATION_LABELS[operation];
+    const choice = await vscode.window.showWarningMessage(
+      `A ${label.toLowerCase()} is in progress. Continue or abort it before committing groups.`,
+      `Continue ${label}`,
+      `Abort ${label}`
+    );
+    if (choice === `Continue ${label}`) {
+      await this.continueOperation();
+    } else if (choice === `Abort ${label}`) {
+      await this.abortOperation();
+    }
+    return true;
+  }
+
+  async openMergeEditor(uri: vscode.Uri): Promise<void> {
+    try {
+      await vscode.commands.executeCommand('git.openMergeEditor', uri);
+    } catch (error) {
+      // Without the Git extension the conflict markers are edited in the file itself.
+      log(`Failed to open the merge editor for ${uri.fsPath}: ${error}`, 'git');
+      await vscode.commands.executeCommand('vscode.open', uri);
+    }
+  }
+
+  async acceptConflictSide(uris: vscode.Uri[], side: 'ours' | 'theirs'): Promise<void> {
+    for (const [repositoryRoot, filePaths] of this.groupPathsByRepository(uris)) {
+      try {
+        await acceptConflictSide(repositoryRoot, filePaths, side);
+        log(`[conflicts] Accepted ${side} for ${filePaths.join(', ')}`, 'git');
+      } catch (error) {
+        log(`[conflicts] Accepting ${side} failed: ${error}`, 'git');
+        const detail = error instanceof GitCommandError ? error.stderr.trim() : String(error);
+        vscode.window.showErrorMessage(`Could not accept the ${side === 'ours' ? 'current' : 'incoming'} version: ${detail}`);
+      }
+    }
+    await this.syncAssignmentsWithGitStatus(true);
+  }
+
+  /**
+   * Stage conflicted files as they are now, like `git add` does.
+   */
+  async markResolved(uris: vscode.Uri[]): Promise<void> {
+    const git = await this.getGitBackend();
+    for (const [repositoryRoot, filePaths] of this.groupPathsByRepository(uris)) {
+      try {
+        await git.stage(repositoryRoot, filePaths);
+      } catch (error) {
+        log(`[conflicts] Marking ${filePaths.join(', ')} resolved failed: ${error}`, 'git');
+        vscode.window.showErrorMessage(`Could not mark ${filePaths.map(filePath => path.basename(filePath)).join(', ')} as resolved.`);
+      }
+    }
+    await this.syncAssignmentsWithGitStatus(true);
+  }
+
+  private groupPathsByRepository(uris: vscode.Uri[]): Map<string, string[]> {
+    const byRepository = new Map<string, string[]>();
+    for (const uri of uris) {
+      const repositoryRoot = this.getRepositoryRootForPath(uri.fsPath);
+      byRepository.set(repositoryRoot, [...(byRepository.get(repositoryRoot) ?? []), uri.fsPath]);
+    }
+    return byRepository;
+  }
+
+  /**
+   * Push submodules before their parent so the recorded pointers reference commits the remote has.
+   */
+  private async syncCommittedRepositories(nestedRoots: string[], parentRoot: string | undefined): Promise<void> {
+    const failed: string[] = [];
+    for (const nestedRoot of nestedRoots) {
+      if (!await this.syncRepositoryToRemote(nestedRoot)) {
+        failed.push(path.basename(nestedRoot));
+      }
+    }
+
+    if (parentRoot && !await this.syncRepositoryToRemote(parentRoot)) {
+      failed.push(path.basename(parentRoot));
+    }
+
+    if (failed.length > 0) {
+      vscode.window.showWarningMessage(`Commit completed, but Git sync to the remote did not run successfully for ${failed.join(', ')}.`);
+    }
+  }
+
+  private async takeIndexSnapshot(repositoryRoot: string): Promise<IndexSnapshot> {
+    const tree = await snapshotIndex(repositoryRoot);
+    if (!tree) {
+      log(`[commitGroup] Could not snapshot the index of ${repositoryRoot}, falling back to unstaging`, 'git');
+    }
+
+    const status = await (await this.getGitBackend()).status(repositoryRoot);
+    return { repositoryRoot, tree, stagedPaths: (status?.indexChanges ?? []).map(change => change.uri.fsPath) };
+  }
+
+  private async restoreIndexSnapshot(snapshot: IndexSnapshot): Promise<void> {
+    if (!snapshot.tree) {
+      await this.unstagePaths(snapshot.repositoryRoot, snapshot.stagedPaths);
+      return;
+    }
+
+    try {
+      await restoreIndex(snapshot.repositoryRoot, snapshot.tree);
+      log(`[commitGroup] Restored index of ${snapshot.repositoryRoot} to ${snapshot.tree}`, 'git');
+    } catch (error) {
+      log(`[commitGroup] Failed to restore index of ${snapshot.repositoryRoot}: ${error}`, 'git');
+      vscode.window.showErrorMessage(`Could not restore the staged changes. The previous index is tree ${snapshot.tree}; restore it with "git read-tree ${snapshot.tree}".`);
+    }
+  }
+
+  /**
+   * Whether HEAD moved since `headBefore`, i.e. a commit that reported an error was made anyway
+   * (for example a post-commit hook failing).
+   */
+  private async isCommitRecorded(repositoryRoot: string, headBefore: string | undefined): Promise<boolean> {
+    const head = await this.runGitCommand(['-C', repositoryRoot, 'rev-parse', '--verify', '--quiet', 'HEAD']);
+    return head !== undefined && head !== headBefore;
+  }
+
+  private async unstagePaths(repositoryRoot: string, filePaths: string[]): Promise<void> {
+    if (filePaths.length === 0) {
+      return;
+    }
+
+    log(`[commitGroup] Unstaging staged changes: ${filePaths.join(', ')}`, 'git');
+    try {
+      await (await this.getGitBackend()).unstage(repositoryRoot, filePaths);
+    } catch (e) {
+      log(`Failed to unstage ${filePaths.join(', ')}: ${e}`, 'git');
+    }
+  }
+
+  /**
+   * Stage a group's entries in one repository: whole files through the Git backend, split files
+   * hunk by hunk. Returns the files that were staged completely.
+   */
+  private async stageGroupEntries(repositoryRoot: string, entries: FileEntry[]): Promise<vscode.Uri[]> {
+    const partialEntries = entries.filter(entry => this.isPartialEntry(entry));
+    const wholeFileUris = entries.filter(entry => !partialEntries.includes(entry)).map(entry => entry.resourceUri);
+
+    const filePathsToStage = wholeFileUris.map(uri => uri.fsPath);
+    log(`[commitGroup] Staging files: ${filePathsToStage.join(', ')}`, 'git');
+    try {
+      await (await this.getGitBackend()).stage(repositoryRoot, filePathsToStage);
+    } catch (e) {
+      log(`Failed to stage files: ${e}`, 'git');
+    }
+
+    for (const entry of partialEntries) {
+      log(`[commitGroup] Staging ${entry.hunks?.fingerprints.length} of ${entry.hunks?.total} hunk(s) in ${entry.resourceUri.fsPath}`, 'git');
+      await this.stageHunks(entry.resourceUri, new Set(entry.hunks?.fingerprints ?? []));
+    }
+
+    return wholeFileUris;
+  }
+
+  private async getEntriesForGroup(groupName: string): Promise<FileEntry[]> {
+    const groupFiles = await this.getGroupedFiles();
+    return groupName === GitFileGroupsProvider.UNGROUPED
+      ? groupFiles.ungrouped
+      : (groupFiles.grouped[groupName] || []);
+  }
+
+  /**
+   * Park a group's files in a git stash and remove the group until it is unshelved. A branch
+   * marks the shelf as belonging to that branch, so unshelving offers to switch to it first.
+   */
+  async shelveGroup(groupName: string, branch?: string): Promise<boolean> {
+    const trimmed = groupName.trim();
+    const entriesForGroup = await this.getEntriesForGroup(trimmed);
+    const nestedEntries = entriesForGroup.filter(entry => entry.repositoryRoot);
+    const entries = entriesForGroup.filter(entry => !entry.repositoryRoot);
+
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage(`No files to shelve in group '${trimmed}'.`);
+      return false;
+    }
+
+    const splitEntries = entries.filter(entry => this.isPartialEntry(entry));
+    const warnings: string[] = [];
+    if (splitEntries.length > 0) {
+      warnings.push(`${splitEntries.length} file(s) also have changes in other groups and will be shelved whole.`);
+    }
+    if (nestedEntries.length > 0) {
+      warnings.push(`${nestedEntries.length} file(s) in submodules can't be stashed from this repository and will stay.`);
+    }
+    if (warnings.length > 0) {
+      const confirmed = await vscode.window.showWarningMessage(
+        `Shelve group '${trimmed}'? ${warnings.join(' ')}`,
+        { modal: true },
+        'Shelve'
+      );
+      if (confirmed !== 'Shelve') {
+        return false;
+      }
+    }
+
+    const repositoryRoot = this.cachedRepositoryRoot ?? this.workspaceRoot;
+    const filePaths = entries.map(entry => entry.resourceUri.fsPath);
+    const previousTop = await this.runGitCommand(['-C', repositoryRoot, 'rev-parse', '--verify', '--quiet', 'refs/stash']);
+    try {
+      await execGitOrThrow(['-C', repositoryRoot, 'stash', 'push', '--include-untracked', '-m', `git-file-groups: ${trimmed}`, '--', ...filePaths]);
+    } catch (error) {
+      log(`[shelveGroup] git stash push failed: ${error}`, 'git');
+      vscode.window.showErrorMessage(`Failed to shelve group '${trimmed}': ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+
+    const stashHash = await this.runGitCommand(['-C', repositoryRoot, 'rev-parse', '--verify', '--quiet', 'refs/stash']);
+    if (!stashHash || stashHash === previousTop) {
+      vscode.window.showWarningMessage(`Nothing was stashed for group '${trimmed}'.`);
+      return false;
+    }
+
+    const shelved = await this.storage.loadShelvedGroups();
+    shelved.push({
+      stash: stashHash,
+      group: trimmed,
+      files: filePaths,
+      wasDefaultGroup: this.model.isDefaultGroup(trimmed),
+      created: new Date().toISOString(),
+      ...(branch ? { branch } : {})
+    });
+    await this.saveShelvedGroups(shelved);
+    log(`[shelveGroup] Shelved ${filePaths.length} file(s) of '${trimmed}' as ${stashHash}`, 'git');
+
+    this.model.forgetFiles(entries
+      .map(entry => this.toAssignmentKey(entry.resourceUri))
+      .filter((key): key is string => !!key));
+
+    if (trimmed !== GitFileGroupsProvider.UNGROUPED && nestedEntries.length === 0) {
+      await this.deleteGroup(trimmed);
+    } else {
+      await this.saveData();
+    }
+
+    await this.syncAssignmentsAfterGitOperation(entries.map(entry => entry.resourceUri), true);
+    return true;
+  }
+
+  async getShelvedGroups(): Promise<ShelvedGroup[]> {
+    return this.storage.loadShelvedGroups();
+  }
+
+  /**
+   * Apply a shelved stash and re-create its group with the original assignments.
+   */
+  async unshelveGroup(stashHash: string, switchBranch: boolean = false): Promise<void> {
+    const shelved = await this.storage.loadShelvedGroups();
+    const entry = shelved.find(candidate => candidate.stash === stashHash);
+    if (!entry) {
+      return;
+    }
+
+    const stashRef = await this.findStashRef(stashHash);
+    if (!stashRef) {
+      await this.forgetMissingShelvedGroup(entry);
+      return;
+    }
+
+    const repositoryRoot = this.cachedRepositoryRoot ?? this.workspaceRoot;
+    if (entry.branch && entry.branch !== await this.getCurrentBranchName()) {
+      const choice = switchBranch ? 'Switch and Restore' : await vscode.window.showInformationMessage(
+        `Group '${entry.group}' was moved to branch '${entry.branch}'.`,
+        { modal: true },
+        'Switch and Restore',
+        'Restore Here'
+      );
+      if (!choice) {
+        return;
+      }
+      if (choice === 'Switch and Restore') {
+        try {
+          await execGitOrThrow(['-C', repositoryRoot, 'switch', entry.branch]);
+        } catch (error) {
+          log(`[unshelveGroup] git switch failed: ${error}`, 'git');
+          vscode.window.showErrorMessage(`Failed to switch to branch '${entry.branch}': ${error instanceof Error ? error.message : String(error)}`);
+          return;
+        }
+        // Restore into the branch's group set rather than racing the HEAD change event.
+        await this.setActiveBranch(entry.branch);
+      }
+    }
+
+    try {
+      await execGitOrThrow(['-C', repositoryRoot, 'stash', 'apply', stashRef]);
+    } catch (error) {
+      log(`[unshelveGroup] git stash apply failed: ${error}`, 'git');
+      vscode.window.showErrorMessage(`Failed to unshelve group '${entry.group}'. The stash was kept; resolve any conflicts and drop it manually. ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    // Apply may have shifted indexes if it failed partway; look the entry up again before dropping.
+    const dropRef = await this.findStashRef(stashHash);
+    if (dropRef) {
+      await this.runGitCommand(['-C', repositoryRoot, 'stash', 'drop', dropRef]);
+    }
+
+    await this.saveShelvedGroups(shelved.filter(candidate => candidate.stash !== stashHash));
+
+    this.model.restoreFiles(entry.group, entry.files.map(filePath => this.model.toKey(filePath)));
+    await this.saveData();
+
+    if (entry.wasDefaultGroup) {
+      await this.setDefaultGroup(entry.group);
+    }
+
+    log(`[unshelveGroup] Restored '${entry.group}' from ${stashHash}`, 'git');
+    this.refresh();
+  }
+
+  async getShelvedGroupDiff(stashHash: string): Promise<string | undefined> {
+    const stashRef = await this.findStashRef(stashHash);
+    if (!stashRef) {
+      return undefined;
+    }
+
+    const repositoryRoot = this.cachedRepositoryRoot ?? this.workspaceRoot;
+    const withUntracked = await execGit(['-C', repositoryRoot, 'stash', 'show', '-p', '--include-untracked', stashRef]);
+    if (withUntracked.code === 0) {
+      return withUntracked.stdout;
+    }
+
+    // Older git versions can't show untracked stash content.
+    return this.runGitCommand(['-C', repositoryRoot, 'stash', 'show', '-p', stashRef]);
+  }
+
+  async dropShelvedGroup(stashHash: string): Promise<void> {
+    const shelved = await this.storage.loadShelvedGroups();
+    const entry = shelved.find(candidate => candidate.stash === stashHash);
+    if (!entry) {
+      return;
+    }
+
+    const stashRef = await this.findStashRef(stashHash);
+    if (stashRef) {
+      const repositoryRoot = this.cachedRepositoryRoot ?? this.workspaceRoot;
+      try {
+        await execGitOrThrow(['-C', repositoryRoot, 'stash', 'drop', stashRef]);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to drop shelved group '${entry.group}': ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      }
+    }
+
+    await this.saveShelvedGroups(shelved.filter(candidate => candidate.stash !== stashHash));
+    this.refresh();
+  }
+
+  /**
+   * Move a group onto a new branch. With a worktree folder the branch is checked out there and
+   * receives the group's changes as uncommitted edits together with the group definition;
+   * without one the branch gets a commit of only the group's changes on top of HEAD.
+   */
+  async moveGroupToBranch(groupName: string, branchName: string, worktreePath?: string): Promise<boolean> {
+    const trimmed = groupName.trim();
+    const repositoryRoot = this.cachedRepositoryRoot ?? this.workspaceRoot;
+
+    const formatCheck = await execGit(['-C', repositoryRoot, 'check-ref-format', '--branch', branchName]);
+    if (formatCheck.code !== 0) {
+      vscode.window.showErrorMessage(`'${branchName}' is not a valid branch name.`);
+      return false;
+    }
+    const existing = await execGit(['-C', repositoryRoot, 'rev-parse', '--verify', '--quiet', `refs/heads/${branchName}`]);
+    if (existing.code === 0) {
+      vscode.window.showErrorMessage(`Branch '${branchName}' already exists.`);
+      return false;
+    }
+
+    const movable = await this.getMovableEntries(trimmed);
+    if (!movable) {
+      return false;
+    }
+
+    return worktreePath
+      ? this.moveGroupToWorktree(trimmed, branchName, worktreePath, repositoryRoot, movable)
+      : this.moveGroupToNewBranch(trimmed, branchName, repositoryRoot, movable);
+  }
+
+  /**
+   * The group's entries that can move to another branch, after confirming that files in
+   * submodules stay behind. Undefined when there is nothing to move or the user cancels.
+   */
+  private async getMovableEntries(groupName: string): Promise<{ entries: FileEntry[]; nestedCount: number } | undefined> {
+    const entriesForGroup = await this.getEntriesForGroup(groupName);
+    const nestedCount = entriesForGroup.filter(entry => entry.repositoryRoot).length;
+    const entries = entriesForGroup.filter(entry => !entry.repositoryRoot);
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage(`No files to move in group '${groupName}'.`);
+      return undefined;
+    }
+
+    if (nestedCount > 0) {
+      const confirmed = await vscode.window.showWarningMessage(
+        `Move group '${groupName}'? ${nestedCount} file(s) in submodules can't be moved with it and will stay in this working tree.`,
+        { modal: true },
+        'Move'
+      );
+      if (confirmed !== 'Move') {
+        return undefined;
+      }
+    }
+
+    return { entries, nestedCount };
+  }
+
+  /**
+   * Commit the group's changes, split files' hunks included, onto a new branch at HEAD without
+   * checking it out, then remove them here. The branch's group set gets the group and the
+   * commit is recorded so undoing it on that branch puts the files back into the group.
+   */
+  private async moveGroupToNewBranch(
+    groupName: string,
+    branchName: string,
+    repositoryRoot: string,
+    { entries, nestedCount }: { entries: FileEntry[]; nestedCount: number }
+  ): Promise<boolean> {
+    const suggestedMessage = await this.getSuggestedCommitMessage(groupName, entries);
+    const message = await vscode.window.showInputBox({
+      title: `Move Group to Branch: ${groupName}`,
+      prompt: `Message of the commit on '${branchName}'`,
+      value: suggestedMessage ?? groupName
+    });
+    if (!message || !message.trim()) {
+      return false;
+    }
+
+    let commit: string;
+    try {
+      const groupTree = await this.buildTreeWithEntries(repositoryRoot, entries);
+      const headTree = (await execGitOrThrow(['-C', repositoryRoot, 'rev-parse', 'HEAD^{tree}'])).trim();
+      if (groupTree === headTree) {
+        vscode.window.showInformationMessage(`Group '${groupName}' has no changes to move.`);
+        return false;
+      }
+
+      commit = (await execGitOrThrow(['-C', repositoryRoot, 'commit-tree', groupTree, '-p', 'HEAD', '-m', message.trim()])).trim();
+      // The empty old value makes this fail instead of overwriting a branch created meanwhile.
+      await execGitOrThrow(['-C', repositoryRoot, 'update-ref', '-m', `git-file-groups: move group to ${branchName}`, `refs/heads/${branchName}`, commit, '']);
+    } catch (error) {
+      log(`[moveGroupToBranch] Failed to commit the group onto ${branchName}: ${error}`, 'git');
+      vscode.window.showErrorMessage(`Failed to create branch '${branchName}' with the changes of group '${groupName}'. Nothing was changed. ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+
+    const problems: string[] = [];
+    try {
+      await this.writeBranchGroupConfig(branchName, groupName);
+      await this.storage.saveCommitGroup(commit, {
+        group: groupName,
+        files: entries.map(entry => entry.resourceUri.fsPath),
+        message: message.trim(),
+        created: new Date().toISOString()
+      });
+    } catch (error) {
+      log(`[moveGroupToBranch] Failed to write the branch's group set: ${error}`, 'config');
+      problems.push(`the group definition could not be written for the branch (${error instanceof Error ? error.message : String(error)})`);
+    }
+
+    let removed = false;
+    try {
+      await this.removeEntriesFromWorkingTree(repositoryRoot, entries);
+      removed = true;
+    } catch (error) {
+      log(`[moveGroupToBranch] Failed to remove changes from the working tree: ${error}`, 'git');
+      problems.push(`its changes could not be removed from this working tree and now exist in both (${error instanceof Error ? error.message : String(error)})`);
+    }
+
+    if (removed) {
+      await this.forgetRemovedEntries(groupName, entries, nestedCount === 0);
+    }
+
+    log(`[moveGroupToBranch] Committed '${groupName}' onto new branch ${branchName} as ${commit.slice(0, 7)}`, 'git');
+    if (problems.length > 0) {
+      vscode.window.showWarningMessage(`Moved group '${groupName}' to branch '${branchName}', but ${problems.join(' and ')}.`);
+    }
+    return true;
+  }
+
+  /**
+   * Add the group to a branch's group set, starting the set from the active one's groups when
+   * the branch has none yet.
+   */
+  private async writeBranchGroupConfig(branchName: string, groupName: string): Promise<void> {
+    const data = await this.storage.hasBranchSet(branchName)
+      ? await this.storage.loadData(branchName)
+      : { groups: this.model.getGroups(), assignments: {} };
+    if (groupName !== GitFileGroupsProvider.UNGROUPED && !data.groups.includes(groupName)) {
+      data.groups = [...data.groups, groupName].sort((a, b) => a.localeCompare(b));
+    }
+    await this.storage.saveData(data, branchName);
+  }
+
+  async switchToBranch(branchName: string): Promise<void> {
+    const repositoryRoot = this.cachedRepositoryRoot ?? this.workspaceRoot;
+    try {
+      await execGitOrThrow(['-C', repositoryRoot, 'switch', branchName]);
+    } catch (error) {
+      log(`[switchToBranch] git switch failed: ${error}`, 'git');
+      vscode.window.showErrorMessage(`Failed to switch to branch '${branchName}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async moveGroupToWorktree(
+    groupName: string,
+    branchName: string,
+    worktreePath: string,
+    repositoryRoot: string,
+    { entries, nestedCount }: { entries: FileEntry[]; nestedCount: number }
+  ): Promise<boolean> {
+    // Steps up to applying the patch are undone on failure, so the move is all-or-nothing there.
+    let patch: string;
+    try {
+      const groupTree = await this.buildTreeWithEntries(repositoryRoot, entries);
+      patch = await execGitOrThrow(['-C', repositoryRoot, 'diff', '--binary', '--no-color', '--no-ext-diff', 'HEAD', groupTree]);
+    } catch (error) {
+      log(`[moveGroupToWorktree] Failed to collect changes: ${error}`, 'git');
+      vscode.window.showErrorMessage(`Failed to collect the changes of group '${groupName}': ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+
+    if (!patch.trim()) {
+      vscode.window.showInformationMessage(`Group '${groupName}' has no changes to move.`);
+      return false;
+    }
+
+    try {
+      await execGitOrThrow(['-C', repositoryRoot, 'worktree', 'add', '-b', branchName, worktreePath, 'HEAD']);
+    } catch (error) {
+      log(`[moveGroupToWorktree] git worktree add failed: ${error}`, 'git');
+      vscode.window.showErrorMessage(`Failed to create a worktree for branch '${branchName}'. Nothing was changed. ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+
+    try {
+      await execGitOrThrow(['-C', worktreePath, 'apply', '--binary', '--whitespace=nowarn', '-'], { input: patch });
+    } catch (error) {
+      log(`[moveGroupToWorktree] git apply in worktree failed: ${error}`, 'git');
+      await this.runGitCommand(['-C', repositoryRoot, 'worktree', 'remove', '--force', worktreePath]);
+      await this.runGitCommand(['-C', repositoryRoot, 'branch', '-D', branchName]);
+      vscode.window.showErrorMessage(`Failed to apply the changes of group '${groupName}' in the new worktree. The worktree and branch were removed again and nothing was changed. ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+
+    const problems: string[] = [];
+    try {
+      await this.writeWorktreeGroupConfig(worktreePath, branchName, repositoryRoot, groupName, entries);
+    } catch (error) {
+      log(`[moveGroupToWorktree] Failed to write worktree config: ${error}`, 'config');
+      problems.push(`the group definition could not be written to the new worktree (${error instanceof Error ? error.message : String(error)})`);
+    }
+
+    let removed = false;
+    try {
+      await this.removeEntriesFromWorkingTree(repositoryRoot, entries);
+      removed = true;
+    } catch (error) {
+      log(`[moveGroupToWorktree] Failed to remove changes from the current working tree: ${error}`, 'git');
+      problems.push(`its changes could not be removed from this working tree and now exist in both (${error instanceof Error ? error.message : String(error)})`);
+    }
+
+    if (removed) {
+      await this.forgetRemovedEntries(groupName, entries, nestedCount === 0);
+    }
+
+    log(`[moveGroupToWorktree] Moved '${groupName}' to branch ${branchName} in ${worktreePath}`, 'git');
+    if (problems.length > 0) {
+      vscode.window.showWarningMessage(`Moved group '${groupName}' to branch '${branchName}' in ${worktreePath}, but ${problems.join(' and ')}.`);
+    }
+    return true;
+  }
+
+  /**
+   * Commit a group's changes onto another branch without switching to it, optionally pushing
+   * the branch and removing the changes from this working tree afterwards.
+   */
+  async publishGroupToBranch(groupName: string, branchName: string): Promise<void> {
+    const trimmed = groupName.trim();
+    const repositoryRoot = this.cachedRepositoryRoot ?? this.workspaceRoot;
+
+    const formatCheck = await execGit(['-C', repositoryRoot, 'check-ref-format', '--branch', branchName]);
+    if (formatCheck.code !== 0) {
+      vscode.window.showErrorMessage(`'${branchName}' is not a valid branch name.`);
+      return;
+    }
+    if (branchName === await this.getCurrentBranchName()) {
+      vscode.window.showErrorMessage(`'${branchName}' is the current branch; use Commit Group instead.`);
+      return;
+    }
+
+    const entriesForGroup = await this.getEntriesForGroup(trimmed);
+    const nestedEntries = entriesForGroup.filter(entry => entry.repositoryRoot);
+    const entries = entriesForGroup.filter(entry => !entry.repositoryRoot);
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage(`No files to publish in group '${trimmed}'.`);
+      return;
+    }
+    if (nestedEntries.length > 0) {
+      vscode.window.showWarningMessage(`${nestedEntries.length} file(s) in submodules are not included when publishing group '${trimmed}'.`);
+    }
+
+    const partialPatches: string[] = [];
+    for (const entry of entries.filter(candidate => this.isPartialEntry(candidate))) {
+      const fileDiff = await this.loadFileDiff(entry.resourceUri);
+      const patch = fileDiff ? buildPartialPatch(fileDiff, new Set(entry.hunks?.fingerprints ?? [])) : undefined;
+      if (patch) {
+        partialPatches.push(patch);
+      }
+    }
+
+    const suggestedMessage = await this.getSuggestedCommitMessage(trimmed, entries);
+    const commitInput = await promptForCommitInput({
+      title: `Publish Group: ${trimmed} → ${branchName}`,
+      placeHolder: 'Enter commit message...',
+      ...(suggestedMessage ? { value: suggestedMessage } : {}),
+      syncToRemote: this.getautoSyncEnabled(),
+      onSyncToRemoteChanged: async (enabled: boolean) => {
+        await this.setautoSyncEnabled(enabled);
+      },
+      files: this.toCommitFileList(entries),
+      useEditor: this.getCommitEditorEnabled(),
+      onUseEditorChanged: async (enabled: boolean) => {
+        await this.setCommitEditorEnabled(enabled);
+      },
+      conventional: await this.getConventionalCommitsConfig(),
+      commitOptions: this.getCommitOptionDefaults(),
+      onCommitOptionsChanged: async (options: CommitToggleOptions) => {
+        await this.setCommitOptionDefaults(options);
+      },
+      getAmendMessage: () => this.getCommitMessage(`refs/heads/${branchName}`)
+    });
+    if (!commitInput) {
+      return;
+    }
+
+    let result: PublishBranchResult;
+    try {
+      result = await publishToBranch({
+        repositoryRoot,
+        branch: branchName,
+        message: commitInput.message,
+        files: entries.filter(entry => !this.isPartialEntry(entry)).map(entry => entry.resourceUri.fsPath),
+        partialPatches,
+        commitOptions: commitInput.commitOptions,
+        push: commitInput.syncToRemote
+      });
+    } catch (error) {
+      log(`[publishGroupToBranch] Failed: ${error}`, 'git');
+      vscode.window.showErrorMessage(`Failed to publish group '${trimmed}' to '${branchName}': ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    log(`[publishGroupToBranch] Committed ${result.commit} on ${branchName} (base ${result.base})`, 'git');
+    const committed = commitInput.commitOptions.amend
+      ? `Amended the tip of branch '${branchName}' with group '${trimmed}'`
+      : `Committed group '${trimmed}' to ${result.created ? 'new ' : ''}branch '${branchName}'`;
+    const summary = `${committed}${result.pushed ? ` and pushed it to ${result.remote}` : ''}.`;
+    if (commitInput.syncToRemote && !result.pushed) {
+      vscode.window.showWarningMessage(`${summary.slice(0, -1)}, but pushing failed: ${result.pushError}`);
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+      `${summary} Remove its changes from this working tree?`,
+      'Remove Changes',
+      'Keep'
+    );
+    if (choice !== 'Remove Changes') {
+      this.refresh();
+      return;
+    }
+
+    try {
+      await this.removeEntriesFromWorkingTree(repositoryRoot, entries);
+    } catch (error) {
+      log(`[publishGroupToBranch] Failed to remove changes: ${error}`, 'git');
+      vscode.window.showErrorMessage(`The commit on '${branchName}' was created, but its changes could not be removed from this working tree: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    await this.forgetRemovedEntries(trimmed, entries, nestedEntries.length === 0);
+  }
+
+  /**
+   * Drop assignments of entries whose changes left the working tree, deleting the group too
+   * when nothing of it remains.
+   */
+  private async forgetRemovedEntries(groupName: string, entries: FileEntry[], deleteGroup: boolean): Promise<void> {
+    for (const entry of entries) {
+      const key = this.toAssignmentKey(entry.resourceUri);
+      if (!key) {
+        continue;
+      }
+
+      if (this.isPartialEntry(entry)) {
+        // The other groups' hunks stay; pruning folds the file back once only one owner is left.
+        this.model.forgetHunks(key, entry.hunks?.fingerprints ?? []);
+      } else {
+        this.model.forgetFiles([key]);
+      }
+    }
+
+    if (deleteGroup && groupName !== GitFileGroupsProvider.UNGROUPED) {
+      await this.deleteGroup(groupName);
+    } else {
+      await this.saveData();
+    }
+    await this.syncAssignmentsAfterGitOperation(entries.map(entry => entry.resourceUri), true);
+  }
+
+  /**
+   * Tree of HEAD plus the given entries' working tree changes, built in a temporary index.
+   */
+  private async buildTreeWithEntries(repositoryRoot: string, entries: FileEntry[]): Promise<string> {
+    return withTemporaryIndex(async (env) => {
+      await execGitOrThrow(['-C', repositoryRoot, 'read-tree', 'HEAD'], { env });
+
+      const wholeFilePaths = entries.filter(entry => !this.isPartialEntry(entry)).map(entry => entry.resourceUri.fsPath);
+      if (wholeFilePaths.length > 0) {
+        await execGitOrThrow(['-C', repositoryRoot, 'add', '-A', '--', ...wholeFilePaths], { env });
+      }
+
+      for (const entry of entries.filter(candidate => this.isPartialEntry(candidate))) {
+        const fileDiff = await this.loadFileDiff(entry.resourceUri);
+        const patch = fileDiff ? buildPartialPatch(fileDiff, new Set(entry.hunks?.fingerprints ?? [])) : undefined;
+        if (patch) {
+          await execGitOrThrow(['-C', repositoryRoot, 'apply', '--cached', '--unidiff-zero', '--whitespace=nowarn', '-'], { input: patch, env });
+        }
+      }
+
+      return (await execGitOrThrow(['-C', repositoryRoot, 'write-tree'], { env })).trim();
+    });
+  }
+
+  /**
+   * Reset the entries to HEAD in the working tree and index, keeping other groups' hunks of
+   * split files in place.
+   */
+  private async removeEntriesFromWorkingTree(repositoryRoot: string, entries: FileEntry[]): Promise<void> {
+    const filePaths = entries.map(entry => entry.resourceUri.fsPath);
+    const remainingPatches: string[] = [];
+    for (const entry of entries.filter(candidate => this.isPartialEntry(candidate))) {
+      const fileDiff = await this.loadFileDiff(entry.resourceUri);
+      const moved = new Set(entry.hunks?.fingerprints ?? []);
+      const remaining = fileDiff ? buildPartialPatch(fileDiff, new Set(fileDiff.hunks.map(hunk => hunk.fingerprint).filter(fingerprint => !moved.has(fingerprint)))) : undefined;
+      if (remaining) {
+        remainingPatches.push(remaining);
+      }
+    }
+
+    await (await this.getGitBackend()).unstage(repositoryRoot, filePaths);
+    await withTemporaryIndex(async (env) => {
+      await execGitOrThrow(['-C', repositoryRoot, 'read-tree', 'HEAD'], { env });
+      for (const patch of remainingPatches) {
+        await execGitOrThrow(['-C', repositoryRoot, 'apply', '--cached', '--unidiff-zero', '--whitespace=nowarn', '-'], { input: patch, env });
+      }
+
+      const listed = await execGitOrThrow(['-C', repositoryRoot, 'ls-files', '-z', '--full-name', '--', ...filePaths], { env });
+      const inHead = new Set(listed.split('\0').filter(Boolean).map(relativePath => this.model.toKey(path.join(repositoryRoot, relativePath))));
+      const toRestore = filePaths.filter(filePath => inHead.has(this.model.toKey(filePath)));
+      if (toRestore.length > 0) {
+        await execGitOrThrow(['-C', repositoryRoot, 'checkout-index', '-f', '--', ...toRestore], { env });
+      }
+
+      for (const filePath of filePaths.filter(candidate => !toRestore.includes(candidate))) {
+        await fs.promises.rm(filePath, { force: true });
+      }
     });
-    if (!repository) {
+  }
+
+  /**
+   * Add the group and its files to the new branch's set in the worktree's config, mapping
+   * paths from this repository onto the worktree's folder.
+   */
+  private async writeWorktreeGroupConfig(worktreePath: string, branchName: string, repositoryRoot: string, groupName: string, entries: FileEntry[]): Promise<void> {
+    const worktreeStorage = new ProjectStorage(path.join(worktreePath, path.relative(repositoryRoot, this.storageRoot)));
+    worktreeStorage.setActiveBranch(branchName);
+    const data = await worktreeStorage.loadData();
+    const groups = groupName === GitFileGroupsProvider.UNGROUPED || data.groups.includes(groupName)
+      ? data.groups
+      : [...data.groups, groupName].sort((a, b) => a.localeCompare(b));
+
+    const assignments = { ...data.assignments };
+    for (const entry of entries) {
+      assignments[path.join(worktreePath, path.relative(repositoryRoot, entry.resourceUri.fsPath))] = groupName;
+    }
+
+    await worktreeStorage.saveData({ groups, assignments, hunkAssignments: data.hunkAssignments });
+  }
+
+  private isPartialEntry(entry: FileEntry): boolean {
+    return isSplitEntry(entry);
+  }
+
+  private async forgetMissingShelvedGroup(entry: ShelvedGroup): Promise<void> {
+    const choice = await vscode.window.showWarningMessage(
+      `The stash for shelved group '${entry.group}' no longer exists. Remove it from the list?`,
+      'Remove'
+    );
+    if (choice === 'Remove') {
+      const shelved = await this.storage.loadShelvedGroups();
+      await this.saveShelvedGroups(shelved.filter(candidate => candidate.stash !== entry.stash));
+      this.refresh();
+    }
+  }
+
+  private async getCurrentBranchName(): Promise<string | undefined> {
+    const repositoryRoot = this.cachedRepositoryRoot ?? this.workspaceRoot;
+    return this.runGitCommand(['-C', repositoryRoot, 'symbolic-ref', '--quiet', '--short', 'HEAD']);
+  }
+
+  /**
+   * Current stash@{n} reference for a stash commit, or undefined when it was dropped.
+   */
+  private async findStashRef(stashHash: string): Promise<string | undefined> {
+    const repositoryRoot = this.cachedRepositoryRoot ?? this.workspaceRoot;
+    const output = await this.runGitCommand(['-C', repositoryRoot, 'stash', 'list', '--format=%H']);
+    const index = (output ?? '').split(/\r?\n/).map(line => line.trim()).indexOf(stashHash);
+    return index === -1 ? undefined : `stash@{${index}}`;
+  }
+
+  async stageAllChanges(): Promise<vscode.Uri[]> {
+    const git = await this.getGitBackend();
+    const repositoryRoot = await git.findRepositoryRoot(this.workspaceRoot);
+    if (!repositoryRoot) {
       log('No repository found for stageAllChanges', 'git');
       return [];
     }
@@ -895,7 +2561,7 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
     const filePathsToStage = allChanges.map(change => change.resourceUri.fsPath);
     log(`[stageAllChanges] Staging all changes: ${filePathsToStage.join(', ')}`, 'git');
     try {
-      await repository.add(filePathsToStage);
+      await git.stage(repositoryRoot, filePathsToStage);
     } catch (e) {
       log(`Failed to stage all changes: ${e}`, 'git');
     }
@@ -904,30 +2570,89 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
   }
 
   async moveFilesToGroup(uris: vscode.Uri[], groupName: string): Promise<void> {
-    const target = groupName.trim();
-    if (!target) {
+    const keys = uris
+      .map(uri => this.toAssignmentKey(uri))
+      .filter((key): key is string => !!key);
+    if (!this.model.moveFiles(keys, groupName)) {
       return;
     }
 
-    if (!this.isKnownGroupName(target)) {
+    await this.saveData();
+    this.refresh();
+  }
+
+  async moveHunksToGroup(uri: vscode.Uri, fingerprints: string[], groupName: string): Promise<void> {
+    const key = this.toAssignmentKey(uri);
+    if (!key || !this.model.isKnownGroup(groupName.trim()) || fingerprints.length === 0) {
       return;
     }
 
-    for (const uri of uris) {
-      const key = this.toAssignmentKey(uri);
-      if (!key) {
-        continue;
-      }
+    const fileDiff = await this.loadFileDiff(uri);
+    this.model.moveHunks(key, fingerprints, groupName, fileDiff?.hunks.map(hunk => hunk.fingerprint));
+    await this.saveData();
+    await this.refreshTreeModelFiles();
+    this.refresh();
+  }
+
+  /**
+   * Hunks available for splitting a file, along with the group that currently owns each one.
+   */
+  async getFileHunks(uri: vscode.Uri): Promise<Array<{ fingerprint: string; groupName: string; label: string; detail: string; line: number }>> {
+    const key = this.toAssignmentKey(uri);
+    const fileDiff = await this.loadFileDiff(uri);
+    if (!key || !fileDiff) {
+      return [];
+    }
+
+    const fileGroup = this.model.getAssignedGroup(key);
+    return fileDiff.hunks.map(hunk => ({
+      fingerprint: hunk.fingerprint,
+      groupName: this.model.getHunkGroup(key, hunk.fingerprint, fileGroup),
+      ...describeHunk(hunk),
+      line: Math.max(hunk.newStart, 1)
+    }));
+  }
+
+  getKnownGroupNames(): string[] {
+    return this.model.getKnownGroups();
+  }
+
+  /**
+   * Description of the rule that placed a file, as long as the file is still in that rule's group.
+   */
+  private getPlacingRuleDescription(uri: vscode.Uri, groupName: string): string | undefined {
+    const key = this.toAssignmentKey(uri);
+    return key ? this.model.getPlacingRuleDescription(key, groupName) : undefined;
+  }
+
+  private async loadFileDiff(uri: vscode.Uri): Promise<FileDiff | undefined> {
+    const repositoryRoot = this.getRepositoryRootForPath(uri.fsPath);
+    const result = await execGit(['-C', repositoryRoot, 'diff', '-U0', '--no-color', '--no-ext-diff', 'HEAD', '--', uri.fsPath]);
+    if (result.code !== 0) {
+      log(`git diff failed for ${uri.fsPath} (${result.code}): ${result.stderr.trim()}`, 'git');
+      return undefined;
+    }
+
+    const fileDiff = parseFileDiff(result.stdout);
+    return fileDiff.isBinary ? undefined : fileDiff;
+  }
+
+  private async stageHunks(uri: vscode.Uri, fingerprints: Set<string>): Promise<boolean> {
+    const fileDiff = await this.loadFileDiff(uri);
+    const patch = fileDiff ? buildPartialPatch(fileDiff, fingerprints) : undefined;
+    if (!patch) {
+      log(`No matching hunks to stage for ${uri.fsPath}`, 'git');
+      return false;
+    }
 
-      if (target === GitFileGroupsProvider.UNGROUPED) {
-        this.assignments[key] = GitFileGroupsProvider.UNGROUPED;
-      } else {
-        this.assignments[key] = target;
-      }
+    const repositoryRoot = this.getRepositoryRootForPath(uri.fsPath);
+    const result = await execGit(['-C', repositoryRoot, 'apply', '--cached', '--unidiff-zero', '--whitespace=nowarn', '-'], { input: patch });
+    if (result.code !== 0) {
+      log(`Failed to stage hunks for ${uri.fsPath}: ${result.stderr.trim()}`, 'git');
+      return false;
     }
 
-    await this.saveData();
-    this.refresh();
+    return true;
   }
 
   getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
@@ -935,45 +2660,132 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
   }
 
   getParent(element: vscode.TreeItem): vscode.TreeItem | undefined {
+    const parent = this.buildParent(element);
+    return parent ? this.trackNodes([parent])[0] : undefined;
+  }
+
+  private buildParent(element: vscode.TreeItem): vscode.TreeItem | undefined {
     // For GroupNodes, return undefined (they are root level)
     // For FileNodes, return the GroupNode they belong to
+    if (element instanceof HunkNode) {
+      return new FileNode(path.basename(element.fileUri.fsPath), element.fileUri, element.groupName);
+    }
+
+    if (element instanceof FileNode && element.contextValue === 'file-conflicted') {
+      return new ConflictsNode();
+    }
+
     if (element instanceof FileNode) {
-      if (!element.resourceUri) {
-        return undefined;
+      const key = this.toAssignmentKey(element.fileUri);
+      const assignedGroup = element.groupName ?? this.model.getAssignedGroup(key);
+      if (element.repositoryRoot) {
+        const repositoryRoot = this.cachedRepositoryRoot ?? this.workspaceRoot;
+        return new SubmoduleNode(element.repositoryRoot, assignedGroup, path.relative(repositoryRoot, element.repositoryRoot).split(path.sep).join('/'));
       }
+      return new GroupNode(assignedGroup, true, undefined, this.model.isDefaultGroup(assignedGroup));
+    }
+
+    if (element instanceof SubmoduleNode) {
+      return new GroupNode(element.groupName, true, undefined, this.model.isDefaultGroup(element.groupName));
+    }
 
-      const key = this.toAssignmentKey(element.resourceUri);
-      const assignedGroup = this.getAssignedGroupName(key);
-      return new GroupNode(assignedGroup, true, undefined, this.isDefaultGroup(assignedGroup));
+    if (element instanceof CommitFileItem) {
+      return element.commitItem;
     }
 
     return undefined;
   }
 
   async getChildren(element?: vscode.TreeItem | undefined): Promise<vscode.TreeItem[]> {
+    return this.trackNodes(await this.buildChildren(element));
+  }
+
+  private async buildChildren(element?: vscode.TreeItem | undefined): Promise<vscode.TreeItem[]> {
     log(`getChildren called with element: ${element ? element.label : 'undefined'}`, 'view');
     log(`getChildren timestamp: ${new Date().toISOString()}`, 'view');
 
+    const data = await this.getTreeGitData();
     if (element instanceof PendingCommitsNode) {
-      const commits = await this.loadUnpushedCommits();
-      return commits.map(commit => new PendingCommitItem(commit));
+      return data.unpushedCommits.map((commit, index) => new PendingCommitItem(commit, index === 0));
+    }
+
+    if (element instanceof IncomingCommitsNode) {
+      return data.incomingCommits.map(commit => new IncomingCommitItem(commit));
+    }
+
+    if (element instanceof PendingCommitItem || element instanceof IncomingCommitItem) {
+      const files = await this.getCommitFiles(element.commit);
+      return files.map(file => new CommitFileItem(element, file));
+    }
+
+    if (element instanceof ShelvedNode) {
+      return data.shelvedGroups.map(entry => new ShelvedGroupItem(entry));
+    }
+
+    if (element instanceof ShelvedGroupItem) {
+      return element.shelved.files.map(filePath => new ShelvedFileItem(filePath));
     }
 
     if (element instanceof GroupNode) {
       log(`Returning children for GroupNode: ${element.groupName}`, 'view');
-      const files = await this.getGroupedFiles();
+      const files = this.groupEntries(data.entries, data.modelFiles);
       const groupName = element.groupName;
       const fileEntries = groupName === GitFileGroupsProvider.UNGROUPED
         ? files.ungrouped
         : (files.grouped[groupName] || []);
 
-      return fileEntries.map(entry => new FileNode(entry.fileName, entry.resourceUri));
+      const nestedRoots = Array.from(new Set(
+        fileEntries
+          .map(entry => entry.repositoryRoot)
+          .filter((root): root is string => typeof root === 'string')
+      )).sort((a, b) => a.localeCompare(b));
+      const repositoryRoot = this.cachedRepositoryRoot ?? this.workspaceRoot;
+
+      return [
+        ...fileEntries
+          .filter(entry => !entry.repositoryRoot)
+          .map(entry => new FileNode(entry.fileName, entry.resourceUri, groupName, entry.hunks, undefined, this.getPlacingRuleDescription(entry.resourceUri, groupName), toChangeState(entry), this.getLineStats(entry))),
+        ...nestedRoots.map(root => new SubmoduleNode(
+          root,
+          groupName,
+          path.relative(repositoryRoot, root).split(path.sep).join('/'),
+          fileEntries.filter(entry => entry.repositoryRoot === root).length
+        ))
+      ];
+    }
+
+    if (element instanceof ConflictsNode) {
+      const entries = data.entries.filter(entry => entry.conflicted);
+      return entries.map(entry => new FileNode(entry.fileName, entry.resourceUri, undefined, undefined, undefined, undefined, toChangeState(entry), this.getLineStats(entry)));
+    }
+
+    if (element instanceof SubmoduleNode) {
+      const files = this.groupEntries(data.entries, data.modelFiles);
+      const fileEntries = element.groupName === GitFileGroupsProvider.UNGROUPED
+        ? files.ungrouped
+        : (files.grouped[element.groupName] || []);
+
+      return fileEntries
+        .filter(entry => entry.repositoryRoot === element.repositoryRoot)
+        .map(entry => new FileNode(entry.fileName, entry.resourceUri, element.groupName, entry.hunks, entry.repositoryRoot, this.getPlacingRuleDescription(entry.resourceUri, element.groupName), toChangeState(entry), this.getLineStats(entry)));
+    }
+
+    if (element instanceof FileNode && element.hunks && element.groupName) {
+      const groupName = element.groupName;
+      const fingerprints = new Set(element.hunks.fingerprints);
+      const hunks = await this.getFileHunks(element.fileUri);
+      return hunks
+        .filter(hunk => fingerprints.has(hunk.fingerprint))
+        .map(hunk => new HunkNode(element.fileUri, hunk.fingerprint, groupName, hunk.label, hunk.detail, hunk.line));
     }
 
     log('Getting top-level groups', 'view');
     const groups: vscode.TreeItem[] = [];
-    const files = await this.getGroupedFiles();
-    const unpushedCommits = await this.loadUnpushedCommits();
+    const files = this.groupEntries(data.entries, data.modelFiles);
+    const conflictCount = data.entries.filter(entry => entry.conflicted).length;
+    const unpushedCommits = data.unpushedCommits;
+    const incomingCommits = data.incomingCommits;
+    const incomingOverlaps = this.findIncomingOverlaps(data.incomingFileKeys, files);
 
     // Load per-project config (may include "links")
     let config: any = {};
@@ -985,12 +2797,15 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
     }
 
     const linkDefinitions: Array<Record<string, string>> = Array.isArray(config.links) ? config.links : [];
+    const groupNotes: Record<string, unknown> = config.group_notes && typeof config.group_notes === 'object' ? config.group_notes : {};
 
-    const makeNode = (name: string, count: number) => {
-      const node = new GroupNode(name, !this.collapsedGroupNames.has(name), count, this.isDefaultGroup(name));
+    const makeNode = (name: string, entries: FileEntry[]) => {
+      const count = entries.length;
+      const node = new GroupNode(name, !this.collapsedGroupNames.has(name), count, this.model.isDefaultGroup(name));
 
       // show count on the right side (description)
-      node.description = count > 0 ? `(${count})` : undefined;
+      const totals = sumLineStats(entries.map(entry => this.getLineStats(entry)));
+      node.description = count > 0 ? `(${count})${totals ? ` ${formatLineStats(totals)}` : ''}` : undefined;
 
       // Resolve links for this group based on configured link definitions.
       try {
@@ -1044,117 +2859,173 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
         log(`Error resolving links for group ${name}: ${linkErr}`, 'config');
       }
 
+      const notes = groupNotes[name];
+      if (typeof notes === 'string' && notes.trim()) {
+        if (node.tooltip instanceof vscode.MarkdownString) {
+          node.tooltip.appendMarkdown('\n\n---\n\n').appendText(notes);
+        } else {
+          node.tooltip = notes;
+        }
+      }
+
+      const overlapping = incomingOverlaps.get(name);
+      if (overlapping) {
+        node.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+        node.description = `${node.description ?? ''} ⚠ ${overlapping.length} changed upstream`.trim();
+        if (!node.tooltip) {
+          node.tooltip = `Also changed by incoming commits:\n${overlapping.map(entry => vscode.workspace.asRelativePath(entry.resourceUri, false)).join('\n')}`;
+        }
+      }
+
+      const largestFiles = describeLargestFiles(entries.map(entry => ({
+        label: vscode.workspace.asRelativePath(entry.resourceUri, false),
+        stats: this.getLineStats(entry)
+      })));
+      const breakdown = [describeChangeKinds(entries.map(toChangeState)), largestFiles].filter(part => part).join('\n\n');
+      if (breakdown) {
+        if (node.tooltip instanceof vscode.MarkdownString) {
+          const tooltip = new vscode.MarkdownString().appendText(breakdown).appendMarkdown(`\n\n---\n\n${node.tooltip.value}`);
+          tooltip.isTrusted = node.tooltip.isTrusted;
+          node.tooltip = tooltip;
+        } else {
+          node.tooltip = node.tooltip ? `${breakdown}\n\n${node.tooltip}` : breakdown;
+        }
+      }
+
       return node;
     };
 
+    if (this.gitOperation) {
+      groups.push(new OperationBannerNode(this.gitOperation, conflictCount));
+    }
+    if (conflictCount > 0) {
+      groups.push(new ConflictsNode(conflictCount));
+    }
     groups.push(new PendingCommitsNode(unpushedCommits.length));
-    groups.push(makeNode(GitFileGroupsProvider.UNGROUPED, files.ungrouped.length));
-    for (const groupName of this.groups) {
-      const count = (files.grouped[groupName] || []).length;
-      groups.push(makeNode(groupName, count));
+    if (incomingCommits.length > 0) {
+      groups.push(new IncomingCommitsNode(incomingCommits.length));
+    }
+    if (data.shelvedGroups.length > 0) {
+      groups.push(new ShelvedNode(data.shelvedGroups.length));
+    }
+    groups.push(makeNode(GitFileGroupsProvider.UNGROUPED, files.ungrouped));
+    for (const groupName of this.model.getGroups()) {
+      groups.push(makeNode(groupName, files.grouped[groupName] || []));
     }
     return groups;
   }
 
   private async loadUnpushedCommits(): Promise<PendingCommitEntry[]> {
-    const gitExtension = vscode.extensions.getExtension<GitAPI>('vscode.git');
-    if (!gitExtension) {
-      return [];
-    }
-
-    if (!gitExtension.isActive) {
-      await gitExtension.activate();
-    }
+    return this.loadUpstreamCommits('ahead');
+  }
 
-    const api = gitExtension.exports.getAPI(1);
-    const repository = api.repositories.find((repo: any) => {
-      const repoPath = repo.rootUri?.fsPath;
-      return repoPath && path.normalize(repoPath).toLowerCase() === path.normalize(this.workspaceRoot).toLowerCase();
-    }) ?? api.repositories.find((repo: any) => {
-      const repoPath = repo.rootUri?.fsPath;
-      return repoPath && path.normalize(this.workspaceRoot).toLowerCase().startsWith(path.normalize(repoPath).toLowerCase());
-    });
+  private async loadIncomingCommits(): Promise<PendingCommitEntry[]> {
+    return this.loadUpstreamCommits('behind');
+  }
 
-    const ahead = typeof repository?.state?.HEAD?.ahead === 'number' ? repository.state.HEAD.ahead : 0;
-    if (!repository?.rootUri?.fsPath || ahead <= 0) {
+  /**
+   * Commits on HEAD but not on its upstream (ahead), or the other way around (behind), newest
+   * first. Only lists them when the status reports commits in that direction.
+   */
+  private async loadUpstreamCommits(direction: 'ahead' | 'behind'): Promise<PendingCommitEntry[]> {
+    const git = await this.getGitBackend();
+    const repositoryRoot = await git.findRepositoryRoot(this.workspaceRoot);
+    const status = repositoryRoot ? await git.status(repositoryRoot) : undefined;
+    if (!repositoryRoot || !status || status[direction] <= 0) {
       return [];
     }
 
-    this.cachedRepositoryRoot = repository.rootUri.fsPath;
-
-    const output = await this.runGitCommand([
-      '-C',
-      repository.rootUri.fsPath,
-      'log',
-      '--format=%H%x09%s',
-      '@{upstream}..HEAD'
-    ]);
+    this.cachedRepositoryRoot = repositoryRoot;
 
-    if (!output) {
+    let commits: GitLogEntry[];
+    try {
+      commits = await git.log(repositoryRoot, direction === 'ahead' ? '@{upstream}..HEAD' : 'HEAD..@{upstream}');
+    } catch (error) {
+      log(`Failed to list ${direction === 'ahead' ? 'unpushed' : 'incoming'} commits: ${error}`, 'git');
       return [];
     }
 
-    return output
-      .split(/\r?\n/)
-      .map(line => line.trim())
-      .filter(line => line.length > 0)
-      .map(line => {
-        const [hash, ...messageParts] = line.split('\t');
-        const message = messageParts.join('\t').trim();
-        return {
-          hash,
-          shortHash: hash.slice(0, 7),
-          message: message || hash,
-          repositoryRoot: repository.rootUri.fsPath
-        };
-      });
+    return commits.map(commit => ({
+      hash: commit.hash,
+      shortHash: commit.hash.slice(0, 7),
+      message: commit.subject || commit.hash,
+      repositoryRoot
+    }));
   }
 
-  private async runGitCommand(args: string[]): Promise<string | undefined> {
-    return await new Promise<string | undefined>((resolve) => {
-      const child = spawn('git', args, { shell: false });
-      let stdout = '';
-      let stderr = '';
+  /**
+   * Assignment keys of the files the incoming commits change, compared with the merge base so
+   * only upstream's side counts.
+   */
+  private async loadIncomingFileKeys(incomingCommits: PendingCommitEntry[]): Promise<Set<string>> {
+    if (incomingCommits.length === 0) {
+      return new Set();
+    }
 
-      child.stdout.on('data', (chunk: Buffer | string) => {
-        stdout += chunk.toString();
-      });
+    const repositoryRoot = incomingCommits[0].repositoryRoot;
+    const output = await this.runGitCommand(['-C', repositoryRoot, 'diff', '--name-only', '-z', 'HEAD...@{upstream}']);
+    return new Set((output ?? '')
+      .split('\0')
+      .filter(relativePath => relativePath.length > 0)
+      .map(relativePath => this.model.toKey(path.join(repositoryRoot, relativePath))));
+  }
 
-      child.stderr.on('data', (chunk: Buffer | string) => {
-        stderr += chunk.toString();
-      });
+  /**
+   * Uncommitted files outside `excludedGroup` that the incoming commits also change, by group.
+   */
+  private findIncomingOverlaps(incomingFileKeys: Set<string>, files: GroupedFiles, excludedGroup?: string): Map<string, FileEntry[]> {
+    const overlaps = new Map<string, FileEntry[]>();
+    if (incomingFileKeys.size === 0) {
+      return overlaps;
+    }
 
-      child.on('error', (error: Error) => {
-        log(`git command failed to start: ${error}`, 'git');
-        resolve(undefined);
-      });
+    const groups: Array<[string, FileEntry[]]> = [[GitFileGroupsProvider.UNGROUPED, files.ungrouped], ...Object.entries(files.grouped)];
+    for (const [groupName, entries] of groups) {
+      if (groupName === excludedGroup) {
+        continue;
+      }
 
-      child.on('close', (code: number | null) => {
-        if (code === 0) {
-          resolve(stdout.trim());
-          return;
-        }
+      const touched = entries.filter(entry => incomingFileKeys.has(this.model.toKey(entry.resourceUri.fsPath)));
+      if (touched.length > 0) {
+        overlaps.set(groupName, touched);
+      }
+    }
 
-        log(`git command failed (${code}): ${stderr.trim()}`, 'git');
-        resolve(undefined);
-      });
-    });
+    return overlaps;
   }
 
-  private getGroupLabel(type: number): string {
-    switch (type) {
-      case 0:
-        return 'Untracked';
+  /**
+   * Before auto sync pulls, warn when the incoming commits change files that are still
+   * uncommitted in other groups. Resolves to false when the sync should be skipped.
+   */
+  private async confirmSyncWithIncomingChanges(committedGroup?: string): Promise<boolean> {
+    const incomingCommits = await this.loadIncomingCommits();
+    const overlaps = this.findIncomingOverlaps(await this.loadIncomingFileKeys(incomingCommits), await this.getGroupedFiles(), committedGroup);
+    if (overlaps.size === 0) {
+      return true;
+    }
+
+    const details = Array.from(overlaps.entries())
+      .map(([groupName, entries]) => `${groupName}: ${entries.map(entry => vscode.workspace.asRelativePath(entry.resourceUri, false)).join(', ')}`)
+      .join('\n');
+    log(`[commitGroup] Incoming commits overlap uncommitted files:\n${details}`, 'git');
+    const choice = await vscode.window.showWarningMessage(
+      `${incomingCommits.length} incoming commit${incomingCommits.length === 1 ? '' : 's'} change files that are still uncommitted in other groups, so pulling is likely to conflict.`,
+      { modal: true, detail: details },
+      'Sync Anyway',
+      'Skip Sync'
+    );
+    return choice === 'Sync Anyway';
+  }
 
-      case 1:
-        return 'Modified';
-      case 2:
-        return 'Added';
-      case 3:
-        return 'Deleted';
-      default:
-        return 'Unknown';
+  private async runGitCommand(args: string[]): Promise<string | undefined> {
+    const result = await execGit(args);
+    if (result.code === 0) {
+      return result.stdout.trim();
     }
+
+    log(`git command failed (${result.code}): ${result.stderr.trim()}`, 'git');
+    return undefined;
   }
 
   private toAssignmentKey(uri: vscode.Uri): string | undefined {
@@ -1167,241 +3038,263 @@ export class GitFileGroupsProvider implements vscode.TreeDataProvider<vscode.Tre
       return undefined;
     }
 
-    return this.normalizeAssignmentKey(fsPath);
-  }
-
-  private normalizeAssignmentKey(fsPath: string): string {
-    const normalizedPath = path.normalize(fsPath);
-    return process.platform === 'win32' ? normalizedPath.toLowerCase() : normalizedPath;
+    return this.model.toKey(fsPath);
   }
 
-  private normalizeStoredGroupName(groupName: unknown): string | undefined {
-    if (typeof groupName !== 'string') {
+  /**
+   * The model's view of a changed file, without its hunks.
+   */
+  private toModelFile(uri: vscode.Uri, changeKind?: ChangeKind): ModelFile | undefined {
+    const key = this.toAssignmentKey(uri);
+    if (!key) {
       return undefined;
     }
 
-    const trimmed = groupName.trim();
-    if (!trimmed) {
-      return undefined;
-    }
+    return { key, relativePath: path.relative(this.getRepositoryRootForPath(uri.fsPath), uri.fsPath), changeKind };
+  }
+
+  /**
+   * Model files for snapshot entries. Hunks are loaded only for files split across groups,
+   * the only ones the model needs them for.
+   */
+  private async toModelFiles(entries: FileEntry[]): Promise<ModelFile[]> {
+    const files: ModelFile[] = [];
+    for (const entry of entries) {
+      const file = this.toModelFile(entry.resourceUri, entry.changeKind);
+      if (!file) {
+        continue;
+      }
 
-    if (trimmed === 'default') {
-      return GitFileGroupsProvider.UNGROUPED;
+      const fileDiff = this.model.isSplit(file.key) ? await this.loadFileDiff(entry.resourceUri) : undefined;
+      files.push(fileDiff ? { ...file, hunks: fileDiff.hunks.map(hunk => hunk.fingerprint) } : file);
     }
+    return files;
+  }
 
-    return trimmed;
+  /**
+   * Changed files by group. Conflicted files are listed in the Conflicts node instead.
+   */
+  private async getGroupedFiles(): Promise<GroupedFiles> {
+    const entries = (await this.loadGitFileEntries()).filter(entry => !entry.conflicted);
+    return this.groupEntries(entries, await this.toModelFiles(entries));
   }
 
-  private isKnownGroupName(groupName: string): boolean {
-    return groupName === GitFileGroupsProvider.UNGROUPED || this.groups.includes(groupName);
+  /**
+   * Group snapshot entries by their model files; conflicted entries are left out.
+   */
+  private groupEntries(entries: FileEntry[], files: ModelFile[]): GroupedFiles {
+    const filesByKey = new Map(files.map(file => [file.key, file] as [string, ModelFile]));
+    return this.model.groupFiles(entries.filter(entry => !entry.conflicted), entry => {
+      const key = this.toAssignmentKey(entry.resourceUri);
+      return key ? filesByKey.get(key) : undefined;
+    });
   }
 
-  private isDefaultGroup(groupName: string): boolean {
-    return groupName === this.defaultGroupName;
+  private async loadGitFileEntries(): Promise<FileEntry[]> {
+    const snapshot = await this.loadGitSnapshot();
+    return snapshot.entries;
   }
 
-  private getAssignedGroupName(key: string | undefined): string {
-    if (!key) {
-      return GitFileGroupsProvider.UNGROUPED;
+  /**
+   * The git data the tree is rendered from. Loaded with each assignment sync, which follows
+   * every repository state change, so rendering itself doesn't run git.
+   */
+  private async getTreeGitData(): Promise<TreeGitData> {
+    if (!this.treeGitData) {
+      const entries = await this.loadGitFileEntries();
+      this.treeGitData = await this.loadTreeGitData(entries, await this.toModelFiles(entries));
     }
+    return this.treeGitData;
+  }
 
-    const storedGroupName = this.normalizeStoredGroupName(this.assignments[key]);
-    if (!storedGroupName) {
-      return GitFileGroupsProvider.UNGROUPED;
-    }
+  private async loadTreeGitData(entries: FileEntry[], modelFiles: ModelFile[]): Promise<TreeGitData> {
+    await this.updateLineStats(entries);
+    const unpushedCommits = await this.loadUnpushedCommits();
+    const incomingCommits = await this.loadIncomingCommits();
+    return {
+      entries,
+      modelFiles,
+      unpushedCommits,
+      incomingCommits,
+      incomingFileKeys: await this.loadIncomingFileKeys(incomingCommits),
+      shelvedGroups: await this.storage.loadShelvedGroups()
+    };
+  }
 
-    if (storedGroupName === GitFileGroupsProvider.UNGROUPED) {
-      return GitFileGroupsProvider.UNGROUPED;
+  /**
+   * Load the hunks of files that became split since the tree data was loaded.
+   */
+  private async refreshTreeModelFiles(): Promise<void> {
+    if (this.treeGitData) {
+      this.treeGitData = { ...this.treeGitData, modelFiles: await this.toModelFiles(this.treeGitData.entries) };
     }
+  }
 
-    if (this.groups.includes(storedGroupName)) {
-      return storedGroupName;
+  private async saveShelvedGroups(shelved: ShelvedGroup[]): Promise<void> {
+    await this.storage.saveShelvedGroups(shelved);
+    if (this.treeGitData) {
+      this.treeGitData = { ...this.treeGitData, shelvedGroups: shelved };
     }
-
-    return GitFileGroupsProvider.UNGROUPED;
   }
 
-  private async getGroupedFiles(): Promise<{ ungrouped: FileEntry[]; grouped: Record<string, FileEntry[]> }> {
-    const entries = await this.loadGitFileEntries();
-    const grouped: Record<string, FileEntry[]> = {};
-    const ungrouped: FileEntry[] = [];
-
-    for (const groupName of this.groups) {
-      grouped[groupName] = [];
+  /**
+   * Refresh the line stats of the changed files, so nodes read them from the cache.
+   */
+  private async updateLineStats(entries: FileEntry[]): Promise<void> {
+    const byRepository = new Map<string, FileEntry[]>();
+    for (const entry of entries) {
+      const repositoryRoot = entry.repositoryRoot ?? this.cachedRepositoryRoot ?? this.workspaceRoot;
+      byRepository.set(repositoryRoot, [...(byRepository.get(repositoryRoot) ?? []), entry]);
     }
 
-    for (const entry of entries) {
-      const key = this.toAssignmentKey(entry.resourceUri);
-      const assignedGroup = this.getAssignedGroupName(key);
-      if (assignedGroup === GitFileGroupsProvider.UNGROUPED) {
-        ungrouped.push(entry);
-      } else if (grouped[assignedGroup]) {
-        grouped[assignedGroup].push(entry);
-      } else {
-        ungrouped.push(entry);
+    for (const [repositoryRoot, repositoryEntries] of byRepository) {
+      try {
+        await this.lineStats.update(repositoryRoot, repositoryEntries.map(entry => ({
+          fsPath: entry.resourceUri.fsPath,
+          untracked: entry.changeKind === 'untracked'
+        })));
+      } catch (error) {
+        log(`Failed to update line stats for ${repositoryRoot}: ${error}`, 'git');
       }
     }
-
-    return { ungrouped, grouped };
   }
 
-  private async loadGitFileEntries(): Promise<FileEntry[]> {
-    const snapshot = await this.loadGitSnapshot();
-    return snapshot.entries;
+  /**
+   * Whole-file stats; a file split across groups has none, its lines belong to several groups.
+   */
+  private getLineStats(entry: FileEntry): LineStats | undefined {
+    if (this.isPartialEntry(entry)) {
+      return undefined;
+    }
+
+    return this.lineStats.get(entry.repositoryRoot ?? this.cachedRepositoryRoot ?? this.workspaceRoot, entry.resourceUri.fsPath);
   }
 
   private async loadGitSnapshot(): Promise<{ entries: FileEntry[]; repositoryAvailable: boolean }> {
     try {
-      const gitExtension = vscode.extensions.getExtension<GitAPI>('vscode.git');
-      if (!gitExtension) {
-        log('Git extension not found', 'git');
-        return { entries: [], repositoryAvailable: false };
-      }
-
-      if (!gitExtension.isActive) {
-        log('Activating Git extension...', 'git');
-        await gitExtension.activate();
-      }
-
-      const api = gitExtension.exports.getAPI(1);
-
-      // Git extension can take a moment to populate repositories after activation.
-      for (let attempt = 0; attempt < 5 && (!api.repositories || api.repositories.length === 0); attempt++) {
-        await new Promise(resolve => setTimeout(resolve, 200));
-      }
-
-      log(`Available repositories: ${api.repositories.map((repo: any) => repo.rootUri?.fsPath).join(', ')}`, 'git');
-      log(`Looking for workspace root: ${this.workspaceRoot}`, 'git');
-
-      const normalizeFsPath = (p: string) => path.normalize(p).toLowerCase();
-
-      let repository = api.repositories.find((repo: any) => normalizeFsPath(repo.rootUri.fsPath) === normalizeFsPath(this.workspaceRoot));
-
-      if (!repository) {
-        const foundRepo = api.repositories.find((repo: any) => {
-          const repoPath = repo.rootUri.fsPath;
-          return path.normalize(this.workspaceRoot).toLowerCase().startsWith(path.normalize(repoPath).toLowerCase());
-        });
-
-        if (foundRepo) {
-          this.workspaceRoot = foundRepo.rootUri.fsPath;
-          repository = foundRepo;
-        }
-      }
+      const git = await this.getGitBackend();
 
-      if (!repository) {
-        log('No repository found immediately, waiting 500ms and retrying...', 'git');
-        await new Promise(resolve => setTimeout(resolve, 500));
-        repository = api.repositories.find((repo: any) => normalizeFsPath(repo.rootUri.fsPath) === normalizeFsPath(this.workspaceRoot))
-          ?? api.repositories.find((repo: any) => {
-            const repoPath = repo.rootUri.fsPath;
-            return path.normalize(this.workspaceRoot).toLowerCase().startsWith(path.normalize(repoPath).toLowerCase());
-          });
-
-        if (repository?.rootUri?.fsPath && repository.rootUri.fsPath !== this.workspaceRoot) {
-          this.workspaceRoot = repository.rootUri.fsPath;
-        }
+      // The Git extension can take a moment to report repositories after activation.
+      let repositoryRoot = await git.findRepositoryRoot(this.workspaceRoot);
+      for (let attempt = 0; attempt < 5 && !repositoryRoot; attempt++) {
+        await this.delay(attempt < 4 ? 200 : 500);
+        repositoryRoot = await git.findRepositoryRoot(this.workspaceRoot);
       }
 
-      if (!repository) {
-          log(`No Git repository found for workspace: ${this.workspaceRoot}`, 'git');
+      if (!repositoryRoot) {
+        log(`No Git repository found for workspace: ${this.workspaceRoot} (${git.name} backend)`, 'git');
         return { entries: [], repositoryAvailable: false };
       }
 
-      this.cachedRepositoryRoot = repository?.rootUri?.fsPath;
-
-      let changes: any[] = [];
-      try {
-        if (repository.state) {
-          const status = repository.state;
-          const workingTreeChanges: any[] = status?.workingTreeChanges || [];
-          const indexChanges: any[] = status?.indexChanges || [];
-          changes = [...workingTreeChanges, ...indexChanges];
-        } else if (repository.getStatus) {
-          const status = await repository.getStatus();
-          changes = status?.workingTreeChanges || [];
-        } else if (repository.workingTreeChanges) {
-          changes = repository.workingTreeChanges || [];
-        }
-      } catch (statusError) {
-        log(`Error getting status: ${statusError}`, 'git');
-        changes = [];
-      }
-
-      log(`Repository status retrieved, changes count: ${changes.length}`, 'git');
-
-      if (changes.length === 0 && repository.state) {
-        log(`Repository.state keys: ${Object.keys(repository.state).join(', ')}`, 'git');
-      }
+      this.cachedRepositoryRoot = repositoryRoot;
+      this.nestedRepositoryRoots = await git.findNestedRepositoryRoots(repositoryRoot);
 
       const entryMap = new Map<string, FileEntry>();
-      for (const change of changes) {
-        // Include all changes in *Ungrouped for now.
-        // We'll tighten this once we confirm the Git status values in your environment.
-
-        const { fileName, resourceUri } = this.toFileNameAndUri(change);
-        if (!resourceUri) {
-          continue;
-        }
-
-        const key = this.toAssignmentKey(resourceUri) ?? resourceUri.toString();
-        if (!entryMap.has(key)) {
-          entryMap.set(key, { fileName, resourceUri });
+      const addChanges = (status: GitRepositoryStatus | undefined, nestedRoot?: string) => {
+        const toKey = (change: GitChange) => this.toAssignmentKey(change.uri) ?? change.uri.toString();
+        const stagedKeys = new Set((status?.indexChanges ?? []).map(toKey));
+        const unstagedKeys = new Set((status?.workingTreeChanges ?? []).map(toKey));
+        const conflictedKeys = new Set((status?.mergeChanges ?? []).map(toKey));
+        for (const change of [...(status?.mergeChanges ?? []), ...(status?.workingTreeChanges ?? []), ...(status?.indexChanges ?? [])]) {
+          const key = toKey(change);
+          if (!entryMap.has(key)) {
+            const stageState: StageState = !stagedKeys.has(key) ? 'unstaged' : unstagedKeys.has(key) ? 'partial' : 'staged';
+            entryMap.set(key, {
+              fileName: path.basename(change.uri.fsPath),
+              resourceUri: change.uri,
+              ...(nestedRoot ? { repositoryRoot: nestedRoot } : {}),
+              changeKind: change.kind,
+              ...(conflictedKeys.has(key) ? { conflicted: true } : { stageState })
+            });
+          }
         }
-      }
+      };
 
-      const entries = Array.from(entryMap.values());
+      const status = await git.status(repositoryRoot);
+      log(`Repository status retrieved, changes count: ${(status?.workingTreeChanges.length ?? 0) + (status?.indexChanges.length ?? 0) + (status?.mergeChanges.length ?? 0)}`, 'git');
+      addChanges(status);
 
-      if (changes.length > 0 && entries.length === 0) {
-        log(`No entries produced from changes. First change status: ${(changes[0] as any)?.status}`, 'git');
+      // Submodules and other nested repositories report their own changes; the parent only sees
+      // the submodule folder itself, so list nested files separately under their repository.
+      for (const nestedRoot of this.nestedRepositoryRoots) {
+        addChanges(await git.status(nestedRoot), nestedRoot);
       }
 
+      const entries = Array.from(entryMap.values());
       return {
         entries: entries.sort((a, b) => a.fileName.localeCompare(b.fileName)),
         repositoryAvailable: true
       };
     } catch (error) {
-      log(`Error accessing Git API: ${error}`, 'git');
+      log(`Error reading Git status: ${error}`, 'git');
       return { entries: [], repositoryAvailable: false };
     }
   }
 
-  private toFileNameAndUri(change: any): { fileName: string; resourceUri: vscode.Uri | undefined } {
-    const candidateUri: vscode.Uri | undefined = change.uri ?? change.resourceUri;
-    if (candidateUri) {
-      const candidateFsPath = candidateUri.fsPath;
-      const fileName = (candidateFsPath || candidateUri.path).split(path.sep).pop() || '';
-
-      if (candidateUri.scheme === 'file' && candidateFsPath) {
-        return { fileName, resourceUri: candidateUri };
-      }
-
-      if (candidateUri.path) {
-        const decodedPath = decodeURIComponent(candidateUri.path);
-        const normalized = decodedPath.startsWith('/') ? decodedPath.slice(1) : decodedPath;
-        return { fileName, resourceUri: vscode.Uri.file(normalized) };
-      }
-
-      return { fileName, resourceUri: undefined };
-    }
-
-    if (change.path) {
-      const rawPath: string = change.path;
-      const fileName = rawPath.split(path.sep).pop() || '';
-      const fsPath = path.isAbsolute(rawPath)
-        ? rawPath
-        : (this.cachedRepositoryRoot ? path.join(this.cachedRepositoryRoot, rawPath) : path.join(this.workspaceRoot, rawPath));
-
-      return { fileName, resourceUri: vscode.Uri.file(fsPath) };
-    }
+  /**
+   * Deepest known repository root (nested or this provider's) that contains the path.
+   */
+  private getRepositoryRootForPath(fsPath: string): string {
+    const nestedRoot = this.nestedRepositoryRoots
+      .filter(root => isSameOrInsidePath(fsPath, root))
+      .sort((a, b) => b.length - a.length)[0];
+    return nestedRoot ?? this.cachedRepositoryRoot ?? this.workspaceRoot;
+  }
 
-    return { fileName: 'Unknown file', resourceUri: undefined };
+  /**
+   * The repository that records a nested repository's pointer: its closest enclosing root.
+   */
+  private findEnclosingRepositoryRoot(nestedRoot: string): string {
+    return this.getRepositoryRootForPath(path.dirname(nestedRoot));
   }
 }
 
+function toChangeState(entry: FileEntry): FileChangeState {
+  return { kind: entry.changeKind, stageState: entry.stageState, conflicted: entry.conflicted };
+}
+
 interface FileEntry {
   fileName: string;
   resourceUri: vscode.Uri;
+  /** set for files inside a submodule or other nested repository */
+  repositoryRoot?: string;
+  /** set when the file's hunks are split across groups: the hunks shown in this group */
+  hunks?: FileHunkSelection;
+  changeKind?: ChangeKind;
+  stageState?: StageState;
+  /** unmerged after a conflicted merge, rebase or cherry-pick */
+  conflicted?: boolean;
+}
+
+/**
+ * The index of a repository as it was before a group commit staged anything.
+ */
+interface IndexSnapshot {
+  repositoryRoot: string;
+  /** `git write-tree` of the index; undefined when it couldn't be written */
+  tree?: string;
+  /** paths staged at the time, unstaged again when there is no tree */
+  stagedPaths: string[];
+}
+
+interface GroupedFiles {
+  ungrouped: FileEntry[];
+  grouped: Record<string, FileEntry[]>;
+}
+
+/**
+ * Git data behind the tree, see `getTreeGitData`.
+ */
+interface TreeGitData {
+  /** changed files, conflicted ones included */
+  entries: FileEntry[];
+  /** the model's view of the entries, with hunks for split files */
+  modelFiles: ModelFile[];
+  unpushedCommits: PendingCommitEntry[];
+  incomingCommits: PendingCommitEntry[];
+  /** assignment keys of the files the incoming commits change */
+  incomingFileKeys: Set<string>;
+  shelvedGroups: ShelvedGroup[];
 }
 
 interface PendingCommitEntry {
@@ -1411,24 +3304,76 @@ interface PendingCommitEntry {
   repositoryRoot: string;
 }
 
+interface CommitFileEntry {
+  /** name-status letter: A, M, D, R, C or T */
+  status: string;
+  path: string;
+  /** path before a rename or copy */
+  originalPath?: string;
+}
+
+const STAGE_LABELS: Record<StageState, string | undefined> = { staged: 'staged', partial: 'partially staged', unstaged: undefined };
+
 export class FileNode extends vscode.TreeItem {
+  public readonly fileUri: vscode.Uri;
+
   constructor(
     public readonly fileName: string,
-    public readonly resourceUri: vscode.Uri
+    public readonly resourceUri: vscode.Uri,
+    public readonly groupName?: string,
+    public readonly hunks?: FileHunkSelection,
+    public readonly repositoryRoot?: string,
+    placedByRule?: string,
+    changeState?: FileChangeState,
+    lineStats?: LineStats
   ) {
-    super(fileName, vscode.TreeItemCollapsibleState.None);
-    this.description = vscode.workspace.asRelativePath(resourceUri, false);
-    this.contextValue = 'file';
-    this.resourceUri = resourceUri;
+    super(fileName, hunks ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+    this.fileUri = resourceUri;
+    const relativePath = vscode.workspace.asRelativePath(resourceUri, false);
+    const stageState = changeState?.conflicted ? undefined : changeState?.stageState;
+    const stageLabel = stageState ? STAGE_LABELS[stageState] : undefined;
+    this.description = [
+      stageLabel,
+      lineStats ? formatLineStats(lineStats) : undefined,
+      hunks ? `${hunks.fingerprints.length}/${hunks.total} hunks` : undefined,
+      relativePath
+    ]
+      .filter(part => part)
+      .join(' · ');
+    if (placedByRule) {
+      this.tooltip = `${relativePath}\nPlaced by rule ${placedByRule}`;
+    }
+    // "file-staged", "file-partial" or "file-unstaged" pick the inline Stage/Unstage actions.
+    this.contextValue = changeState?.conflicted ? 'file-conflicted' : stageState ? `file-${stageState}` : 'file';
+    // The decorated URI still gets the file's icon; commands use `fileUri`.
+    this.resourceUri = changeState ? toDecoratedUri(resourceUri, changeState) : resourceUri;
     this.command = {
       command: 'git-file-groups.openFile',
       title: 'Open File',
       arguments: [resourceUri]
     };
   }
+}
 
-  get fileUri(): vscode.Uri {
-    return this.resourceUri;
+export class HunkNode extends vscode.TreeItem {
+  constructor(
+    public readonly fileUri: vscode.Uri,
+    public readonly fingerprint: string,
+    public readonly groupName: string,
+    label: string,
+    detail: string,
+    line: number
+  ) {
+    super(label, vscode.TreeItemCollapsibleState.None);
+    this.description = detail;
+    this.tooltip = `${vscode.workspace.asRelativePath(fileUri, false)}: ${label}\n${detail}`;
+    this.contextValue = 'hunk';
+    this.iconPath = new vscode.ThemeIcon('diff');
+    this.command = {
+      command: 'vscode.open',
+      title: 'Open File',
+      arguments: [fileUri, { selection: new vscode.Range(line - 1, 0, line - 1, 0), preview: true }]
+    };
   }
 }
 
@@ -1452,6 +3397,33 @@ export class GroupNode extends vscode.TreeItem {
   }
 }
 
+export class SubmoduleNode extends vscode.TreeItem {
+  constructor(
+    public readonly repositoryRoot: string,
+    public readonly groupName: string,
+    relativePath: string,
+    count?: number
+  ) {
+    super(relativePath, vscode.TreeItemCollapsibleState.Expanded);
+    this.id = `submodule:${groupName}:${repositoryRoot}`;
+    this.contextValue = 'submodule-node';
+    this.description = count !== undefined ? `(${count})` : undefined;
+    this.tooltip = `Changes inside ${repositoryRoot}`;
+    this.iconPath = new vscode.ThemeIcon('repo');
+  }
+}
+
+export class RepositoryNode extends vscode.TreeItem {
+  constructor(public readonly repositoryRoot: string, syncStatus?: string) {
+    super(path.basename(repositoryRoot) || repositoryRoot, vscode.TreeItemCollapsibleState.Expanded);
+    this.id = `repository:${repositoryRoot}`;
+    this.contextValue = 'repository-node';
+    this.description = syncStatus;
+    this.tooltip = repositoryRoot;
+    this.iconPath = new vscode.ThemeIcon('repo');
+  }
+}
+
 export class PendingCommitsNode extends vscode.TreeItem {
   constructor(public readonly count: number) {
     super('⟳ commits not yet pushed', vscode.TreeItemCollapsibleState.Expanded);
@@ -1460,17 +3432,100 @@ export class PendingCommitsNode extends vscode.TreeItem {
   }
 }
 
+/**
+ * Shown on top while a merge, rebase, cherry-pick or revert waits to be continued or aborted.
+ */
+export class OperationBannerNode extends vscode.TreeItem {
+  constructor(public readonly operation: GitOperation, conflictCount: number) {
+    super(`⚠ ${GIT_OPERATION_LABELS[operation].toLowerCase()} in progress`, vscode.TreeItemCollapsibleState.None);
+    this.contextValue = 'operation-banner';
+    this.description = conflictCount > 0
+      ? `${conflictCount} conflict${conflictCount === 1 ? '' : 's'} to resolve`
+      : 'ready to continue';
+    this.tooltip = 'Group commits are disabled until the operation is continued or aborted.';
+  }
+}
+
+export class ConflictsNode extends vscode.TreeItem {
+  constructor(public readonly count?: number) {
+    super('Conflicts', vscode.TreeItemCollapsibleState.Expanded);
+    this.contextValue = 'conflicts-node';
+    this.description = count !== undefined ? `(${count})` : undefined;
+    this.iconPath = new vscode.ThemeIcon('git-merge', new vscode.ThemeColor('gitDecoration.conflictingResourceForeground'));
+  }
+}
+
+export class ShelvedNode extends vscode.TreeItem {
+  constructor(public readonly count: number) {
+    super('⏸ shelved', vscode.TreeItemCollapsibleState.Collapsed);
+    this.contextValue = 'shelved-root';
+    this.description = `(${count})`;
+  }
+}
+
+export class ShelvedGroupItem extends vscode.TreeItem {
+  constructor(public readonly shelved: ShelvedGroup) {
+    super(shelved.group, vscode.TreeItemCollapsibleState.Collapsed);
+    this.contextValue = 'shelved-group';
+    this.description = shelved.branch ? `(${shelved.files.length}) → ${shelved.branch}` : `(${shelved.files.length})`;
+    this.tooltip = `Shelved ${shelved.created ? new Date(shelved.created).toLocaleString() : ''} as stash ${shelved.stash.slice(0, 7)}`;
+    this.iconPath = new vscode.ThemeIcon('archive');
+  }
+}
+
+export class ShelvedFileItem extends vscode.TreeItem {
+  constructor(filePath: string) {
+    super(path.basename(filePath), vscode.TreeItemCollapsibleState.None);
+    this.contextValue = 'shelved-file';
+    this.description = vscode.workspace.asRelativePath(filePath, false);
+    this.resourceUri = vscode.Uri.file(filePath);
+  }
+}
+
 export class PendingCommitItem extends vscode.TreeItem {
+  constructor(public readonly commit: PendingCommitEntry, isHead: boolean = false) {
+    super(commit.message, vscode.TreeItemCollapsibleState.Collapsed);
+    // Only HEAD can be undone with a soft reset.
+    this.contextValue = isHead ? 'pending-commit-head' : 'pending-commit';
+    this.description = commit.shortHash;
+    this.tooltip = `${commit.shortHash} ${commit.message}`;
+    this.iconPath = new vscode.ThemeIcon('git-commit');
+  }
+}
+
+export class IncomingCommitsNode extends vscode.TreeItem {
+  constructor(public readonly count: number) {
+    super('⤓ incoming commits', vscode.TreeItemCollapsibleState.Collapsed);
+    this.contextValue = 'incoming-commits-root';
+    this.description = `(${count})`;
+  }
+}
+
+export class IncomingCommitItem extends vscode.TreeItem {
   constructor(public readonly commit: PendingCommitEntry) {
-    super(commit.message, vscode.TreeItemCollapsibleState.None);
-    this.contextValue = 'pending-commit';
+    super(commit.message, vscode.TreeItemCollapsibleState.Collapsed);
+    this.contextValue = 'incoming-commit';
     this.description = commit.shortHash;
     this.tooltip = `${commit.shortHash} ${commit.message}`;
     this.iconPath = new vscode.ThemeIcon('git-commit');
+  }
+}
+
+export class CommitFileItem extends vscode.TreeItem {
+  constructor(public readonly commitItem: PendingCommitItem | IncomingCommitItem, public readonly file: CommitFileEntry) {
+    super(path.basename(file.path), vscode.TreeItemCollapsibleState.None);
+    const relativePath = vscode.workspace.asRelativePath(file.path, false);
+    // Only unpushed commits can be rewritten.
+    this.contextValue = commitItem instanceof PendingCommitItem ? 'commit-file' : 'incoming-commit-file';
+    this.description = file.originalPath
+      ? `${file.status} · ${vscode.workspace.asRelativePath(file.originalPath, false)} → ${relativePath}`
+      : `${file.status} · ${relativePath}`;
+    this.tooltip = `${relativePath} (${file.status}) in ${commitItem.commit.shortHash}`;
+    this.resourceUri = vscode.Uri.file(file.path);
     this.command = {
-      command: 'git.viewCommit',
-      title: 'View Commit',
-      arguments: [vscode.Uri.file(commit.repositoryRoot), commit.hash]
+      command: 'git-file-groups.openCommitFileDiff',
+      title: 'Open Changes',
+      arguments: [this]
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,223 @@
+import { strict as assert } from 'assert';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { parseAssignmentRules } from './assignmentRules';
+import { FileHunkSelection, GroupModel, ModelFile, UNGROUPED, normalizeAssignmentKey, normalizeStoredGroupName } from './GroupModel';
+
+const root = path.resolve('/repo');
+
+function file(relativePath: string, extra?: Partial<ModelFile>): ModelFile {
+  return { key: normalizeAssignmentKey(path.join(root, relativePath)), relativePath, ...extra };
+}
+
+function loadModel(groups: string[], assignments: Record<string, string> = {}, defaultGroup: unknown = UNGROUPED): GroupModel {
+  const model = new GroupModel();
+  model.load({ groups, assignments }, defaultGroup);
+  return model;
+}
+
+describe('normalizeStoredGroupName', () => {
+  it('maps the legacy default group to uncategorized', () => {
+    assert.equal(normalizeStoredGroupName('default'), UNGROUPED);
+    assert.equal(normalizeStoredGroupName('  default '), UNGROUPED);
+  });
+
+  it('trims names and rejects empty or non-string values', () => {
+    assert.equal(normalizeStoredGroupName(' Docs '), 'Docs');
+    assert.equal(normalizeStoredGroupName('   '), undefined);
+    assert.equal(normalizeStoredGroupName(42), undefined);
+    assert.equal(normalizeStoredGroupName(undefined), undefined);
+  });
+});
+
+describe('normalizeAssignmentKey', () => {
+  it('lower-cases keys on Windows and macOS only', () => {
+    const fsPath = path.join(root, 'Src', 'App.ts');
+    assert.equal(normalizeAssignmentKey(fsPath, 'win32'), path.normalize(fsPath).toLowerCase());
+    assert.equal(normalizeAssignmentKey(fsPath, 'darwin'), path.normalize(fsPath).toLowerCase());
+    assert.equal(normalizeAssignmentKey(fsPath, 'linux'), path.normalize(fsPath));
+  });
+});
+
+describe('GroupModel.load', () => {
+  it('normalizes legacy names and drops assignments to unknown groups', () => {
+    const model = new GroupModel();
+    const diff = model.load({
+      groups: ['Feature', UNGROUPED],
+      assignments: {
+        [file('a.ts').key]: 'Feature',
+        [file('b.ts').key]: 'default',
+        [file('c.ts').key]: 'Gone'
+      },
+      hunkAssignments: {
+        [file('a.ts').key]: { h1: 'Gone', h2: 'default' }
+      }
+    }, 'Feature');
+
+    assert.deepEqual(diff, { data: true, defaultGroup: false });
+    assert.deepEqual(model.getGroups(), ['Feature']);
+    assert.equal(model.getDefaultGroup(), 'Feature');
+    assert.deepEqual(model.toData().assignments, {
+      [file('a.ts').key]: 'Feature',
+      [file('b.ts').key]: UNGROUPED
+    });
+    assert.deepEqual(model.toData().hunkAssignments, { [file('a.ts').key]: { h2: UNGROUPED } });
+  });
+
+  it('leaves clean data alone', () => {
+    const model = new GroupModel();
+    const diff = model.load({ groups: ['Feature'], assignments: { [file('a.ts').key]: 'Feature' } }, 'Feature');
+    assert.deepEqual(diff, { data: false, defaultGroup: false });
+  });
+
+  it('falls back to uncategorized for a missing or unknown default group', () => {
+    const missing = new GroupModel();
+    assert.equal(missing.load({ groups: ['Feature'], assignments: {} }, undefined).defaultGroup, true);
+    assert.equal(missing.getDefaultGroup(), UNGROUPED);
+
+    const unknown = new GroupModel();
+    assert.equal(unknown.load({ groups: ['Feature'], assignments: {} }, 'Gone').defaultGroup, true);
+    assert.equal(unknown.getDefaultGroup(), UNGROUPED);
+
+    const legacy = new GroupModel();
+    assert.equal(legacy.load({ groups: [], assignments: {} }, 'default').defaultGroup, true);
+    assert.equal(legacy.getDefaultGroup(), UNGROUPED);
+  });
+});
+
+describe('GroupModel.syncWithChangedFiles', () => {
+  it('classifies nothing on the first sync, then puts new files into the default group', () => {
+    const model = loadModel(['Feature'], {}, 'Feature');
+    assert.deepEqual(model.syncWithChangedFiles([file('old.ts')]), { removed: 0, assigned: 0 });
+    assert.equal(model.getAssignedGroup(file('old.ts').key), UNGROUPED);
+
+    assert.deepEqual(model.syncWithChangedFiles([file('old.ts'), file('new.ts')]), { removed: 0, assigned: 1 });
+    assert.equal(model.getAssignedGroup(file('new.ts').key), 'Feature');
+    assert.equal(model.getAssignedGroup(file('old.ts').key), UNGROUPED);
+  });
+
+  it('prunes assignments of files that no longer have changes', () => {
+    const model = loadModel(['Feature'], { [file('a.ts').key]: 'Feature', [file('b.ts').key]: 'Feature' });
+    model.moveHunks(file('b.ts').key, ['h1'], UNGROUPED);
+
+    assert.deepEqual(model.syncWithChangedFiles([file('a.ts')]), { removed: 2, assigned: 0 });
+    assert.deepEqual(model.toData().assignments, { [file('a.ts').key]: 'Feature' });
+    assert.deepEqual(model.toData().hunkAssignments, {});
+  });
+
+  it('places new files by the first matching rule and creates its group', () => {
+    const model = loadModel([], {}, UNGROUPED);
+    model.setRules(parseAssignmentRules([{ pattern: 'docs/**', group: 'Docs' }]));
+    model.syncWithChangedFiles([]);
+
+    assert.deepEqual(model.syncWithChangedFiles([file('docs/guide.md'), file('src/app.ts')]), { removed: 0, assigned: 1 });
+    assert.deepEqual(model.getGroups(), ['Docs']);
+    assert.equal(model.getAssignedGroup(file('docs/guide.md').key), 'Docs');
+    assert.equal(model.getAssignedGroup(file('src/app.ts').key), UNGROUPED);
+    assert.equal(model.getPlacingRuleDescription(file('docs/guide.md').key, 'Docs'), '"docs/**" → Docs');
+  });
+
+  it('folds a split file back once its hunks have a single owner', () => {
+    const model = loadModel(['Feature'], { [file('a.ts').key]: 'Feature' });
+    model.moveHunks(file('a.ts').key, ['h2'], UNGROUPED, ['h1', 'h2']);
+    assert.equal(model.isSplit(file('a.ts').key), true);
+
+    // h1 was committed; only the uncategorized hunk is left.
+    model.syncWithChangedFiles([file('a.ts', { hunks: ['h2'] })]);
+    assert.equal(model.isSplit(file('a.ts').key), false);
+    assert.equal(model.getAssignedGroup(file('a.ts').key), UNGROUPED);
+  });
+});
+
+describe('GroupModel.assignEditedFiles', () => {
+  it('does nothing without a default group or rules', () => {
+    const model = loadModel(['Feature']);
+    assert.equal(model.assignEditedFiles([file('a.ts')]), 0);
+  });
+
+  it('keeps explicit assignments, including uncategorized ones', () => {
+    const model = loadModel(['Feature', 'Other'], { [file('a.ts').key]: 'Other', [file('b.ts').key]: UNGROUPED }, 'Feature');
+    assert.equal(model.assignEditedFiles([file('a.ts'), file('b.ts'), file('c.ts')]), 1);
+    assert.equal(model.getAssignedGroup(file('a.ts').key), 'Other');
+    assert.equal(model.getAssignedGroup(file('b.ts').key), UNGROUPED);
+    assert.equal(model.getAssignedGroup(file('c.ts').key), 'Feature');
+  });
+});
+
+describe('GroupModel.reapplyRules', () => {
+  it('moves only uncategorized files', () => {
+    const model = loadModel(['Feature'], { [file('docs/a.md').key]: 'Feature' });
+    model.setRules(parseAssignmentRules([{ pattern: '*.md', group: 'Docs' }]));
+    assert.equal(model.reapplyRules([file('docs/a.md'), file('docs/b.md'), file('src/c.ts')]), 1);
+    assert.equal(model.getAssignedGroup(file('docs/a.md').key), 'Feature');
+    assert.equal(model.getAssignedGroup(file('docs/b.md').key), 'Docs');
+  });
+});
+
+describe('GroupModel group changes', () => {
+  it('migrates assignments, hunks and the default group on rename', () => {
+    const model = loadModel(['Old', 'Other'], { [file('a.ts').key]: 'Old', [file('b.ts').key]: 'Other' }, 'Old');
+    model.moveHunks(file('b.ts').key, ['h1'], 'Old');
+
+    assert.deepEqual(model.renameGroup('Old', 'New'), { data: true, defaultGroup: true });
+    assert.deepEqual(model.getGroups(), ['New', 'Other']);
+    assert.equal(model.getDefaultGroup(), 'New');
+    assert.equal(model.getAssignedGroup(file('a.ts').key), 'New');
+    assert.equal(model.getHunkGroup(file('b.ts').key, 'h1'), 'New');
+  });
+
+  it('refuses to rename uncategorized or unknown groups', () => {
+    const model = loadModel(['Feature']);
+    assert.equal(model.renameGroup(UNGROUPED, 'Feature 2'), undefined);
+    assert.equal(model.renameGroup('Feature', UNGROUPED), undefined);
+    assert.equal(model.renameGroup('Gone', 'New'), undefined);
+  });
+
+  it('moves files of a deleted group to an explicit uncategorized assignment', () => {
+    const model = loadModel(['Feature'], { [file('a.ts').key]: 'Feature' }, 'Feature');
+    assert.deepEqual(model.deleteGroup('Feature'), { data: true, defaultGroup: true });
+    assert.equal(model.getDefaultGroup(), UNGROUPED);
+    assert.deepEqual(model.toData().assignments, { [file('a.ts').key]: UNGROUPED });
+    assert.equal(model.deleteGroup('Feature'), undefined);
+  });
+
+  it('carries assignments over to a renamed file', () => {
+    const model = loadModel(['Feature'], { [file('a.ts').key]: 'Feature' });
+    model.moveHunks(file('a.ts').key, ['h1'], UNGROUPED);
+
+    assert.equal(model.renameFile(file('a.ts').key, file('b.ts').key), true);
+    assert.equal(model.getAssignedGroup(file('a.ts').key), UNGROUPED);
+    assert.equal(model.getAssignedGroup(file('b.ts').key), 'Feature');
+    assert.equal(model.isSplit(file('b.ts').key), true);
+    assert.equal(model.renameFile(file('c.ts').key, file('d.ts').key), false);
+  });
+
+  it('re-creates the group of restored files without undoing splits', () => {
+    const model = loadModel(['Other'], { [file('b.ts').key]: 'Other' });
+    model.moveHunks(file('b.ts').key, ['h1'], UNGROUPED);
+
+    model.restoreFiles('Feature', [file('a.ts').key, file('b.ts').key]);
+    assert.deepEqual(model.getGroups(), ['Feature', 'Other']);
+    assert.equal(model.getAssignedGroup(file('a.ts').key), 'Feature');
+    assert.equal(model.getAssignedGroup(file('b.ts').key), 'Other');
+  });
+});
+
+describe('GroupModel.groupFiles', () => {
+  it('shows a split file in every group owning one of its hunks', () => {
+    const model = loadModel(['Feature', 'Empty'], { [file('a.ts').key]: 'Feature' });
+    model.moveHunks(file('a.ts').key, ['h2'], UNGROUPED);
+    const files = [file('a.ts', { hunks: ['h1', 'h2', 'h3'] }), file('b.ts')];
+    const entries: Array<{ relativePath: string; hunks?: FileHunkSelection }> = files.map(({ relativePath }) => ({ relativePath }));
+
+    const result = model.groupFiles(entries, entry => files.find(candidate => candidate.relativePath === entry.relativePath));
+    assert.deepEqual(result.grouped, {
+      Feature: [{ relativePath: 'a.ts', hunks: { fingerprints: ['h1', 'h3'], total: 3 } }],
+      Empty: []
+    });
+    assert.deepEqual(result.ungrouped, [
+      { relativePath: 'a.ts', hunks: { fingerprints: ['h2'], total: 3 } },
+      { relativePath: 'b.ts' }
+    ]);
+  });
+});
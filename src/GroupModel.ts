@@ -0,0 +1,632 @@
+import { AssignmentRule, ChangeKind, findMatchingRule } from './assignmentRules';
+import { toPathKey } from './pathKeys';
+import { GitFileGroupsData } from './ProjectStorage';
+
+export const UNGROUPED = 'uncategorized';
+
+/**
+ * A changed file as the model sees it, built by the caller from a git snapshot.
+ */
+export interface ModelFile {
+  /** assignment key, see `normalizeAssignmentKey` */
+  key: string;
+  /** path relative to the file's repository, matched against rule patterns */
+  relativePath: string;
+  changeKind?: ChangeKind;
+  /** fingerprints of the file's current hunks; only needed for files split across groups */
+  hunks?: string[];
+}
+
+export interface FileHunkSelection {
+  fingerprints: string[];
+  total: number;
+}
+
+/**
+ * What an operation changed that has to be written back to the project config.
+ */
+export interface PersistenceDiff {
+  /** groups, assignments or hunk assignments */
+  data: boolean;
+  defaultGroup: boolean;
+}
+
+export interface SyncResult {
+  /** assignments dropped because their files no longer have changes */
+  removed: number;
+  /** newly changed files placed by a rule or into the default group */
+  assigned: number;
+}
+
+/**
+ * Group name as stored in the config, trimmed. The `default` group of older versions is
+ * uncategorized.
+ */
+export function normalizeStoredGroupName(groupName: unknown): string | undefined {
+  if (typeof groupName !== 'string') {
+    return undefined;
+  }
+
+  const trimmed = groupName.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  if (trimmed === 'default') {
+    return UNGROUPED;
+  }
+
+  return trimmed;
+}
+
+/**
+ * Key assignments are stored under: the absolute path as a `toPathKey`.
+ */
+export function normalizeAssignmentKey(fsPath: string, platform: NodeJS.Platform = process.platform): string {
+  return toPathKey(fsPath, platform);
+}
+
+/**
+ * The groups and file assignments of one group set, without any VS Code or git access. The
+ * provider feeds in the stored data and the changed files from git, and gets back the
+ * assignments, the files of each group and what needs saving.
+ */
+export class GroupModel {
+  private groups: string[] = [];
+  private assignments: Record<string, string> = {};
+  /** file key -> hunk fingerprint -> group name, for files split across groups */
+  private hunkAssignments: Record<string, Record<string, string>> = {};
+  private defaultGroup: string = UNGROUPED;
+  private rules: AssignmentRule[] = [];
+  /** rule that placed a file, kept while the file has changes */
+  private ruleMatches: Map<string, AssignmentRule> = new Map();
+  /** changed files seen so far; undefined until the first sync, which classifies nothing */
+  private knownChangedKeys: Set<string> | undefined;
+
+  constructor(private readonly platform: NodeJS.Platform = process.platform) {}
+
+  toKey(fsPath: string): string {
+    return normalizeAssignmentKey(fsPath, this.platform);
+  }
+
+  /**
+   * Replace the group set with stored data. Unknown groups are dropped and legacy names
+   * normalized; the result says whether the cleaned-up data should be saved back.
+   */
+  load(data: GitFileGroupsData, storedDefaultGroup: unknown): PersistenceDiff {
+    this.groups = (data.groups || []).filter(groupName => groupName !== UNGROUPED);
+    this.assignments = {};
+    this.hunkAssignments = {};
+
+    const diff: PersistenceDiff = { data: false, defaultGroup: false };
+    const configuredDefaultGroup = normalizeStoredGroupName(storedDefaultGroup);
+    if (configuredDefaultGroup && this.isKnownGroup(configuredDefaultGroup)) {
+      this.defaultGroup = configuredDefaultGroup;
+      diff.defaultGroup = storedDefaultGroup !== configuredDefaultGroup;
+    } else {
+      this.defaultGroup = UNGROUPED;
+      diff.defaultGroup = true;
+    }
+
+    for (const [key, rawGroupName] of Object.entries(data.assignments || {})) {
+      const groupName = normalizeStoredGroupName(rawGroupName);
+      if (groupName && this.isKnownGroup(groupName)) {
+        this.assignments[this.toKey(key)] = groupName;
+      }
+      if (groupName !== rawGroupName || !this.isKnownGroup(groupName)) {
+        diff.data = true;
+      }
+    }
+
+    for (const [key, rawHunks] of Object.entries(data.hunkAssignments || {})) {
+      const fileHunks: Record<string, string> = {};
+      for (const [fingerprint, rawGroupName] of Object.entries(rawHunks)) {
+        const groupName = normalizeStoredGroupName(rawGroupName);
+        if (groupName && this.isKnownGroup(groupName)) {
+          fileHunks[fingerprint] = groupName;
+        }
+        if (groupName !== rawGroupName || !this.isKnownGroup(groupName)) {
+          diff.data = true;
+        }
+      }
+
+      if (Object.keys(fileHunks).length > 0) {
+        this.hunkAssignments[this.toKey(key)] = fileHunks;
+      }
+    }
+
+    return diff;
+  }
+
+  toData(): GitFileGroupsData {
+    const assignments: Record<string, string> = {};
+    for (const [key, value] of Object.entries(this.assignments)) {
+      if (value) {
+        assignments[key] = value;
+      }
+    }
+
+    const hunkAssignments: Record<string, Record<string, string>> = {};
+    for (const [key, fileHunks] of Object.entries(this.hunkAssignments)) {
+      hunkAssignments[key] = { ...fileHunks };
+    }
+
+    return { groups: [...this.groups], assignments, hunkAssignments };
+  }
+
+  setRules(rules: AssignmentRule[]): void {
+    this.rules = rules;
+  }
+
+  /**
+   * Whether classifying files needs their change kinds, which only come from git status.
+   */
+  rulesNeedChangeKinds(): boolean {
+    return this.rules.some(rule => rule.kinds);
+  }
+
+  /**
+   * Named groups, sorted; uncategorized is not one of them.
+   */
+  getGroups(): string[] {
+    return [...this.groups];
+  }
+
+  getKnownGroups(): string[] {
+    return [UNGROUPED, ...this.groups];
+  }
+
+  isKnownGroup(groupName: string | undefined): boolean {
+    return groupName === UNGROUPED || (!!groupName && this.groups.includes(groupName));
+  }
+
+  getDefaultGroup(): string {
+    return this.defaultGroup;
+  }
+
+  isDefaultGroup(groupName: string): boolean {
+    return groupName === this.defaultGroup;
+  }
+
+  /**
+   * Make a known group the default one. False when the group doesn't exist.
+   */
+  setDefaultGroup(groupName: string): boolean {
+    const normalizedGroupName = normalizeStoredGroupName(groupName);
+    if (!normalizedGroupName || !this.isKnownGroup(normalizedGroupName)) {
+      return false;
+    }
+
+    this.defaultGroup = normalizedGroupName;
+    return true;
+  }
+
+  hasAssignments(): boolean {
+    return Object.keys(this.assignments).length > 0;
+  }
+
+  getAssignedGroup(key: string | undefined): string {
+    const storedGroupName = key ? normalizeStoredGroupName(this.assignments[key]) : undefined;
+    return storedGroupName && this.isKnownGroup(storedGroupName) ? storedGroupName : UNGROUPED;
+  }
+
+  /**
+   * Group owning one hunk of a file; hunks without an assignment of their own follow the file.
+   */
+  getHunkGroup(key: string, fingerprint: string, fileGroup: string = this.getAssignedGroup(key)): string {
+    const storedGroupName = normalizeStoredGroupName(this.hunkAssignments[key]?.[fingerprint]);
+    return storedGroupName && this.isKnownGroup(storedGroupName) ? storedGroupName : fileGroup;
+  }
+
+  isSplit(key: string): boolean {
+    return !!this.hunkAssignments[key];
+  }
+
+  getSplitKeys(): string[] {
+    return Object.keys(this.hunkAssignments);
+  }
+
+  /**
+   * Description of the rule that placed a file, as long as the file is still in that rule's group.
+   */
+  getPlacingRuleDescription(key: string, groupName: string): string | undefined {
+    const rule = this.ruleMatches.get(key);
+    return rule && rule.group === groupName ? rule.description : undefined;
+  }
+
+  clearRuleMatches(): void {
+    this.ruleMatches.clear();
+  }
+
+  addGroup(name: string): boolean {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === UNGROUPED || this.groups.includes(trimmed)) {
+      return false;
+    }
+
+    this.ensureGroup(trimmed);
+    return true;
+  }
+
+  /**
+   * Rename a group, moving its file and hunk assignments and the default group along.
+   * Undefined when there was nothing to rename.
+   */
+  renameGroup(oldName: string, newName: string): PersistenceDiff | undefined {
+    const trimmedOld = oldName.trim();
+    const trimmedNew = newName.trim();
+    if (!trimmedOld || !trimmedNew || trimmedOld === UNGROUPED || trimmedNew === UNGROUPED) {
+      return undefined;
+    }
+
+    const index = this.groups.indexOf(trimmedOld);
+    if (index === -1) {
+      return undefined;
+    }
+
+    this.groups[index] = trimmedNew;
+    this.groups = Array.from(new Set(this.groups)).sort((a, b) => a.localeCompare(b));
+    this.replaceGroupInAssignments(trimmedOld, trimmedNew);
+
+    const defaultGroupChanged = this.defaultGroup === trimmedOld;
+    if (defaultGroupChanged) {
+      this.defaultGroup = trimmedNew;
+    }
+
+    return { data: true, defaultGroup: defaultGroupChanged };
+  }
+
+  /**
+   * Delete a group. Its files get an explicit uncategorized assignment so auto-assignment on
+   * edit does not immediately move them into the default group. Undefined when the group
+   * doesn't exist.
+   */
+  deleteGroup(groupName: string): PersistenceDiff | undefined {
+    const trimmed = groupName.trim();
+    const index = trimmed ? this.groups.indexOf(trimmed) : -1;
+    if (index === -1) {
+      return undefined;
+    }
+
+    this.groups.splice(index, 1);
+    this.replaceGroupInAssignments(trimmed, UNGROUPED);
+
+    const defaultGroupChanged = this.defaultGroup === trimmed;
+    if (defaultGroupChanged) {
+      this.defaultGroup = UNGROUPED;
+    }
+
+    return { data: true, defaultGroup: defaultGroupChanged };
+  }
+
+  /**
+   * Assign whole files to a group, undoing any hunk split. False for an unknown group.
+   */
+  moveFiles(keys: string[], groupName: string): boolean {
+    const target = groupName.trim();
+    if (!this.isKnownGroup(target)) {
+      return false;
+    }
+
+    for (const key of keys) {
+      this.assignments[key] = target;
+      delete this.hunkAssignments[key];
+    }
+    return true;
+  }
+
+  /**
+   * Move some hunks of a file to a group, splitting the file. With the file's current hunks
+   * given, the split is pruned right away.
+   */
+  moveHunks(key: string, fingerprints: string[], groupName: string, currentHunks?: string[]): boolean {
+    const target = groupName.trim();
+    if (!this.isKnownGroup(target) || fingerprints.length === 0) {
+      return false;
+    }
+
+    // Unassigned hunks follow the file-level assignment, so make that explicit before splitting.
+    const fileGroup = this.getAssignedGroup(key);
+    if (!this.assignments[key]) {
+      this.assignments[key] = fileGroup;
+    }
+
+    const fileHunks = { ...(this.hunkAssignments[key] ?? {}) };
+    for (const fingerprint of fingerprints) {
+      if (target === fileGroup) {
+        delete fileHunks[fingerprint];
+      } else {
+        fileHunks[fingerprint] = target;
+      }
+    }
+    this.hunkAssignments[key] = fileHunks;
+
+    if (currentHunks) {
+      this.pruneHunks(key, currentHunks);
+    }
+    return true;
+  }
+
+  /**
+   * Drop hunk assignments whose hunks are no longer in the diff, and fold the file back to
+   * a whole-file assignment once all of its hunks belong to the same group.
+   */
+  pruneHunks(key: string, currentHunks: string[]): boolean {
+    const fileHunks = this.hunkAssignments[key];
+    if (!fileHunks) {
+      return false;
+    }
+
+    let changed = false;
+    const current = new Set(currentHunks);
+    for (const fingerprint of Object.keys(fileHunks)) {
+      if (!current.has(fingerprint)) {
+        delete fileHunks[fingerprint];
+        changed = true;
+      }
+    }
+
+    const fileGroup = this.getAssignedGroup(key);
+    const owners = new Set(currentHunks.map(fingerprint => this.getHunkGroup(key, fingerprint, fileGroup)));
+    if (owners.size <= 1) {
+      const [owner] = Array.from(owners);
+      if (owner) {
+        this.assignments[key] = owner;
+      }
+      delete this.hunkAssignments[key];
+      changed = true;
+    }
+
+    return changed;
+  }
+
+  /**
+   * Forget files whose changes left the working tree, e.g. after shelving or publishing them.
+   */
+  forgetFiles(keys: string[]): void {
+    for (const key of keys) {
+      delete this.assignments[key];
+      delete this.hunkAssignments[key];
+    }
+  }
+
+  /**
+   * Forget some hunks of a split file; the next prune folds the file back once only one
+   * owner is left.
+   */
+  forgetHunks(key: string, fingerprints: string[]): void {
+    for (const fingerprint of fingerprints) {
+      delete this.hunkAssignments[key]?.[fingerprint];
+    }
+  }
+
+  /**
+   * Put files that come back into the working tree (an undone commit, an unshelved group)
+   * into their group, re-creating it when needed. Files split across groups keep their split.
+   */
+  restoreFiles(groupName: string, keys: string[]): void {
+    if (groupName !== UNGROUPED) {
+      this.ensureGroup(groupName);
+    }
+
+    for (const key of keys) {
+      if (!this.hunkAssignments[key]) {
+        this.assignments[key] = groupName;
+      }
+      this.knownChangedKeys?.add(key);
+    }
+  }
+
+  /**
+   * Carry a file's assignments over to its new path. False when it had none.
+   */
+  renameFile(oldKey: string, newKey: string): boolean {
+    const assigned = this.assignments[oldKey];
+    const assignedHunks = this.hunkAssignments[oldKey];
+    if (!assigned && !assignedHunks) {
+      return false;
+    }
+
+    if (assigned) {
+      this.assignments[newKey] = assigned;
+      delete this.assignments[oldKey];
+    }
+    if (assignedHunks) {
+      this.hunkAssignments[newKey] = assignedHunks;
+      delete this.hunkAssignments[oldKey];
+    }
+    return true;
+  }
+
+  /**
+   * Bring the assignments in line with the files git currently reports as changed: drop the
+   * ones of files without changes, prune hunk splits of files whose hunks are given, and
+   * classify files that started changing since the previous sync.
+   */
+  syncWithChangedFiles(files: ModelFile[]): SyncResult {
+    const filesByKey = new Map(files.map(file => [file.key, file] as [string, ModelFile]));
+
+    let newlyDiscoveredKeys: string[] = [];
+    if (!this.knownChangedKeys) {
+      this.knownChangedKeys = new Set(filesByKey.keys());
+    } else {
+      const knownChangedKeys = this.knownChangedKeys;
+      newlyDiscoveredKeys = Array.from(filesByKey.keys()).filter(key => !knownChangedKeys.has(key));
+    }
+
+    let removed = 0;
+    for (const key of Object.keys(this.assignments)) {
+      if (!filesByKey.has(key)) {
+        delete this.assignments[key];
+        removed += 1;
+      }
+    }
+
+    for (const key of Object.keys(this.hunkAssignments)) {
+      const file = filesByKey.get(key);
+      if (!file) {
+        delete this.hunkAssignments[key];
+        removed += 1;
+      } else if (file.hunks && this.pruneHunks(key, file.hunks)) {
+        removed += 1;
+      }
+    }
+
+    let assigned = 0;
+    for (const key of newlyDiscoveredKeys) {
+      const file = filesByKey.get(key);
+      if (this.assignments[key] || !file) {
+        continue;
+      }
+
+      const groupName = this.classifyNewFile(file);
+      if (groupName) {
+        this.assignments[key] = groupName;
+        assigned += 1;
+      }
+    }
+
+    for (const key of filesByKey.keys()) {
+      this.knownChangedKeys.add(key);
+    }
+
+    for (const key of Array.from(this.knownChangedKeys)) {
+      if (!filesByKey.has(key)) {
+        this.knownChangedKeys.delete(key);
+        this.ruleMatches.delete(key);
+      }
+    }
+
+    return { removed, assigned };
+  }
+
+  /**
+   * Place files that were just created or edited by the rules or into the default group.
+   * Returns how many were assigned.
+   */
+  assignEditedFiles(files: ModelFile[]): number {
+    if (this.defaultGroup === UNGROUPED && this.rules.length === 0) {
+      return 0;
+    }
+
+    let assigned = 0;
+    for (const file of files) {
+      this.knownChangedKeys?.add(file.key);
+      if (this.assignments[file.key]) {
+        continue;
+      }
+
+      const groupName = this.classifyNewFile(file);
+      if (groupName) {
+        this.assignments[file.key] = groupName;
+        assigned += 1;
+      }
+    }
+    return assigned;
+  }
+
+  /**
+   * Run the rules again over files still in uncategorized, e.g. after editing the rules.
+   * Returns how many files were moved.
+   */
+  reapplyRules(files: ModelFile[]): number {
+    let moved = 0;
+    for (const file of files) {
+      if (this.hunkAssignments[file.key] || this.getAssignedGroup(file.key) !== UNGROUPED) {
+        continue;
+      }
+
+      const rule = findMatchingRule(this.rules, file.relativePath, file.changeKind);
+      if (!rule || rule.group === UNGROUPED) {
+        continue;
+      }
+
+      this.ensureGroup(rule.group);
+      this.assignments[file.key] = rule.group;
+      this.ruleMatches.set(file.key, rule);
+      moved += 1;
+    }
+    return moved;
+  }
+
+  /**
+   * Sort changed files into their groups. A split file shows up in every group that owns at
+   * least one of its hunks, with `hunks` set to that group's part; its current hunks must be
+   * given for that, otherwise it stays whole in its file-level group.
+   */
+  groupFiles<T extends { hunks?: FileHunkSelection }>(entries: T[], fileOf: (entry: T) => ModelFile | undefined): { ungrouped: T[]; grouped: Record<string, T[]> } {
+    const grouped: Record<string, T[]> = {};
+    const ungrouped: T[] = [];
+
+    for (const groupName of this.groups) {
+      grouped[groupName] = [];
+    }
+
+    const addEntry = (groupName: string, entry: T) => {
+      if (grouped[groupName]) {
+        grouped[groupName].push(entry);
+      } else {
+        ungrouped.push(entry);
+      }
+    };
+
+    for (const entry of entries) {
+      const file = fileOf(entry);
+      const assignedGroup = this.getAssignedGroup(file?.key);
+      if (!file || !this.hunkAssignments[file.key] || !file.hunks || file.hunks.length === 0) {
+        addEntry(assignedGroup, entry);
+        continue;
+      }
+
+      const hunksByGroup = new Map<string, string[]>();
+      for (const fingerprint of file.hunks) {
+        const hunkGroup = this.getHunkGroup(file.key, fingerprint, assignedGroup);
+        hunksByGroup.set(hunkGroup, [...(hunksByGroup.get(hunkGroup) ?? []), fingerprint]);
+      }
+
+      for (const [groupName, fingerprints] of hunksByGroup) {
+        addEntry(groupName, { ...entry, hunks: { fingerprints, total: file.hunks.length } });
+      }
+    }
+
+    return { ungrouped, grouped };
+  }
+
+  /**
+   * Group for a newly changed file: the first matching rule, otherwise the default group.
+   * Groups named by rules are created on first use.
+   */
+  private classifyNewFile(file: ModelFile): string | undefined {
+    const rule = findMatchingRule(this.rules, file.relativePath, file.changeKind);
+    if (rule) {
+      if (rule.group !== UNGROUPED) {
+        this.ensureGroup(rule.group);
+      }
+      this.ruleMatches.set(file.key, rule);
+      return rule.group;
+    }
+
+    return this.defaultGroup !== UNGROUPED ? this.defaultGroup : undefined;
+  }
+
+  private ensureGroup(groupName: string): void {
+    if (!this.groups.includes(groupName)) {
+      this.groups = [...this.groups, groupName].sort((a, b) => a.localeCompare(b));
+    }
+  }
+
+  private replaceGroupInAssignments(from: string, to: string): void {
+    for (const [key, value] of Object.entries(this.assignments)) {
+      if (value === from) {
+        this.assignments[key] = to;
+      }
+    }
+    for (const fileHunks of Object.values(this.hunkAssignments)) {
+      for (const [fingerprint, value] of Object.entries(fileHunks)) {
+        if (value === from) {
+          fileHunks[fingerprint] = to;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { parseAssignmentRules } from './assignmentRules';
+import { execGitOrThrow } from './gitCli';
+import { GroupModel } from './GroupModel';
+import { LegacyStateStore, ProjectStorage } from './ProjectStorage';
+
+describe('ProjectStorage', () => {
+  let repositoryRoot: string;
+  let configPath: string;
+
+  beforeEach(async () => {
+    repositoryRoot = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'git-file-groups-test-')));
+    configPath = path.join(repositoryRoot, '.vscode', 'git-file-groups.jsonc');
+    await execGitOrThrow(['init', '-q', repositoryRoot]);
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(repositoryRoot, { recursive: true, force: true });
+  });
+
+  it('round-trips groups and assignments with repository-relative paths', async () => {
+    const storage = new ProjectStorage(repositoryRoot);
+    const filePath = path.join(repositoryRoot, 'src', 'app.ts');
+    await storage.saveData({
+      groups: ['Feature'],
+      assignments: { [filePath]: 'Feature' },
+      hunkAssignments: { [filePath]: { h1: 'uncategorized' } }
+    });
+
+    const stored = JSON.parse(await fs.promises.readFile(configPath, 'utf8'));
+    assert.deepEqual(stored.assignments, { 'src/app.ts': 'Feature' });
+    assert.deepEqual(stored.hunk_assignments, { 'src/app.ts': { h1: 'uncategorized' } });
+
+    assert.deepEqual(await new ProjectStorage(repositoryRoot).loadData(), {
+      groups: ['Feature'],
+      assignments: { [filePath]: 'Feature' },
+      hunkAssignments: { [filePath]: { h1: 'uncategorized' } }
+    });
+  });
+
+  it('keeps comments and unrelated settings when saving', async () => {
+    await fs.promises.mkdir(path.dirname(configPath), { recursive: true });
+    await fs.promises.writeFile(configPath, '{\n  // keep me\n  "auto_sync": false,\n  "groups": []\n}\n', 'utf8');
+
+    const storage = new ProjectStorage(repositoryRoot);
+    await storage.saveData({ groups: ['Feature'], assignments: {} });
+
+    const content = await fs.promises.readFile(configPath, 'utf8');
+    assert.match(content, /\/\/ keep me/);
+    assert.equal((await storage.loadConfig()).auto_sync, false);
+    assert.deepEqual((await storage.loadData()).groups, ['Feature']);
+  });
+
+  it('keeps a separate group set per branch', async () => {
+    const storage = new ProjectStorage(repositoryRoot);
+    const filePath = path.join(repositoryRoot, 'a.ts');
+    await storage.saveData({ groups: ['Main'], assignments: { [filePath]: 'Main' } });
+
+    storage.setActiveBranch('topic');
+    assert.equal(await storage.hasBranchSet('topic'), false);
+    await storage.saveData({ groups: ['Topic'], assignments: {} });
+    await storage.saveSetValue('default_group', 'Topic');
+
+    assert.deepEqual(await storage.listBranchSets(), ['topic']);
+    assert.deepEqual((await storage.loadData()).groups, ['Topic']);
+    assert.equal(storage.selectSet(await storage.loadConfig()).default_group, 'Topic');
+    assert.deepEqual(await new ProjectStorage(repositoryRoot).loadData(), { groups: ['Main'], assignments: { [filePath]: 'Main' }, hunkAssignments: {} });
+  });
+
+  it('loads glob rules that contain comment-like sequences', async () => {
+    await fs.promises.mkdir(path.dirname(configPath), { recursive: true });
+    await fs.promises.writeFile(configPath, [
+      '{',
+      '  // placed before the default group',
+      '  "rules": [',
+      '    { "pattern": "docs/**", "group": "Docs" }, /* docs */',
+      '    { "pattern": "**/*.test.ts", "group": "Tests" },',
+      '    { "pattern": "http://example.com/*", "group": "Links" }',
+      '  ],',
+      '  "groups": ["Docs", "Tests"],',
+      '}'
+    ].join('\n'), 'utf8');
+
+    const storage = new ProjectStorage(repositoryRoot);
+    const rules = parseAssignmentRules((await storage.loadConfig()).rules);
+    assert.deepEqual(rules.map(rule => [rule.pattern, rule.group]), [
+      ['docs/**', 'Docs'],
+      ['**/*.test.ts', 'Tests'],
+      ['http://example.com/*', 'Links']
+    ]);
+    assert.deepEqual((await storage.loadData()).groups, ['Docs', 'Tests']);
+  });
+
+  it('feeds stored data through the group model and back', async () => {
+    const storage = new ProjectStorage(repositoryRoot);
+    await fs.promises.mkdir(path.dirname(configPath), { recursive: true });
+    await fs.promises.writeFile(configPath, JSON.stringify({
+      groups: ['Feature'],
+      assignments: { 'a.ts': 'default', 'b.ts': 'Feature', 'c.ts': 'Gone' },
+      default_group: 'Feature'
+    }), 'utf8');
+
+    const model = new GroupModel();
+    const diff = model.load(await storage.loadData(), storage.selectSet(await storage.loadConfig()).default_group);
+    assert.deepEqual(diff, { data: true, defaultGroup: false });
+    await storage.saveData(model.toData());
+
+    const stored = JSON.parse(await fs.promises.readFile(configPath, 'utf8'));
+    assert.deepEqual(stored.assignments, { 'a.ts': 'uncategorized', 'b.ts': 'Feature' });
+    assert.equal(stored.default_group, 'Feature');
+  });
+
+  it('round-trips shelved groups and commit records', async () => {
+    const storage = new ProjectStorage(repositoryRoot);
+    const filePath = path.join(repositoryRoot, 'docs', 'guide.md');
+    const shelved = { stash: 'abc123', group: 'Docs', files: [filePath], wasDefaultGroup: true, created: '2026-01-01T00:00:00.000Z' };
+    await storage.saveShelvedGroups([shelved]);
+    assert.deepEqual(await storage.loadShelvedGroups(), [shelved]);
+
+    const record = { group: 'Docs', files: [filePath], message: 'Update guide', created: '2026-01-01T00:00:00.000Z' };
+    await storage.saveCommitGroup('def456', record);
+    assert.deepEqual(await storage.loadCommitGroups(), { def456: record });
+
+    await storage.saveShelvedGroups([]);
+    await storage.saveCommitGroup('def456', undefined);
+    const config = await storage.loadConfig();
+    assert.equal(config.shelved, undefined);
+    assert.deepEqual(config.commit_groups, {});
+  });
+
+  it('reports a malformed config once and leaves the file untouched', async () => {
+    await fs.promises.mkdir(path.dirname(configPath), { recursive: true });
+    await fs.promises.writeFile(configPath, '{ "groups": [ }', 'utf8');
+    const reports: string[] = [];
+    const storage = new ProjectStorage(repositoryRoot, (_message, filePath) => reports.push(filePath));
+
+    assert.deepEqual(await storage.loadData(), { groups: [], assignments: {} });
+    assert.deepEqual(await storage.loadConfig(), {});
+    await assert.rejects(storage.saveConfigValue(['auto_sync'], true));
+
+    assert.deepEqual(reports, [configPath]);
+    assert.equal(await fs.promises.readFile(configPath, 'utf8'), '{ "groups": [ }');
+  });
+
+  it('migrates the old globalState data into the config file', async () => {
+    const values = new Map<string, unknown>([
+      ['git-file-groups.groups', ['Feature']],
+      ['git-file-groups.assignments', { [path.join(repositoryRoot, 'a.ts')]: 'Feature' }]
+    ]);
+    const state: LegacyStateStore = {
+      get: <T>(key: string, defaultValue: T) => (values.has(key) ? values.get(key) as T : defaultValue),
+      update: async (key: string, value: unknown) => {
+        if (value === undefined) {
+          values.delete(key);
+        } else {
+          values.set(key, value);
+        }
+      }
+    };
+
+    const storage = new ProjectStorage(repositoryRoot);
+    assert.equal(await storage.migrateFromGlobalState(state), true);
+    assert.equal(values.size, 0);
+    assert.deepEqual((await storage.loadData()).assignments, { [path.join(repositoryRoot, 'a.ts')]: 'Feature' });
+    assert.equal(await storage.migrateFromGlobalState(state), false);
+  });
+});
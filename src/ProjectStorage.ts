@@ -1,4 +1,3 @@
-import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { applyEdits, modify, parse, ParseError, printParseErrorCode } from 'jsonc-parser';
@@ -7,6 +6,40 @@ import { log } from './logging';
 export interface GitFileGroupsData {
   groups: string[];
   assignments: Record<string, string>;
+  /** file path -> hunk fingerprint -> group name, for files split across groups */
+  hunkAssignments?: Record<string, Record<string, string>>;
+}
+
+/**
+ * A group whose files were parked in a git stash, kept so it can be re-created on unshelve.
+ */
+export interface ShelvedGroup {
+  /** commit hash of the stash entry; stash@{n} indexes shift as other stashes come and go */
+  stash: string;
+  group: string;
+  files: string[];
+  wasDefaultGroup: boolean;
+  created: string;
+  /** branch the group was moved to; unshelving switches there first */
+  branch?: string;
+}
+
+/**
+ * Which group a commit was made from, so the commit can be undone back into that group.
+ */
+export interface CommitGroupRecord {
+  group: string;
+  files: string[];
+  message: string;
+  created: string;
+}
+
+/**
+ * The part of vscode.Memento the migration from the old globalState storage reads and clears.
+ */
+export interface LegacyStateStore {
+  get<T>(key: string, defaultValue: T): T;
+  update(key: string, value: unknown): PromiseLike<void>;
 }
 
 class MalformedProjectConfigError extends Error {
@@ -29,23 +62,22 @@ export class ProjectStorage {
     insertFinalNewline: true
   };
 
-  /**
-   * Very small, permissive JSONC comment stripper for allowing // and C-style block comments
-   * before parsing JSON. This is deliberately simple (regex-based) but sufficient
-   * for lightweight project config files where a full JSONC parser isn't required.
-   */
-  private stripJsonComments(content: string): string {
-    // remove /* ... */ comments
-    content = content.replace(/\/\*[\s\S]*?\*\//g, '');
-    // remove //... comments
-    content = content.replace(/(^|[^:"'])\/\/.*$/gm, (m, g1) => g1 ?? '');
-    return content;
-  }
+  private static readonly BRANCH_SETS_KEY = 'branch_sets';
+  private static readonly COMMIT_GROUPS_KEY = 'commit_groups';
+  private static readonly DRAFT_MESSAGES_KEY = 'draft_messages';
+  private static readonly GROUP_NOTES_KEY = 'group_notes';
+  /** commit records older than this many commits are dropped */
+  private static readonly MAX_COMMIT_GROUPS = 50;
 
   private storagePath: string;
   private lastMalformedConfigMessage: string | undefined;
+  private activeBranch: string | undefined;
 
-  constructor(private workspaceRoot: string) {
+  /**
+   * @param onMalformedConfig called once per distinct parse error of the config file, so the
+   * caller can point the user at it
+   */
+  constructor(private workspaceRoot: string, private readonly onMalformedConfig?: (message: string, filePath: string) => void) {
     this.storagePath = path.join(workspaceRoot, ProjectStorage.STORAGE_FILE);
   }
 
@@ -77,6 +109,46 @@ export class ProjectStorage {
     return normalized;
   }
 
+  /**
+   * Convert hunk assignments to use relative file paths for storage
+   */
+  private normalizeHunkAssignmentsForStorage(hunkAssignments: Record<string, Record<string, string>>): Record<string, Record<string, string>> {
+    const normalized: Record<string, Record<string, string>> = {};
+    for (const [absolutePath, hunks] of Object.entries(hunkAssignments)) {
+      if (Object.keys(hunks).length > 0) {
+        normalized[this.toRelativePath(absolutePath)] = { ...hunks };
+      }
+    }
+    return normalized;
+  }
+
+  /**
+   * Convert stored hunk assignments back to absolute file paths for internal use
+   */
+  private denormalizeHunkAssignmentsFromStorage(hunkAssignments: unknown): Record<string, Record<string, string>> {
+    const denormalized: Record<string, Record<string, string>> = {};
+    if (!hunkAssignments || typeof hunkAssignments !== 'object') {
+      return denormalized;
+    }
+
+    for (const [relativePath, hunks] of Object.entries(hunkAssignments as Record<string, unknown>)) {
+      if (!hunks || typeof hunks !== 'object') {
+        continue;
+      }
+
+      const fileHunks: Record<string, string> = {};
+      for (const [fingerprint, groupName] of Object.entries(hunks as Record<string, unknown>)) {
+        if (typeof groupName === 'string') {
+          fileHunks[fingerprint] = groupName;
+        }
+      }
+      if (Object.keys(fileHunks).length > 0) {
+        denormalized[this.fromRelativePath(relativePath)] = fileHunks;
+      }
+    }
+    return denormalized;
+  }
+
   /**
    * Convert stored assignments back to absolute paths for internal use
    */
@@ -96,23 +168,71 @@ export class ProjectStorage {
     }
   }
 
-  async loadData(): Promise<GitFileGroupsData> {
+  /**
+   * Select the branch whose group set (groups, assignments, hunk assignments and default group)
+   * the data methods work on. Sets live under `branch_sets.<branch>`; undefined selects the
+   * top-level set, which doubles as the fallback for a detached HEAD.
+   */
+  setActiveBranch(branch: string | undefined): void {
+    this.activeBranch = branch;
+  }
+
+  getActiveBranch(): string | undefined {
+    return this.activeBranch;
+  }
+
+  /**
+   * The part of a loaded config holding a branch's group set.
+   */
+  selectSet(config: any, branch: string | undefined = this.activeBranch): any {
+    if (!branch) {
+      return config || {};
+    }
+
+    const set = config?.[ProjectStorage.BRANCH_SETS_KEY]?.[branch];
+    return set && typeof set === 'object' ? set : {};
+  }
+
+  async hasBranchSet(branch: string | undefined): Promise<boolean> {
+    if (!branch) {
+      return true;
+    }
+
+    const config = await this.loadConfig();
+    const sets = config[ProjectStorage.BRANCH_SETS_KEY];
+    return !!sets && typeof sets === 'object' && Object.prototype.hasOwnProperty.call(sets, branch);
+  }
+
+  async listBranchSets(): Promise<string[]> {
+    const config = await this.loadConfig();
+    const sets = config[ProjectStorage.BRANCH_SETS_KEY];
+    return sets && typeof sets === 'object' ? Object.keys(sets) : [];
+  }
+
+  async saveSetValue(key: string, value: unknown, branch: string | undefined = this.activeBranch): Promise<void> {
+    await this.saveConfigValue(this.getSetPath(key, branch), value);
+  }
+
+  private getSetPath(key: string, branch: string | undefined): string[] {
+    return branch ? [ProjectStorage.BRANCH_SETS_KEY, branch, key] : [key];
+  }
+
+  async loadData(branch: string | undefined = this.activeBranch): Promise<GitFileGroupsData> {
     try {
       if (!fs.existsSync(this.storagePath)) {
         return { groups: [], assignments: {} };
       }
 
       const content = await fs.promises.readFile(this.storagePath, 'utf8');
-      this.assertValidJsonc(content);
-      const stripped = this.stripJsonComments(content);
-      const data = JSON.parse(stripped);
+      const data = this.selectSet(this.parseJsonc(content), branch);
       this.lastMalformedConfigMessage = undefined;
       
       const assignments = typeof data.assignments === 'object' ? data.assignments : {};
       
       return {
         groups: Array.isArray(data.groups) ? data.groups : [],
-        assignments: this.denormalizeAssignmentsFromStorage(assignments)
+        assignments: this.denormalizeAssignmentsFromStorage(assignments),
+        hunkAssignments: this.denormalizeHunkAssignmentsFromStorage(data.hunk_assignments)
       };
     } catch (error) {
       this.reportMalformedConfigIfNeeded(error);
@@ -121,14 +241,16 @@ export class ProjectStorage {
     }
   }
 
-  async saveData(data: GitFileGroupsData): Promise<void> {
+  async saveData(data: GitFileGroupsData, branch: string | undefined = this.activeBranch): Promise<void> {
     try {
       await this.ensureStorageDirectory();
       const normalizedAssignments = this.normalizeAssignmentsForStorage(data.assignments);
+      const normalizedHunkAssignments = this.normalizeHunkAssignmentsForStorage(data.hunkAssignments ?? {});
       const content = await this.buildUpdatedContent({
         groups: data.groups,
-        assignments: normalizedAssignments
-      });
+        assignments: normalizedAssignments,
+        ...(Object.keys(normalizedHunkAssignments).length > 0 ? { hunk_assignments: normalizedHunkAssignments } : {})
+      }, branch);
       await fs.promises.writeFile(this.storagePath, content, 'utf8');
     } catch (error) {
       log(`Error saving project data: ${error}`, 'config');
@@ -144,7 +266,7 @@ export class ProjectStorage {
         ? await fs.promises.readFile(this.storagePath, 'utf8')
         : '{}\n';
 
-      this.assertValidJsonc(existingContent);
+      this.parseJsonc(existingContent);
       this.lastMalformedConfigMessage = undefined;
 
       const updatedContent = this.applyJsoncEdit(existingContent, jsonPath, value);
@@ -156,17 +278,25 @@ export class ProjectStorage {
     }
   }
 
-  private async buildUpdatedContent(data: { groups: string[]; assignments: Record<string, string> }): Promise<string> {
-    if (!fs.existsSync(this.storagePath)) {
+  private async buildUpdatedContent(data: {
+    groups: string[];
+    assignments: Record<string, string>;
+    hunk_assignments?: Record<string, Record<string, string>>;
+  }, branch: string | undefined): Promise<string> {
+    if (!fs.existsSync(this.storagePath) && !branch) {
       return `${JSON.stringify(data, null, 2)}\n`;
     }
 
-    const existingContent = await fs.promises.readFile(this.storagePath, 'utf8');
-    this.assertValidJsonc(existingContent);
+    const existingContent = fs.existsSync(this.storagePath)
+      ? await fs.promises.readFile(this.storagePath, 'utf8')
+      : '{}\n';
+    this.parseJsonc(existingContent);
     this.lastMalformedConfigMessage = undefined;
 
-    let updatedContent = this.applyJsoncEdit(existingContent, ['groups'], data.groups);
-    updatedContent = this.applyJsoncEdit(updatedContent, ['assignments'], data.assignments);
+    let updatedContent = this.applyJsoncEdit(existingContent, this.getSetPath('groups', branch), data.groups);
+    updatedContent = this.applyJsoncEdit(updatedContent, this.getSetPath('assignments', branch), data.assignments);
+    // undefined removes the section so unsplit projects keep a clean config file
+    updatedContent = this.applyJsoncEdit(updatedContent, this.getSetPath('hunk_assignments', branch), data.hunk_assignments);
     return updatedContent;
   }
 
@@ -179,7 +309,7 @@ export class ProjectStorage {
     return applyEdits(content, edits);
   }
 
-  async migrateFromGlobalState(globalState: vscode.Memento): Promise<boolean> {
+  async migrateFromGlobalState(globalState: LegacyStateStore): Promise<boolean> {
     try {
       const legacyGroupsKey = 'git-file-groups.groups';
       const legacyAssignmentsKey = 'git-file-groups.assignments';
@@ -204,6 +334,109 @@ export class ProjectStorage {
     }
   }
 
+  async loadShelvedGroups(): Promise<ShelvedGroup[]> {
+    const config = await this.loadConfig();
+    const shelved: unknown[] = Array.isArray(config.shelved) ? config.shelved : [];
+    return shelved
+      .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+      .filter(entry => typeof entry.stash === 'string' && typeof entry.group === 'string')
+      .map(entry => ({
+        stash: entry.stash as string,
+        group: entry.group as string,
+        files: (Array.isArray(entry.files) ? entry.files : [])
+          .filter((file: unknown): file is string => typeof file === 'string')
+          .map((file: string) => this.fromRelativePath(file)),
+        wasDefaultGroup: entry.default === true,
+        created: typeof entry.created === 'string' ? entry.created : '',
+        ...(typeof entry.branch === 'string' && entry.branch ? { branch: entry.branch } : {})
+      }));
+  }
+
+  async saveShelvedGroups(shelved: ShelvedGroup[]): Promise<void> {
+    await this.saveConfigValue(['shelved'], shelved.length === 0 ? undefined : shelved.map(entry => ({
+      stash: entry.stash,
+      group: entry.group,
+      files: entry.files.map(file => this.toRelativePath(file)),
+      ...(entry.wasDefaultGroup ? { default: true } : {}),
+      created: entry.created,
+      ...(entry.branch ? { branch: entry.branch } : {})
+    })));
+  }
+
+  async loadCommitGroups(): Promise<Record<string, CommitGroupRecord>> {
+    const config = await this.loadConfig();
+    const stored = config[ProjectStorage.COMMIT_GROUPS_KEY];
+    const records: Record<string, CommitGroupRecord> = {};
+    if (!stored || typeof stored !== 'object') {
+      return records;
+    }
+
+    for (const [hash, entry] of Object.entries(stored as Record<string, any>)) {
+      if (!entry || typeof entry !== 'object' || typeof entry.group !== 'string') {
+        continue;
+      }
+
+      records[hash] = {
+        group: entry.group,
+        files: (Array.isArray(entry.files) ? entry.files : [])
+          .filter((file: unknown): file is string => typeof file === 'string')
+          .map((file: string) => this.fromRelativePath(file)),
+        message: typeof entry.message === 'string' ? entry.message : '',
+        created: typeof entry.created === 'string' ? entry.created : ''
+      };
+    }
+    return records;
+  }
+
+  async saveCommitGroup(hash: string, record: CommitGroupRecord | undefined): Promise<void> {
+    await this.saveConfigValue([ProjectStorage.COMMIT_GROUPS_KEY, hash], record && {
+      group: record.group,
+      files: record.files.map(file => this.toRelativePath(file)),
+      message: record.message,
+      created: record.created
+    });
+
+    if (!record) {
+      return;
+    }
+
+    const records = await this.loadCommitGroups();
+    const expired = Object.entries(records)
+      .sort(([, a], [, b]) => b.created.localeCompare(a.created))
+      .slice(ProjectStorage.MAX_COMMIT_GROUPS);
+    for (const [expiredHash] of expired) {
+      await this.saveConfigValue([ProjectStorage.COMMIT_GROUPS_KEY, expiredHash], undefined);
+    }
+  }
+
+  async loadDraftMessage(groupName: string): Promise<string | undefined> {
+    const config = await this.loadConfig();
+    const message = config[ProjectStorage.DRAFT_MESSAGES_KEY]?.[groupName];
+    return typeof message === 'string' && message.trim() ? message : undefined;
+  }
+
+  async saveDraftMessage(groupName: string, message: string | undefined): Promise<void> {
+    if (message === undefined && !await this.loadDraftMessage(groupName)) {
+      return;
+    }
+
+    await this.saveConfigValue([ProjectStorage.DRAFT_MESSAGES_KEY, groupName], message);
+  }
+
+  async loadGroupNotes(groupName: string): Promise<string | undefined> {
+    const config = await this.loadConfig();
+    const notes = config[ProjectStorage.GROUP_NOTES_KEY]?.[groupName];
+    return typeof notes === 'string' && notes.trim() ? notes : undefined;
+  }
+
+  async saveGroupNotes(groupName: string, notes: string | undefined): Promise<void> {
+    if (notes === undefined && !await this.loadGroupNotes(groupName)) {
+      return;
+    }
+
+    await this.saveConfigValue([ProjectStorage.GROUP_NOTES_KEY, groupName], notes);
+  }
+
   getStoragePath(): string {
     return this.storagePath;
   }
@@ -217,9 +450,7 @@ export class ProjectStorage {
         return {};
       }
       const content = await fs.promises.readFile(this.storagePath, 'utf8');
-      this.assertValidJsonc(content);
-      const stripped = this.stripJsonComments(content);
-      const data = JSON.parse(stripped);
+      const data = this.parseJsonc(content);
       this.lastMalformedConfigMessage = undefined;
       return data || {};
     } catch (error) {
@@ -229,16 +460,19 @@ export class ProjectStorage {
     }
   }
 
-  private assertValidJsonc(content: string): void {
+  /**
+   * Parse the config file as JSONC, throwing a MalformedProjectConfigError on the first error.
+   */
+  private parseJsonc(content: string): any {
     const parseErrors: ParseError[] = [];
-    parse(content, parseErrors, {
+    const data = parse(content, parseErrors, {
       allowEmptyContent: true,
       allowTrailingComma: true,
       disallowComments: false
     });
 
     if (parseErrors.length === 0) {
-      return;
+      return data;
     }
 
     const firstError = parseErrors[0];
@@ -266,17 +500,6 @@ export class ProjectStorage {
     }
 
     this.lastMalformedConfigMessage = message;
-    void vscode.window.showErrorMessage(message, 'Open File').then(async selection => {
-      if (selection !== 'Open File') {
-        return;
-      }
-
-      try {
-        const document = await vscode.workspace.openTextDocument(error.filePath);
-        await vscode.window.showTextDocument(document, { preview: false });
-      } catch (openError) {
-        log(`Failed to open malformed config file ${error.filePath}: ${openError}`, 'config');
-      }
-    });
+    this.onMalformedConfig?.(message, error.filePath);
   }
 }
@@ -0,0 +1,218 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FileNode, GitFileGroupsProvider, RepositoryNode } from './GitFileGroupsProvider';
+import { log } from './logging';
+import { toPathKey } from './pathKeys';
+
+/**
+ * Tree data provider registered with the view. It fans out to one GitFileGroupsProvider per
+ * repository: a single repository renders its groups at the root exactly as before, several
+ * repositories each get a top-level RepositoryNode.
+ */
+export class WorkspaceTreeDataProvider implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.Disposable {
+  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<vscode.TreeItem | undefined>();
+  readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+  private readonly delegates = new Map<string, { provider: GitFileGroupsProvider; subscription: vscode.Disposable }>();
+  private treeView: vscode.TreeView<vscode.TreeItem> | undefined;
+
+  /**
+   * Providers are keyed by their root as a `toPathKey`, so repositories differing only in case
+   * stay apart where the filesystem is case-sensitive.
+   */
+  static toProviderKey(fsPath: string, platform: NodeJS.Platform = process.platform): string {
+    return toPathKey(fsPath, platform);
+  }
+
+  setTreeView(treeView: vscode.TreeView<vscode.TreeItem>): void {
+    this.treeView = treeView;
+    this.updateTreeViewBindings();
+  }
+
+  attach(provider: GitFileGroupsProvider): void {
+    const key = WorkspaceTreeDataProvider.toProviderKey(provider.getWorkspaceRoot());
+    if (this.delegates.has(key)) {
+      return;
+    }
+
+    const subscription = provider.onDidChangeTreeData((item) => {
+      // Root-level refreshes of one repository re-render its repository node only.
+      if (item === undefined && this.delegates.size > 1) {
+        this.onDidChangeTreeDataEmitter.fire(this.getRepositoryNode(provider));
+        return;
+      }
+      this.onDidChangeTreeDataEmitter.fire(item);
+    });
+    this.delegates.set(key, { provider, subscription });
+    log(`Attached repository ${provider.getWorkspaceRoot()} (${this.delegates.size} total)`, 'lifecycle');
+    this.updateTreeViewBindings();
+    this.onDidChangeTreeDataEmitter.fire(undefined);
+  }
+
+  detach(provider: GitFileGroupsProvider): void {
+    const key = WorkspaceTreeDataProvider.toProviderKey(provider.getWorkspaceRoot());
+    const delegate = this.delegates.get(key);
+    if (!delegate || delegate.provider !== provider) {
+      return;
+    }
+
+    delegate.subscription.dispose();
+    this.delegates.delete(key);
+    log(`Detached repository ${provider.getWorkspaceRoot()} (${this.delegates.size} remaining)`, 'lifecycle');
+    this.updateTreeViewBindings();
+    this.onDidChangeTreeDataEmitter.fire(undefined);
+  }
+
+  getProviders(): GitFileGroupsProvider[] {
+    return Array.from(this.delegates.values()).map(delegate => delegate.provider);
+  }
+
+  getProvider(workspaceRoot: string): GitFileGroupsProvider | undefined {
+    return this.delegates.get(WorkspaceTreeDataProvider.toProviderKey(workspaceRoot))?.provider;
+  }
+
+  /**
+   * Resolve the provider that produced a tree item, falling back to the item's file path.
+   */
+  getProviderForItem(item: vscode.TreeItem | vscode.Uri | undefined): GitFileGroupsProvider | undefined {
+    if (!item) {
+      return undefined;
+    }
+
+    if (item instanceof vscode.Uri) {
+      return this.getProviderForUri(item);
+    }
+
+    if (item instanceof RepositoryNode) {
+      return this.getProvider(item.repositoryRoot);
+    }
+
+    const owner = this.getProviders().find(provider => provider.ownsTreeItem(item));
+    if (owner) {
+      return owner;
+    }
+
+    const fileUri = item instanceof FileNode ? item.fileUri : item.resourceUri;
+    return fileUri ? this.getProviderForUri(fileUri) : undefined;
+  }
+
+  /**
+   * The provider with the deepest root containing the file, so nested repositories win.
+   */
+  getProviderForUri(uri: vscode.Uri): GitFileGroupsProvider | undefined {
+    if (uri.scheme !== 'file') {
+      return undefined;
+    }
+
+    const filePath = WorkspaceTreeDataProvider.toProviderKey(uri.fsPath);
+    let best: GitFileGroupsProvider | undefined;
+    let bestLength = -1;
+    for (const [key, delegate] of this.delegates) {
+      if ((filePath === key || filePath.startsWith(`${key}${path.sep}`)) && key.length > bestLength) {
+        best = delegate.provider;
+        bestLength = key.length;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Pick the provider a command without a tree item should act on, asking when ambiguous.
+   */
+  async pickProvider(title: string): Promise<GitFileGroupsProvider | undefined> {
+    const providers = this.getProviders();
+    if (providers.length <= 1) {
+      return providers[0];
+    }
+
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const activeProvider = activeUri ? this.getProviderForUri(activeUri) : undefined;
+    const picked = await vscode.window.showQuickPick(
+      providers.map(provider => ({
+        label: path.basename(provider.getWorkspaceRoot()) || provider.getWorkspaceRoot(),
+        description: provider === activeProvider ? 'active editor' : undefined,
+        detail: provider.getWorkspaceRoot(),
+        provider
+      })).sort((a, b) => (a.provider === activeProvider ? -1 : b.provider === activeProvider ? 1 : a.label.localeCompare(b.label))),
+      { title, placeHolder: 'Select a repository' }
+    );
+
+    return picked?.provider;
+  }
+
+  getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getParent(element: vscode.TreeItem): vscode.ProviderResult<vscode.TreeItem> {
+    if (element instanceof RepositoryNode) {
+      return undefined;
+    }
+
+    const provider = this.getProviderForItem(element);
+    if (!provider) {
+      return undefined;
+    }
+
+    const parent = provider.getParent(element);
+    if (parent || this.delegates.size <= 1) {
+      return parent;
+    }
+
+    return this.getRepositoryNode(provider);
+  }
+
+  async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+    const providers = this.getProviders();
+    if (element instanceof RepositoryNode) {
+      const provider = this.getProvider(element.repositoryRoot);
+      return provider ? provider.getChildren(undefined) : [];
+    }
+
+    if (element) {
+      const provider = this.getProviderForItem(element);
+      return provider ? provider.getChildren(element) : [];
+    }
+
+    if (providers.length === 0) {
+      return [];
+    }
+
+    if (providers.length === 1) {
+      return providers[0].getChildren(undefined);
+    }
+
+    return providers
+      .map(provider => this.getRepositoryNode(provider))
+      .sort((a, b) => String(a.label).localeCompare(String(b.label)));
+  }
+
+  private getRepositoryNode(provider: GitFileGroupsProvider): RepositoryNode {
+    return new RepositoryNode(provider.getWorkspaceRoot(), provider.getSyncStatusDescription());
+  }
+
+  private updateTreeViewBindings(): void {
+    if (!this.treeView) {
+      return;
+    }
+
+    const providers = this.getProviders();
+    const single = providers.length === 1;
+    for (const provider of providers) {
+      provider.setTreeView(this.treeView, single);
+    }
+
+    if (!single) {
+      this.treeView.description = undefined;
+    }
+    this.treeView.message = providers.length === 0 ? 'Initializing...' : undefined;
+  }
+
+  dispose(): void {
+    for (const delegate of this.delegates.values()) {
+      delegate.subscription.dispose();
+    }
+    this.delegates.clear();
+    this.onDidChangeTreeDataEmitter.dispose();
+  }
+}
@@ -0,0 +1,101 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { changeKindFromGitStatus, findMatchingRule, globToRegExp, parseAssignmentRules } from './assignmentRules';
+
+describe('globToRegExp', () => {
+  it('matches a pattern without a slash in any folder', () => {
+    const matcher = globToRegExp('*.md');
+    assert.equal(matcher.test('README.md'), true);
+    assert.equal(matcher.test('docs/guide/intro.md'), true);
+    assert.equal(matcher.test('README.mdx'), false);
+  });
+
+  it('anchors patterns with a slash at the repository root', () => {
+    assert.equal(globToRegExp('src/*.ts').test('src/app.ts'), true);
+    assert.equal(globToRegExp('src/*.ts').test('lib/src/app.ts'), false);
+    assert.equal(globToRegExp('src/*.ts').test('src/nested/app.ts'), false);
+    assert.equal(globToRegExp('/Makefile').test('Makefile'), true);
+    assert.equal(globToRegExp('/Makefile').test('tools/Makefile'), false);
+  });
+
+  it('lets ** span zero or more folders', () => {
+    assert.equal(globToRegExp('docs/**').test('docs/a/b.md'), true);
+    assert.equal(globToRegExp('docs/**').test('documents/a.md'), false);
+    assert.equal(globToRegExp('**/*.test.ts').test('app.test.ts'), true);
+    assert.equal(globToRegExp('**/*.test.ts').test('src/deep/app.test.ts'), true);
+    assert.equal(globToRegExp('src/**/index.ts').test('src/index.ts'), true);
+  });
+
+  it('supports ?, character classes and braces, and escapes the rest', () => {
+    assert.equal(globToRegExp('file?.txt').test('file1.txt'), true);
+    assert.equal(globToRegExp('file?.txt').test('file10.txt'), false);
+    assert.equal(globToRegExp('v[0-9].md').test('v2.md'), true);
+    assert.equal(globToRegExp('v[!0-9].md').test('v2.md'), false);
+    assert.equal(globToRegExp('*.{ts,tsx}').test('view.tsx'), true);
+    assert.equal(globToRegExp('*.{ts,tsx}').test('view.js'), false);
+    assert.equal(globToRegExp('a+b(1).txt').test('a+b(1).txt'), true);
+    assert.equal(globToRegExp('a.txt').test('abtxt'), false);
+  });
+});
+
+describe('findMatchingRule', () => {
+  const rules = parseAssignmentRules([
+    { pattern: 'docs/**', group: 'Docs' },
+    { pattern: '**/*.test.ts', kind: ['untracked', 'added'], group: 'New Tests' },
+    { pattern: '**/*.test.ts', group: 'Tests' },
+    { kind: 'deleted', group: 'Cleanup' }
+  ]);
+
+  it('returns the first matching rule in config order', () => {
+    assert.equal(findMatchingRule(rules, 'docs/guide.md', 'modified')?.group, 'Docs');
+    assert.equal(findMatchingRule(rules, 'src/app.test.ts', 'untracked')?.group, 'New Tests');
+    assert.equal(findMatchingRule(rules, 'src/app.test.ts', 'modified')?.group, 'Tests');
+    assert.equal(findMatchingRule(rules, 'src/app.ts', 'deleted')?.group, 'Cleanup');
+    assert.equal(findMatchingRule(rules, 'src/app.ts', 'modified'), undefined);
+  });
+
+  it('skips kind rules when the change kind is unknown', () => {
+    assert.equal(findMatchingRule(rules, 'src/app.test.ts', undefined)?.group, 'Tests');
+    assert.equal(findMatchingRule(rules, 'src/app.ts', undefined), undefined);
+  });
+
+  it('accepts Windows separators', () => {
+    assert.equal(findMatchingRule(rules, 'docs\\guide.md', 'modified')?.group, 'Docs');
+  });
+});
+
+describe('parseAssignmentRules', () => {
+  it('reports and skips invalid entries', () => {
+    const reasons: string[] = [];
+    const rules = parseAssignmentRules([
+      'docs/**',
+      { pattern: 'docs/**' },
+      { group: 'Docs' },
+      { kind: 'copied', group: 'Docs' },
+      { pattern: ' docs/** ', group: ' Docs ' }
+    ], (_entry, reason) => reasons.push(reason));
+
+    assert.equal(reasons.length, 4);
+    assert.deepEqual(rules.map(rule => [rule.pattern, rule.group, rule.description]), [['docs/**', 'Docs', '"docs/**" → Docs']]);
+  });
+});
+
+describe('changeKindFromGitStatus', () => {
+  it('maps vscode.git status values to change kinds', () => {
+    assert.equal(changeKindFromGitStatus(7), 'untracked');
+    assert.equal(changeKindFromGitStatus(1), 'added');
+    assert.equal(changeKindFromGitStatus(4), 'added');
+    assert.equal(changeKindFromGitStatus(9), 'added');
+    assert.equal(changeKindFromGitStatus(2), 'deleted');
+    assert.equal(changeKindFromGitStatus(6), 'deleted');
+    assert.equal(changeKindFromGitStatus(3), 'renamed');
+    assert.equal(changeKindFromGitStatus(0), 'modified');
+    assert.equal(changeKindFromGitStatus(5), 'modified');
+    assert.equal(changeKindFromGitStatus(11), 'modified');
+  });
+
+  it('leaves other statuses, like conflicts and ignored files, without a kind', () => {
+    assert.equal(changeKindFromGitStatus(16), undefined);
+    assert.equal(changeKindFromGitStatus('modified'), undefined);
+  });
+});
@@ -0,0 +1,165 @@
+import { isCaseInsensitivePlatform } from './pathKeys';
+
+export type ChangeKind = 'untracked' | 'added' | 'modified' | 'deleted' | 'renamed';
+
+const CHANGE_KINDS: ChangeKind[] = ['untracked', 'added', 'modified', 'deleted', 'renamed'];
+
+export interface AssignmentRule {
+  /** glob matched against the repository-relative path; absent means any file */
+  pattern?: string;
+  /** change kinds the rule applies to; absent means any kind */
+  kinds?: ChangeKind[];
+  group: string;
+  /** human-readable form used in tooltips and logs */
+  description: string;
+  matcher?: RegExp;
+}
+
+/**
+ * Parse the `rules` section of the project config. Each rule is an object with a `group`
+ * and at least one of `pattern` (glob) and `kind` (a change kind or a list of them):
+ *
+ *   { "pattern": "docs/**", "group": "Docs" }
+ *   { "pattern": "**\/*.test.ts", "kind": ["untracked", "modified"], "group": "Tests" }
+ *
+ * Invalid entries are skipped and reported through `onInvalid`.
+ */
+export function parseAssignmentRules(raw: unknown, onInvalid?: (entry: unknown, reason: string) => void): AssignmentRule[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const rules: AssignmentRule[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') {
+      onInvalid?.(entry, 'rule must be an object');
+      continue;
+    }
+
+    const { pattern, kind, group } = entry as Record<string, unknown>;
+    if (typeof group !== 'string' || !group.trim()) {
+      onInvalid?.(entry, 'rule needs a "group"');
+      continue;
+    }
+
+    const rawKinds = kind === undefined ? [] : Array.isArray(kind) ? kind : [kind];
+    const kinds = rawKinds.filter((value): value is ChangeKind => CHANGE_KINDS.includes(value as ChangeKind));
+    if (kinds.length !== rawKinds.length) {
+      onInvalid?.(entry, `"kind" must be one of ${CHANGE_KINDS.join(', ')}`);
+      continue;
+    }
+
+    const hasPattern = typeof pattern === 'string' && pattern.trim().length > 0;
+    if (!hasPattern && kinds.length === 0) {
+      onInvalid?.(entry, 'rule needs a "pattern" or a "kind"');
+      continue;
+    }
+
+    const conditions = [
+      ...(hasPattern ? [`"${(pattern as string).trim()}"`] : []),
+      ...(kinds.length > 0 ? [kinds.join('/')] : [])
+    ];
+    rules.push({
+      ...(hasPattern ? { pattern: (pattern as string).trim(), matcher: globToRegExp((pattern as string).trim()) } : {}),
+      ...(kinds.length > 0 ? { kinds } : {}),
+      group: group.trim(),
+      description: `${conditions.join(' ')} → ${group.trim()}`
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * First rule matching the file, in config order. Rules with a kind condition never match
+ * when the change kind is unknown.
+ */
+export function findMatchingRule(rules: AssignmentRule[], relativePath: string, kind: ChangeKind | undefined): AssignmentRule | undefined {
+  const normalizedPath = relativePath.split('\\').join('/');
+  return rules.find(rule => {
+    if (rule.kinds && (!kind || !rule.kinds.includes(kind))) {
+      return false;
+    }
+
+    return !rule.matcher || rule.matcher.test(normalizedPath);
+  });
+}
+
+/**
+ * Translate a glob into a regular expression. Supports `**`, `*`, `?`, `[...]` and `{a,b}`;
+ * a pattern without a slash matches the file name in any folder, like .gitignore.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.startsWith('/') ? glob.slice(1) : (glob.includes('/') ? glob : `**/${glob}`);
+  let source = '';
+  let braceDepth = 0;
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (char === '*') {
+      if (pattern[index + 1] === '*') {
+        const atSegmentStart = index === 0 || pattern[index - 1] === '/';
+        const atSegmentEnd = index + 2 === pattern.length || pattern[index + 2] === '/';
+        if (atSegmentStart && atSegmentEnd) {
+          // "**/" matches zero or more folders, a trailing "**" anything below.
+          source += index + 2 === pattern.length ? '.*' : '(?:.*/)?';
+          index += 2;
+          continue;
+        }
+      }
+      source += '[^/]*';
+      while (pattern[index + 1] === '*') {
+        index++;
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', index + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = pattern.slice(index + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        index = end;
+      }
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`, isCaseInsensitivePlatform() ? 'i' : '');
+}
+
+/**
+ * Change kind for a vscode.git Status value.
+ */
+export function changeKindFromGitStatus(status: unknown): ChangeKind | undefined {
+  switch (status) {
+    case 7: // UNTRACKED
+      return 'untracked';
+    case 1: // INDEX_ADDED
+    case 4: // INDEX_COPIED, like the CLI's C
+    case 9: // INTENT_TO_ADD
+      return 'added';
+    case 2: // INDEX_DELETED
+    case 6: // DELETED
+      return 'deleted';
+    case 3: // INDEX_RENAMED
+    case 10: // INTENT_TO_RENAME
+      return 'renamed';
+    case 0: // INDEX_MODIFIED
+    case 5: // MODIFIED
+    case 11: // TYPE_CHANGED
+      return 'modified';
+    default:
+      return undefined;
+  }
+}
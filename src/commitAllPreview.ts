@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { cleanupMessage, closeDocument, isDocumentOpen } from './commitMessageEditor';
+import { log } from './logging';
+
+export interface BatchCommitGroup {
+  group: string;
+  message: string;
+  /** repository-relative paths */
+  files: string[];
+}
+
+export interface BatchCommitPlan {
+  /** groups in commit order with their final messages */
+  entries: Array<{ group: string; message: string }>;
+  syncToRemote: boolean;
+}
+
+const SECTION_PREFIX = '>>> group: ';
+
+export function buildBatchCommitDocument(groups: BatchCommitGroup[]): string {
+  const lines = [
+    '# Commit All Groups',
+    '# Every section below becomes one commit, from top to bottom. Edit the messages, move',
+    `# sections to change the order, or delete a section to leave that group out. Keep the`,
+    `# "${SECTION_PREFIX}..." lines as they are. Save to commit, close without saving to cancel.`,
+    ''
+  ];
+  for (const group of groups) {
+    lines.push(`${SECTION_PREFIX}${group.group}`, group.message, '', ...group.files.map(file => `#   ${file}`), '');
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Read the edited preview back: sections in document order, each with its cleaned-up
+ * message. Unknown or repeated groups and empty messages are reported as an error.
+ */
+export function parseBatchCommitDocument(text: string, knownGroups: string[]): { entries: Array<{ group: string; message: string }>; error?: string } {
+  const entries: Array<{ group: string; message: string }> = [];
+  let current: { group: string; lines: string[] } | undefined;
+  const flush = () => {
+    if (current) {
+      entries.push({ group: current.group, message: cleanupMessage(current.lines.join('\n')) });
+    }
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.startsWith(SECTION_PREFIX)) {
+      flush();
+      current = { group: line.slice(SECTION_PREFIX.length).trim(), lines: [] };
+    } else if (current) {
+      current.lines.push(line);
+    }
+  }
+  flush();
+
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    if (!knownGroups.includes(entry.group)) {
+      return { entries, error: `Unknown group '${entry.group}'.` };
+    }
+    if (seen.has(entry.group)) {
+      return { entries, error: `Group '${entry.group}' appears more than once.` };
+    }
+    if (!entry.message) {
+      return { entries, error: `Group '${entry.group}' has no commit message.` };
+    }
+    seen.add(entry.group);
+  }
+
+  return entries.length === 0 ? { entries, error: 'No groups left to commit.' } : { entries };
+}
+
+let sessionCounter = 0;
+
+/**
+ * Show the batch as an editable document and resolve with the plan once it is saved, or
+ * undefined when the document is closed without saving or cancelled.
+ */
+export async function previewBatchCommit(groups: BatchCommitGroup[], options?: {
+  syncToRemote?: boolean;
+  onSyncToRemoteChanged?: (syncToRemote: boolean) => void | Promise<void>;
+}): Promise<BatchCommitPlan | undefined> {
+  const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'git-file-groups-batch-'));
+  const previewFile = path.join(directory, 'COMMIT_ALL_GROUPS');
+  await fs.promises.writeFile(previewFile, buildBatchCommitDocument(groups), 'utf8');
+
+  const session = ++sessionCounter;
+  const commitCommand = `git-file-groups.commitAllPreview.commit.${session}`;
+  const cancelCommand = `git-file-groups.commitAllPreview.cancel.${session}`;
+  const toggleSyncCommand = `git-file-groups.commitAllPreview.toggleSync.${session}`;
+  const knownGroups = groups.map(group => group.group);
+
+  let syncToRemote = options?.syncToRemote ?? true;
+  const lensesChanged = new vscode.EventEmitter<void>();
+
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.file(previewFile));
+  try {
+    await vscode.languages.setTextDocumentLanguage(document, 'git-commit');
+  } catch (error) {
+    log(`git-commit language not available: ${error}`, 'view');
+  }
+  await vscode.window.showTextDocument(document, { preview: false });
+
+  return await new Promise<BatchCommitPlan | undefined>((resolve) => {
+    let settled = false;
+
+    const finish = async (result: BatchCommitPlan | undefined) => {
+      if (settled) {
+        return;
+      }
+
+      settled = true;
+      disposables.forEach(disposable => disposable.dispose());
+      resolve(result);
+      await closeDocument(document);
+      await fs.promises.rm(directory, { recursive: true, force: true });
+    };
+
+    const accept = async () => {
+      const parsed = parseBatchCommitDocument(document.getText(), knownGroups);
+      if (parsed.error) {
+        void vscode.window.showWarningMessage(`${parsed.error} Fix the preview and save again.`);
+        return;
+      }
+
+      await finish({ entries: parsed.entries, syncToRemote });
+    };
+
+    const disposables: vscode.Disposable[] = [
+      lensesChanged,
+      vscode.languages.registerCodeLensProvider({ scheme: 'file', pattern: previewFile }, {
+        onDidChangeCodeLenses: lensesChanged.event,
+        provideCodeLenses: () => {
+          const range = new vscode.Range(0, 0, 0, 0);
+          return [
+            new vscode.CodeLens(range, { title: '$(check-all) Commit Groups', command: commitCommand }),
+            new vscode.CodeLens(range, { title: `$(sync) Git Sync: ${syncToRemote ? 'On' : 'Off'}`, command: toggleSyncCommand, tooltip: 'Sync once after the last commit' }),
+            new vscode.CodeLens(range, { title: '$(close) Cancel', command: cancelCommand })
+          ];
+        }
+      }),
+      vscode.commands.registerCommand(commitCommand, async () => {
+        if (!document.isDirty) {
+          await accept();
+          return;
+        }
+        await document.save();
+      }),
+      vscode.commands.registerCommand(cancelCommand, async () => {
+        await finish(undefined);
+      }),
+      vscode.commands.registerCommand(toggleSyncCommand, () => {
+        syncToRemote = !syncToRemote;
+        lensesChanged.fire();
+        if (options?.onSyncToRemoteChanged) {
+          void Promise.resolve(options.onSyncToRemoteChanged(syncToRemote)).catch(error => {
+            log(`Failed to persist Git sync setting: ${error}`, 'config');
+          });
+        }
+      }),
+      vscode.workspace.onDidSaveTextDocument(saved => {
+        if (saved.uri.fsPath === document.uri.fsPath) {
+          void accept();
+        }
+      }),
+      vscode.window.tabGroups.onDidChangeTabs(event => {
+        const closed = event.closed.some(tab => tab.input instanceof vscode.TabInputText && tab.input.uri.fsPath === document.uri.fsPath);
+        if (closed && !isDocumentOpen(document)) {
+          void finish(undefined);
+        }
+      })
+    ];
+  });
+}
@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type CommitFailureAction = 'retry' | 'retryWithoutHooks' | 'editMessage';
+
+export interface FileReference {
+  uri: vscode.Uri;
+  line: number;
+  column: number;
+}
+
+let commitOutputChannel: vscode.OutputChannel | undefined;
+
+/** errors that hooks and retries can't do anything about */
+const CONFIGURATION_ERROR_CODES = ['NoUserNameConfigured', 'NoUserEmailConfigured', 'NotAGitRepository'];
+
+/**
+ * Output a failed commit produced, hook output included; empty when git printed nothing.
+ */
+export function getCommitErrorOutput(error: unknown): string {
+  const details = error && typeof error === 'object' ? error as Record<string, unknown> : undefined;
+  const stdout = typeof details?.stdout === 'string' ? details.stdout.trim() : '';
+  const stderr = typeof details?.stderr === 'string' ? details.stderr.trim() : '';
+  return [stdout, stderr].filter(Boolean).join('\n');
+}
+
+export function isRetryableCommitFailure(error: unknown): boolean {
+  const details = error && typeof error === 'object' ? error as Record<string, unknown> : undefined;
+  const gitErrorCode = typeof details?.gitErrorCode === 'string' ? details.gitErrorCode : undefined;
+  return !CONFIGURATION_ERROR_CODES.includes(gitErrorCode ?? '') && getCommitErrorOutput(error).length > 0;
+}
+
+/**
+ * `path:line` and `path:line:column` references in hook output (linters, compilers, test
+ * runners) that point at existing files, relative to the repository or absolute.
+ */
+export function findFileReferences(output: string, repositoryRoot: string): FileReference[] {
+  const references = new Map<string, FileReference>();
+  const pattern = /((?:[A-Za-z]:)?[\w.@~\/\\-]*[\w@~-]\.[\w]+)[:(](\d+)(?:[:,](\d+))?/g;
+  // Strip ANSI colors hooks commonly print.
+  const plain = output.replace(/\u001b\[[0-9;]*m/g, '');
+  for (let match = pattern.exec(plain); match; match = pattern.exec(plain)) {
+    const filePath = path.resolve(repositoryRoot, match[1]);
+    const key = `${filePath}:${match[2]}`;
+    if (references.has(key) || !fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+      continue;
+    }
+
+    references.set(key, {
+      uri: vscode.Uri.file(filePath),
+      line: Math.max(Number(match[2]) - 1, 0),
+      column: match[3] ? Math.max(Number(match[3]) - 1, 0) : 0
+    });
+  }
+
+  return Array.from(references.values());
+}
+
+/**
+ * Show a rejected commit's output in its own output channel and ask what to do next. Opening
+ * the referenced files keeps the question open, so lint errors can be fixed before retrying.
+ * Resolves to undefined when the notification is dismissed.
+ */
+export async function reportCommitFailure(error: unknown, context: { repositoryRoot: string; groupName: string; message: string }): Promise<CommitFailureAction | undefined> {
+  const output = getCommitErrorOutput(error);
+  if (!commitOutputChannel) {
+    commitOutputChannel = vscode.window.createOutputChannel('Git File Groups: Commit Output');
+  }
+
+  commitOutputChannel.appendLine(`── ${new Date().toLocaleString()} · commit of group '${context.groupName}' rejected ──`);
+  commitOutputChannel.appendLine(`Message: ${context.message.split(/\r?\n/)[0]}`);
+  commitOutputChannel.appendLine('');
+  commitOutputChannel.appendLine(output);
+  commitOutputChannel.appendLine('');
+  commitOutputChannel.show(true);
+
+  const references = findFileReferences(output, context.repositoryRoot);
+  const firstLine = output.split(/\r?\n/).find(line => line.trim().length > 0)?.trim() ?? 'the commit was rejected';
+  const openFilesAction = `Open ${references.length} File${references.length === 1 ? '' : 's'} from Output`;
+
+  for (;;) {
+    const choice = await vscode.window.showErrorMessage(
+      `Commit of group '${context.groupName}' failed: ${firstLine}. The group stays staged; see "Git File Groups: Commit Output" for the full output.`,
+      'Retry',
+      'Retry without Hooks',
+      ...(references.length > 0 ? [openFilesAction] : []),
+      'Edit Message'
+    );
+
+    switch (choice) {
+      case 'Retry':
+        return 'retry';
+      case 'Retry without Hooks':
+        return 'retryWithoutHooks';
+      case 'Edit Message':
+        return 'editMessage';
+      case openFilesAction:
+        for (const reference of references.slice(0, 10)) {
+          const position = new vscode.Position(reference.line, reference.column);
+          await vscode.window.showTextDocument(reference.uri, { preview: false, selection: new vscode.Range(position, position) });
+        }
+        continue;
+      default:
+        return undefined;
+    }
+  }
+}
@@ -0,0 +1,232 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommitToggleOptions, NO_COMMIT_OPTIONS, describeCommitOptions, pickCommitOptions } from './commitOptions';
+import { CommitInputResult } from './commitQuickInput';
+import { log } from './logging';
+
+export interface CommitMessageEditorOptions {
+  title?: string;
+  value?: string;
+  /** repository-relative paths listed in the comment block */
+  files?: string[];
+  syncToRemote?: boolean;
+  onSyncToRemoteChanged?: (syncToRemote: boolean) => void | Promise<void>;
+  useEditor?: boolean;
+  onUseEditorChanged?: (useEditor: boolean) => void | Promise<void>;
+  /** amend / sign-off / GPG / no-verify toggles; omit to hide them */
+  commitOptions?: CommitToggleOptions;
+  onCommitOptionsChanged?: (commitOptions: CommitToggleOptions) => void | Promise<void>;
+  getAmendMessage?: () => Promise<string | undefined>;
+}
+
+let sessionCounter = 0;
+
+/**
+ * Edit a commit message in a COMMIT_EDITMSG style document. Saving commits with the text
+ * minus `#` comment lines; closing the editor without saving cancels. The sync toggle and
+ * the commit / cancel actions are CodeLenses on the first line.
+ */
+export async function editCommitMessage(options?: CommitMessageEditorOptions): Promise<CommitInputResult | undefined> {
+  const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'git-file-groups-commit-'));
+  const messageFile = path.join(directory, 'COMMIT_EDITMSG');
+  await fs.promises.writeFile(messageFile, buildInitialContent(options), 'utf8');
+
+  const session = ++sessionCounter;
+  const commitCommand = `git-file-groups.commitMessageEditor.commit.${session}`;
+  const cancelCommand = `git-file-groups.commitMessageEditor.cancel.${session}`;
+  const toggleSyncCommand = `git-file-groups.commitMessageEditor.toggleSync.${session}`;
+  const toggleEditorCommand = `git-file-groups.commitMessageEditor.toggleEditor.${session}`;
+  const commitOptionsCommand = `git-file-groups.commitMessageEditor.commitOptions.${session}`;
+
+  let syncToRemote = options?.syncToRemote ?? true;
+  let useEditor = options?.useEditor ?? true;
+  let commitOptions = options?.commitOptions ?? NO_COMMIT_OPTIONS;
+  const lensesChanged = new vscode.EventEmitter<void>();
+
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.file(messageFile));
+  try {
+    await vscode.languages.setTextDocumentLanguage(document, 'git-commit');
+  } catch (error) {
+    log(`git-commit language not available: ${error}`, 'view');
+  }
+
+  const editor = await vscode.window.showTextDocument(document, { preview: false });
+  const subjectEnd = document.lineAt(0).range.end;
+  editor.selection = new vscode.Selection(subjectEnd, subjectEnd);
+
+  return await new Promise<CommitInputResult | undefined>((resolve) => {
+    let settled = false;
+
+    const finish = async (result: CommitInputResult | undefined) => {
+      if (settled) {
+        return;
+      }
+
+      settled = true;
+      disposables.forEach(disposable => disposable.dispose());
+      resolve(result);
+      await closeDocument(document);
+      await fs.promises.rm(directory, { recursive: true, force: true });
+    };
+
+    const isSessionDocument = (candidate: vscode.TextDocument) => candidate.uri.fsPath === document.uri.fsPath;
+
+    const disposables: vscode.Disposable[] = [
+      lensesChanged,
+      vscode.languages.registerCodeLensProvider({ scheme: 'file', pattern: messageFile }, {
+        onDidChangeCodeLenses: lensesChanged.event,
+        provideCodeLenses: () => {
+          const range = new vscode.Range(0, 0, 0, 0);
+          return [
+            new vscode.CodeLens(range, { title: '$(check) Commit', command: commitCommand }),
+            new vscode.CodeLens(range, { title: `$(sync) Git Sync: ${syncToRemote ? 'On' : 'Off'}`, command: toggleSyncCommand, tooltip: 'Toggle Git sync after commit' }),
+            ...(options?.commitOptions
+              ? [new vscode.CodeLens(range, { title: `$(settings-gear) Options: ${describeCommitOptions(commitOptions) ?? 'none'}`, command: commitOptionsCommand, tooltip: 'Amend, sign-off, GPG sign, skip hooks' })]
+              : []),
+            new vscode.CodeLens(range, { title: `$(edit) Editor by Default: ${useEditor ? 'On' : 'Off'}`, command: toggleEditorCommand, tooltip: 'Open this editor instead of the single-line input for commits' }),
+            new vscode.CodeLens(range, { title: '$(close) Cancel', command: cancelCommand })
+          ];
+        }
+      }),
+      vscode.commands.registerCommand(commitCommand, async () => {
+        // Saving is what commits, so an unchanged document is saved as well.
+        if (!document.isDirty) {
+          await accept();
+          return;
+        }
+        await document.save();
+      }),
+      vscode.commands.registerCommand(cancelCommand, async () => {
+        await finish(undefined);
+      }),
+      vscode.commands.registerCommand(toggleSyncCommand, () => {
+        syncToRemote = !syncToRemote;
+        lensesChanged.fire();
+        if (options?.onSyncToRemoteChanged) {
+          void Promise.resolve(options.onSyncToRemoteChanged(syncToRemote)).catch(error => {
+            log(`Failed to persist Git sync setting: ${error}`, 'config');
+          });
+        }
+      }),
+      vscode.commands.registerCommand(toggleEditorCommand, () => {
+        useEditor = !useEditor;
+        lensesChanged.fire();
+        if (options?.onUseEditorChanged) {
+          void Promise.resolve(options.onUseEditorChanged(useEditor)).catch(error => {
+            log(`Failed to persist commit editor setting: ${error}`, 'config');
+          });
+        }
+      }),
+      vscode.commands.registerCommand(commitOptionsCommand, async () => {
+        const picked = await pickCommitOptions(commitOptions);
+        if (!picked) {
+          return;
+        }
+
+        const defaultsChanged = picked.signoff !== commitOptions.signoff || picked.signCommit !== commitOptions.signCommit || picked.noVerify !== commitOptions.noVerify;
+        const amendTurnedOn = picked.amend && !commitOptions.amend;
+        commitOptions = picked;
+        lensesChanged.fire();
+        if (amendTurnedOn) {
+          await replaceMessage(document, await options?.getAmendMessage?.());
+        }
+        if (defaultsChanged && options?.onCommitOptionsChanged) {
+          void Promise.resolve(options.onCommitOptionsChanged(commitOptions)).catch(error => {
+            log(`Failed to persist commit options: ${error}`, 'config');
+          });
+        }
+      }),
+      vscode.workspace.onDidSaveTextDocument(saved => {
+        if (isSessionDocument(saved)) {
+          void accept();
+        }
+      }),
+      vscode.window.tabGroups.onDidChangeTabs(event => {
+        const closed = event.closed.some(tab => tab.input instanceof vscode.TabInputText && tab.input.uri.fsPath === document.uri.fsPath);
+        if (closed && !isDocumentOpen(document)) {
+          void finish(undefined);
+        }
+      })
+    ];
+
+    const accept = async () => {
+      const message = cleanupMessage(document.getText());
+      if (!message) {
+        void vscode.window.showWarningMessage('Commit message is required. Write a message above the comment lines and save again.');
+        return;
+      }
+
+      await finish({ message, syncToRemote, commitOptions });
+    };
+  });
+}
+
+function buildInitialContent(options: CommitMessageEditorOptions | undefined): string {
+  const lines = [
+    options?.value ?? '',
+    '',
+    `# ${options?.title ?? 'Commit Changes'}`,
+    '# Write the subject on the first line and the body after a blank line.',
+    '# Save to commit, close without saving to cancel. Lines starting with \'#\' are ignored.'
+  ];
+  if (options?.files && options.files.length > 0) {
+    lines.push('#', '# Files in this commit:', ...options.files.map(file => `#   ${file}`));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * The equivalent of git's default "strip" cleanup: comments, trailing whitespace and
+ * surplus blank lines go.
+ */
+export function cleanupMessage(text: string): string {
+  const lines = text
+    .split(/\r?\n/)
+    .filter(line => !line.startsWith('#'))
+    .map(line => line.replace(/\s+$/, ''));
+
+  const collapsed: string[] = [];
+  for (const line of lines) {
+    if (line === '' && (collapsed.length === 0 || collapsed[collapsed.length - 1] === '')) {
+      continue;
+    }
+    collapsed.push(line);
+  }
+
+  return collapsed.join('\n').trim();
+}
+
+/**
+ * Swap the message above the comment block, e.g. for the previous commit's message on amend.
+ */
+async function replaceMessage(document: vscode.TextDocument, message: string | undefined): Promise<void> {
+  if (message === undefined) {
+    return;
+  }
+
+  let end = 0;
+  while (end < document.lineCount && !document.lineAt(end).text.startsWith('#')) {
+    end++;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(document.uri, new vscode.Range(0, 0, end, 0), `${message}\n\n`);
+  await vscode.workspace.applyEdit(edit);
+}
+
+export function isDocumentOpen(document: vscode.TextDocument): boolean {
+  return vscode.window.tabGroups.all.some(group => group.tabs.some(tab => tab.input instanceof vscode.TabInputText && tab.input.uri.fsPath === document.uri.fsPath));
+}
+
+export async function closeDocument(document: vscode.TextDocument): Promise<void> {
+  if (!isDocumentOpen(document)) {
+    return;
+  }
+
+  // Revert first so closing never asks to save a message that was discarded.
+  await vscode.window.showTextDocument(document, { preview: false });
+  await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+}
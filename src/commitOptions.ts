@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+
+/**
+ * Per-commit switches, named after the vscode.git CommitOptions they are passed through as.
+ */
+export interface CommitToggleOptions {
+  amend: boolean;
+  signoff: boolean;
+  signCommit: boolean;
+  noVerify: boolean;
+}
+
+export interface CommitToggle {
+  key: keyof CommitToggleOptions;
+  icon: string;
+  label: string;
+  /** short form listed in the commit input title while the toggle is on */
+  short: string;
+}
+
+export const COMMIT_TOGGLES: CommitToggle[] = [
+  { key: 'amend', icon: 'history', label: 'Amend last commit', short: 'amend' },
+  { key: 'signoff', icon: 'person', label: 'Sign-off (--signoff)', short: 'sign-off' },
+  { key: 'signCommit', icon: 'verified', label: 'GPG sign (-S)', short: 'GPG' },
+  { key: 'noVerify', icon: 'debug-step-over', label: 'Skip hooks (--no-verify)', short: 'no-verify' }
+];
+
+export const NO_COMMIT_OPTIONS: CommitToggleOptions = { amend: false, signoff: false, signCommit: false, noVerify: false };
+
+/**
+ * Read the `commit_options` section. Amend is never a default: it always starts off so a
+ * commit never rewrites the previous one by accident.
+ */
+export function parseCommitOptionDefaults(raw: unknown): CommitToggleOptions {
+  const section = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+  return {
+    amend: false,
+    signoff: section.signoff === true,
+    signCommit: section.gpg_sign === true,
+    noVerify: section.no_verify === true
+  };
+}
+
+export function serializeCommitOptionDefaults(options: CommitToggleOptions): Record<string, boolean> {
+  return { signoff: options.signoff, gpg_sign: options.signCommit, no_verify: options.noVerify };
+}
+
+export function describeCommitOptions(options: CommitToggleOptions): string | undefined {
+  const enabled = COMMIT_TOGGLES.filter(toggle => options[toggle.key]).map(toggle => toggle.short);
+  return enabled.length > 0 ? enabled.join(', ') : undefined;
+}
+
+/**
+ * Let the user flip the toggles in a multi-select list; resolves to undefined when dismissed.
+ */
+export async function pickCommitOptions(current: CommitToggleOptions): Promise<CommitToggleOptions | undefined> {
+  const items = COMMIT_TOGGLES.map(toggle => ({ label: `$(${toggle.icon}) ${toggle.label}`, picked: current[toggle.key], toggle }));
+  const picked = await vscode.window.showQuickPick(items, { canPickMany: true, title: 'Commit Options' });
+  if (!picked) {
+    return undefined;
+  }
+
+  const chosen = new Set(picked.map(item => item.toggle.key));
+  return {
+    amend: chosen.has('amend'),
+    signoff: chosen.has('signoff'),
+    signCommit: chosen.has('signCommit'),
+    noVerify: chosen.has('noVerify')
+  };
+}
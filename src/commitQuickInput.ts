@@ -1,34 +1,81 @@
 import * as vscode from 'vscode';
+import { editCommitMessage } from './commitMessageEditor';
+import { COMMIT_TOGGLES, CommitToggle, CommitToggleOptions, NO_COMMIT_OPTIONS, describeCommitOptions } from './commitOptions';
+import { ConventionalCommitsConfig } from './conventionalCommitMessage';
+import { promptForConventionalCommit } from './conventionalCommits';
 import { log } from './logging';
 
 export interface CommitInputResult {
   message: string;
   syncToRemote: boolean;
+  commitOptions: CommitToggleOptions;
 }
 
-export async function promptForCommitInput(options?: {
+export interface CommitInputOptions {
   title?: string;
   value?: string;
   placeHolder?: string;
   syncToRemote?: boolean;
   onSyncToRemoteChanged?: (syncToRemote: boolean) => void | Promise<void>;
-}): Promise<CommitInputResult | undefined> {
+  /** repository-relative paths, listed when the message is written in the editor */
+  files?: string[];
+  /** go straight to the multi-line commit message editor */
+  useEditor?: boolean;
+  onUseEditorChanged?: (useEditor: boolean) => void | Promise<void>;
+  /** build the message step by step in Conventional Commits form */
+  conventional?: ConventionalCommitsConfig;
+  /** starting state of the amend / sign-off / GPG / no-verify toggles; omit to hide them */
+  commitOptions?: CommitToggleOptions;
+  onCommitOptionsChanged?: (commitOptions: CommitToggleOptions) => void | Promise<void>;
+  /** message of the commit that amending would replace */
+  getAmendMessage?: () => Promise<string | undefined>;
+}
+
+export async function promptForCommitInput(options?: CommitInputOptions): Promise<CommitInputResult | undefined> {
+  if (options?.conventional) {
+    const result = await promptForConventionalCommit(options.conventional, options);
+    // The editor is still there for writing a body below the generated header.
+    return result && options.useEditor
+      ? editCommitMessage({ ...options, value: result.message, syncToRemote: result.syncToRemote, commitOptions: result.commitOptions })
+      : result;
+  }
+
+  if (options?.useEditor) {
+    return editCommitMessage(options);
+  }
+
   const input = vscode.window.createInputBox();
   const toggleButton: vscode.QuickInputButton = {
     iconPath: new vscode.ThemeIcon('sync'),
     tooltip: 'Toggle Git sync after commit'
   };
+  const editorButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('edit'),
+    tooltip: 'Write the message in an editor'
+  };
 
   let syncToRemote = options?.syncToRemote ?? true;
+  let commitOptions = options?.commitOptions ?? NO_COMMIT_OPTIONS;
   let showValidation = false;
+  let optionButtons: Array<vscode.QuickInputButton & { commitToggle: CommitToggle }> = [];
+  // What the box held before amend swapped in the previous message, to put back when amend goes off.
+  let valueBeforeAmend: string | undefined;
 
   const updateUi = () => {
-    input.title = `${options?.title ?? 'Commit Changes'} • Git Sync: ${syncToRemote ? 'On' : 'Off'}`;
+    const enabledOptions = describeCommitOptions(commitOptions);
+    input.title = `${options?.title ?? 'Commit Changes'} • Git Sync: ${syncToRemote ? 'On' : 'Off'}${enabledOptions ? ` • ${enabledOptions}` : ''}`;
     input.prompt = syncToRemote
       ? 'Enter a commit message. Git sync to the remote will run after this commit.'
       : 'Enter a commit message. Git sync to the remote is off for this commit.';
     input.placeholder = options?.placeHolder ?? 'Enter commit message...';
-    input.buttons = [toggleButton];
+    optionButtons = options?.commitOptions
+      ? COMMIT_TOGGLES.map(toggle => ({
+        iconPath: new vscode.ThemeIcon(toggle.icon),
+        tooltip: `${toggle.label}: ${commitOptions[toggle.key] ? 'On' : 'Off'}`,
+        commitToggle: toggle
+      }))
+      : [];
+    input.buttons = [toggleButton, ...optionButtons, editorButton];
     input.validationMessage = showValidation && input.value.trim().length === 0
       ? 'Commit message is required.'
       : undefined;
@@ -40,7 +87,7 @@ export async function promptForCommitInput(options?: {
   return await new Promise<CommitInputResult | undefined>((resolve) => {
     let settled = false;
 
-    const finish = (result: CommitInputResult | undefined) => {
+    const finish = (result: CommitInputResult | undefined | Promise<CommitInputResult | undefined>) => {
       if (settled) {
         return;
       }
@@ -51,12 +98,45 @@ export async function promptForCommitInput(options?: {
       resolve(result);
     };
 
+    const swapAmendMessage = async (amend: boolean) => {
+      if (amend) {
+        const previousMessage = await options?.getAmendMessage?.();
+        if (previousMessage !== undefined && commitOptions.amend) {
+          valueBeforeAmend = input.value;
+          input.value = previousMessage;
+        }
+      } else if (valueBeforeAmend !== undefined) {
+        input.value = valueBeforeAmend;
+        valueBeforeAmend = undefined;
+      }
+    };
+
     const disposables: vscode.Disposable[] = [
       input.onDidChangeValue(() => {
         showValidation = true;
         updateUi();
       }),
-      input.onDidTriggerButton(() => {
+      input.onDidTriggerButton(async button => {
+        if (button === editorButton) {
+          finish(editCommitMessage({ ...options, value: input.value, syncToRemote, commitOptions, useEditor: false }));
+          return;
+        }
+
+        const optionButton = optionButtons.find(candidate => candidate === button);
+        if (optionButton) {
+          const key = optionButton.commitToggle.key;
+          commitOptions = { ...commitOptions, [key]: !commitOptions[key] };
+          updateUi();
+          if (key === 'amend') {
+            await swapAmendMessage(commitOptions.amend);
+          } else if (options?.onCommitOptionsChanged) {
+            void Promise.resolve(options.onCommitOptionsChanged(commitOptions)).catch(error => {
+              log(`Failed to persist commit options: ${error}`, 'config');
+            });
+          }
+          return;
+        }
+
         syncToRemote = !syncToRemote;
         updateUi();
         if (options?.onSyncToRemoteChanged) {
@@ -74,7 +154,7 @@ export async function promptForCommitInput(options?: {
         }
 
         input.hide();
-        finish({ message, syncToRemote });
+        finish({ message, syncToRemote, commitOptions });
       }),
       input.onDidHide(() => {
         finish(undefined);
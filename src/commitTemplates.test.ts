@@ -0,0 +1,51 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { renderCommitTemplate, stripTemplateComments } from './commitTemplates';
+
+const context = {
+  group: 'Login #1234',
+  branch: 'feature/login',
+  files: ['src/login.ts', 'README.md'],
+  notes: 'Needs a review',
+  gitTemplate: 'Why:'
+};
+
+describe('renderCommitTemplate', () => {
+  it('fills named and numbered captures', () => {
+    assert.equal(renderCommitTemplate([{ '#(?<WorkItemId>[0-9]+)': 'AB#$WorkItemId: $group' }], context), 'AB#1234: Login #1234');
+    assert.equal(renderCommitTemplate([{ '^(\\w+) #(\\d+)$': '$2 $1' }], context), '1234 Login');
+  });
+
+  it('fills the built-in names, braced ones included', () => {
+    assert.equal(
+      renderCommitTemplate([{ '.*': '${group}s on $branch\n\n$files\n\n$notes\n$template' }], context),
+      'Login #1234s on feature/login\n\n- src/login.ts\n- README.md\n\nNeeds a review\nWhy:'
+    );
+  });
+
+  it('prefers captures over built-in names and blanks unknown ones', () => {
+    assert.equal(renderCommitTemplate([{ '(?<group>\\d+)': '$group $unknown$3' }], context), '1234');
+    assert.equal(renderCommitTemplate([{ '.*': '$branch$notes: done' }], { group: 'Docs', files: [] }), ': done');
+  });
+
+  it('uses the first matching entry in order', () => {
+    const definitions = [{ '^Docs': 'docs: $group', 'Login': 'first' }, { '.*': 'fallback' }];
+    assert.equal(renderCommitTemplate(definitions, context), 'first');
+    assert.equal(renderCommitTemplate(definitions, { ...context, group: 'Other' }), 'fallback');
+    assert.equal(renderCommitTemplate([{ '^Docs': 'docs' }], context), undefined);
+  });
+
+  it('reports invalid patterns and skips malformed entries', () => {
+    const invalid: string[] = [];
+    const definitions = [null, 'text', { '(': 'broken', 'Login': 42 }, { 'Login': 'ok' }];
+    assert.equal(renderCommitTemplate(definitions, context, pattern => invalid.push(pattern)), 'ok');
+    assert.deepEqual(invalid, ['(']);
+    assert.equal(renderCommitTemplate({ 'Login': 'not a list' }, context), undefined);
+  });
+});
+
+describe('stripTemplateComments', () => {
+  it('drops comment lines and surrounding blank lines', () => {
+    assert.equal(stripTemplateComments('# Subject\r\nSummary\n\n  # kept, not at the start\n# Footer\n'), 'Summary\n\n  # kept, not at the start');
+  });
+});
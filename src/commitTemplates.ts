@@ -0,0 +1,87 @@
+export interface CommitTemplateContext {
+  group: string;
+  branch?: string;
+  /** repository-relative paths of the files being committed */
+  files: string[];
+  notes?: string;
+  /** contents of the file named by git's `commit.template` setting */
+  gitTemplate?: string;
+}
+
+/**
+ * Render the first `commit_templates` entry whose regex matches the group name. Entries use
+ * the same shape as `links`, a map of group-name regex to template:
+ *
+ *   { "#(?<WorkItemId>[0-9]+)": "AB#$WorkItemId: $group" }
+ *
+ * Templates can refer to named or numbered captures (`$WorkItemId`, `$1`) and to `$group`,
+ * `$branch`, `$files` (one "- path" line per file), `$notes` and `$template` (git's
+ * commit.template); `${name}` works where a name is followed by word characters. Captures win
+ * over the built-in names. Returns undefined when no entry matches.
+ */
+export function renderCommitTemplate(definitions: unknown, context: CommitTemplateContext, onInvalid?: (pattern: string, error: unknown) => void): string | undefined {
+  if (!Array.isArray(definitions)) {
+    return undefined;
+  }
+
+  for (const definition of definitions) {
+    if (!definition || typeof definition !== 'object') {
+      continue;
+    }
+
+    for (const [pattern, template] of Object.entries(definition as Record<string, unknown>)) {
+      if (typeof template !== 'string') {
+        continue;
+      }
+
+      let match: RegExpExecArray | null;
+      try {
+        match = new RegExp(pattern).exec(context.group);
+      } catch (error) {
+        onInvalid?.(pattern, error);
+        continue;
+      }
+
+      if (match) {
+        return fillPlaceholders(template, match, context).trim();
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Drop the `#` comment lines git strips from commit.template files.
+ */
+export function stripTemplateComments(content: string): string {
+  return content
+    .split(/\r?\n/)
+    .filter(line => !line.startsWith('#'))
+    .join('\n')
+    .trim();
+}
+
+function fillPlaceholders(template: string, match: RegExpExecArray, context: CommitTemplateContext): string {
+  const builtIns: Record<string, string> = {
+    group: context.group,
+    branch: context.branch ?? '',
+    files: context.files.map(file => `- ${file}`).join('\n'),
+    notes: context.notes ?? '',
+    template: context.gitTemplate ?? ''
+  };
+
+  return template.replace(/\$(?:\{(\w+)\}|(\w+))/g, (_: string, braced: string | undefined, bare: string | undefined) => {
+    const name = (braced ?? bare) as string;
+    if (match.groups && name in match.groups) {
+      return match.groups[name] ?? '';
+    }
+
+    const index = Number(name);
+    if (!Number.isNaN(index)) {
+      return match[index] ?? '';
+    }
+
+    return Object.prototype.hasOwnProperty.call(builtIns, name) ? builtIns[name] : '';
+  });
+}
@@ -0,0 +1,81 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { buildConventionalMessage, formatConventionalHeader, parseConventionalCommitsConfig, parseConventionalHeader, parseTrailers, suggestScopes, validateSubject } from './conventionalCommitMessage';
+
+describe('parseConventionalCommitsConfig', () => {
+  it('turns on the standard types with true and stays off otherwise', () => {
+    const config = parseConventionalCommitsConfig(true);
+    assert.ok(config?.types.some(entry => entry.type === 'feat'));
+    assert.deepEqual({ ...config, types: [] }, { types: [], scopes: [], requireScope: false, trailers: [], maxHeaderLength: 72 });
+    assert.equal(parseConventionalCommitsConfig(undefined), undefined);
+    assert.equal(parseConventionalCommitsConfig(false), undefined);
+    assert.equal(parseConventionalCommitsConfig({ enabled: false, types: ['feat'] }), undefined);
+  });
+
+  it('reads the section and drops invalid entries', () => {
+    const config = parseConventionalCommitsConfig({
+      types: ['feat', { type: 'fix', description: 'A fix' }, { type: ' ' }, 42],
+      scopes: ['api', '', 7],
+      require_scope: true,
+      trailers: ['Refs'],
+      max_header_length: 50
+    });
+    assert.deepEqual(config, {
+      types: [{ type: 'feat' }, { type: 'fix', description: 'A fix' }],
+      scopes: ['api'],
+      requireScope: true,
+      trailers: ['Refs'],
+      maxHeaderLength: 50
+    });
+  });
+
+  it('falls back to the standard types and header length', () => {
+    const config = parseConventionalCommitsConfig({ types: [], max_header_length: -1 });
+    assert.deepEqual(config?.types, parseConventionalCommitsConfig(true)?.types);
+    assert.equal(config?.maxHeaderLength, 72);
+  });
+});
+
+describe('suggestScopes', () => {
+  const config = parseConventionalCommitsConfig(true)!;
+
+  it('offers the top-level folders of the files, sorted', () => {
+    assert.deepEqual(suggestScopes(config, ['src/a.ts', 'docs/guide.md', 'src/b/c.ts', 'README.md']), ['docs', 'src']);
+  });
+
+  it('prefers configured scopes', () => {
+    assert.deepEqual(suggestScopes({ ...config, scopes: ['api'] }, ['src/a.ts']), ['api']);
+  });
+});
+
+describe('conventional headers and messages', () => {
+  it('formats and parses headers with scope and breaking marker', () => {
+    const parts = { type: 'feat', scope: 'api', breaking: true, subject: 'drop v1 endpoints' };
+    assert.equal(formatConventionalHeader(parts), 'feat(api)!: drop v1 endpoints');
+    assert.deepEqual(parseConventionalHeader('  feat(api)!: drop v1 endpoints '), parts);
+    assert.deepEqual(parseConventionalHeader('fix: typo'), { type: 'fix', scope: undefined, breaking: false, subject: 'typo' });
+    assert.equal(parseConventionalHeader('Update the readme'), undefined);
+  });
+
+  it('puts the breaking change description before the trailers', () => {
+    assert.equal(buildConventionalMessage({ type: 'fix', breaking: false, subject: 'typo', trailers: [] }), 'fix: typo');
+    assert.equal(
+      buildConventionalMessage({ type: 'feat', breaking: true, subject: 'new API', breakingDescription: 'v1 is gone', trailers: ['Refs: #12'] }),
+      'feat!: new API\n\nBREAKING CHANGE: v1 is gone\nRefs: #12'
+    );
+  });
+
+  it('validates the subject and header length', () => {
+    const parts = { type: 'feat', breaking: false };
+    assert.equal(validateSubject({ ...parts, subject: '  ' }, 72), 'A subject is required.');
+    assert.equal(validateSubject({ ...parts, subject: 'add export.' }, 72), 'The subject should not end with a period.');
+    assert.equal(validateSubject({ ...parts, subject: 'add export' }, 16), undefined);
+    assert.equal(validateSubject({ ...parts, subject: 'add export' }, 15), 'The header is 16 characters long; keep it to 15.');
+  });
+
+  it('splits trailers on semicolons and reports the first invalid one', () => {
+    assert.deepEqual(parseTrailers('Refs: #123; Reviewed-by: Sam ;'), { trailers: ['Refs: #123', 'Reviewed-by: Sam'] });
+    assert.deepEqual(parseTrailers('Fixes #4'), { trailers: ['Fixes #4'] });
+    assert.equal(parseTrailers('Refs: #1; just text').error, '"just text" is not a trailer like "Token: value".');
+  });
+});
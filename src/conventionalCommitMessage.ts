@@ -0,0 +1,127 @@
+export interface ConventionalCommitType {
+  type: string;
+  description?: string;
+}
+
+export interface ConventionalCommitsConfig {
+  types: ConventionalCommitType[];
+  /** fixed scopes; when empty the top-level folders of the committed files are offered */
+  scopes: string[];
+  requireScope: boolean;
+  /** trailer tokens suggested in the trailer step, like "Refs" or "Reviewed-by" */
+  trailers: string[];
+  maxHeaderLength: number;
+}
+
+export interface ConventionalCommitParts {
+  type: string;
+  scope?: string;
+  breaking: boolean;
+  subject: string;
+  breakingDescription?: string;
+  trailers: string[];
+}
+
+const DEFAULT_TYPES: ConventionalCommitType[] = [
+  { type: 'feat', description: 'A new feature' },
+  { type: 'fix', description: 'A bug fix' },
+  { type: 'docs', description: 'Documentation only changes' },
+  { type: 'style', description: 'Formatting, white-space, missing semicolons' },
+  { type: 'refactor', description: 'A change that neither fixes a bug nor adds a feature' },
+  { type: 'perf', description: 'A change that improves performance' },
+  { type: 'test', description: 'Adding or correcting tests' },
+  { type: 'build', description: 'Build system or external dependencies' },
+  { type: 'ci', description: 'CI configuration and scripts' },
+  { type: 'chore', description: 'Other changes that don\'t touch source or tests' },
+  { type: 'revert', description: 'Reverts a previous commit' }
+];
+
+const TRAILER_PATTERN = /^[A-Za-z][\w-]*(?:: | #)\S/;
+
+/**
+ * Read the `conventional_commits` section of the project config. `true` turns the assistant
+ * on with the standard types; an object can set `types` (strings or `{ type, description }`),
+ * `scopes`, `require_scope`, `trailers` and `max_header_length`, and `enabled: false` turns it
+ * off again.
+ */
+export function parseConventionalCommitsConfig(raw: unknown): ConventionalCommitsConfig | undefined {
+  if (raw === true) {
+    return { types: DEFAULT_TYPES, scopes: [], requireScope: false, trailers: [], maxHeaderLength: 72 };
+  }
+  if (!raw || typeof raw !== 'object' || (raw as Record<string, unknown>).enabled === false) {
+    return undefined;
+  }
+
+  const section = raw as Record<string, unknown>;
+  const types = Array.isArray(section.types)
+    ? section.types
+      .map(entry => typeof entry === 'string' ? { type: entry } : entry)
+      .filter((entry): entry is ConventionalCommitType => !!entry && typeof (entry as ConventionalCommitType).type === 'string' && (entry as ConventionalCommitType).type.trim().length > 0)
+    : [];
+  const strings = (value: unknown) => Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string' && entry.trim().length > 0) : [];
+
+  return {
+    types: types.length > 0 ? types : DEFAULT_TYPES,
+    scopes: strings(section.scopes),
+    requireScope: section.require_scope === true,
+    trailers: strings(section.trailers),
+    maxHeaderLength: typeof section.max_header_length === 'number' && section.max_header_length > 0 ? section.max_header_length : 72
+  };
+}
+
+/**
+ * Scopes to offer: the configured ones, otherwise the top-level folders of the files.
+ */
+export function suggestScopes(config: ConventionalCommitsConfig, files: string[]): string[] {
+  if (config.scopes.length > 0) {
+    return config.scopes;
+  }
+
+  const folders = files
+    .map(file => file.split('/'))
+    .filter(segments => segments.length > 1)
+    .map(segments => segments[0]);
+  return Array.from(new Set(folders)).sort((a, b) => a.localeCompare(b));
+}
+
+export function formatConventionalHeader(parts: Pick<ConventionalCommitParts, 'type' | 'scope' | 'breaking' | 'subject'>): string {
+  return `${parts.type}${parts.scope ? `(${parts.scope})` : ''}${parts.breaking ? '!' : ''}: ${parts.subject}`;
+}
+
+export function buildConventionalMessage(parts: ConventionalCommitParts): string {
+  const footer = [
+    ...(parts.breaking && parts.breakingDescription ? [`BREAKING CHANGE: ${parts.breakingDescription}`] : []),
+    ...parts.trailers
+  ];
+  return footer.length > 0 ? `${formatConventionalHeader(parts)}\n\n${footer.join('\n')}` : formatConventionalHeader(parts);
+}
+
+/**
+ * Split `type(scope)!: subject` back into its parts, so a pre-filled message seeds the flow.
+ */
+export function parseConventionalHeader(header: string): Pick<ConventionalCommitParts, 'type' | 'scope' | 'breaking' | 'subject'> | undefined {
+  const match = /^(\w[\w-]*)(?:\(([^()]+)\))?(!)?: (.+)$/.exec(header.trim());
+  return match ? { type: match[1], scope: match[2], breaking: !!match[3], subject: match[4] } : undefined;
+}
+
+export function validateSubject(parts: Pick<ConventionalCommitParts, 'type' | 'scope' | 'breaking' | 'subject'>, maxHeaderLength: number): string | undefined {
+  const subject = parts.subject.trim();
+  if (!subject) {
+    return 'A subject is required.';
+  }
+  if (subject.endsWith('.')) {
+    return 'The subject should not end with a period.';
+  }
+
+  const length = formatConventionalHeader({ ...parts, subject }).length;
+  return length > maxHeaderLength ? `The header is ${length} characters long; keep it to ${maxHeaderLength}.` : undefined;
+}
+
+/**
+ * Trailers are entered on one line separated by `;`, e.g. `Refs: #123; Reviewed-by: Sam`.
+ */
+export function parseTrailers(text: string): { trailers: string[]; error?: string } {
+  const trailers = text.split(';').map(entry => entry.trim()).filter(Boolean);
+  const invalid = trailers.find(trailer => !TRAILER_PATTERN.test(trailer));
+  return invalid ? { trailers, error: `"${invalid}" is not a trailer like "Token: value".` } : { trailers };
+}
@@ -0,0 +1,238 @@
+import * as vscode from 'vscode';
+import { CommitToggleOptions, NO_COMMIT_OPTIONS } from './commitOptions';
+import { CommitInputResult } from './commitQuickInput';
+import { ConventionalCommitParts, ConventionalCommitsConfig, buildConventionalMessage, parseConventionalHeader, parseTrailers, suggestScopes, validateSubject } from './conventionalCommitMessage';
+import { log } from './logging';
+
+interface StepHost {
+  title: (step: string) => string;
+  buttons: (step: number) => vscode.QuickInputButton[];
+  onButton: (button: vscode.QuickInputButton) => 'back' | 'refresh';
+}
+
+type StepResult<T> = { value: T } | 'back' | undefined;
+
+/**
+ * Ask for a Conventional Commits message one part at a time: type, scope, breaking change,
+ * subject, then trailers. Every step after the first has a Back button, and the subject and
+ * trailers are validated inline before they are accepted.
+ */
+export async function promptForConventionalCommit(config: ConventionalCommitsConfig, options?: {
+  title?: string;
+  value?: string;
+  files?: string[];
+  syncToRemote?: boolean;
+  onSyncToRemoteChanged?: (syncToRemote: boolean) => void | Promise<void>;
+  commitOptions?: CommitToggleOptions;
+}): Promise<CommitInputResult | undefined> {
+  const firstLine = (options?.value ?? '').split(/\r?\n/)[0];
+  const seed = parseConventionalHeader(firstLine);
+  const parts: ConventionalCommitParts = {
+    type: seed?.type ?? '',
+    scope: seed?.scope,
+    breaking: seed?.breaking ?? false,
+    subject: seed?.subject ?? firstLine,
+    trailers: []
+  };
+  let syncToRemote = options?.syncToRemote ?? true;
+
+  const syncButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('sync'), tooltip: 'Toggle Git sync after commit' };
+  const host: StepHost = {
+    title: step => `${options?.title ?? 'Commit Changes'} • ${step} • Git Sync: ${syncToRemote ? 'On' : 'Off'}`,
+    buttons: step => step > 0 ? [vscode.QuickInputButtons.Back, syncButton] : [syncButton],
+    onButton: button => {
+      if (button === vscode.QuickInputButtons.Back) {
+        return 'back';
+      }
+
+      syncToRemote = !syncToRemote;
+      if (options?.onSyncToRemoteChanged) {
+        void Promise.resolve(options.onSyncToRemoteChanged(syncToRemote)).catch(error => {
+          log(`Failed to persist Git sync setting: ${error}`, 'config');
+        });
+      }
+      return 'refresh';
+    }
+  };
+
+  const scopes = suggestScopes(config, options?.files ?? []);
+  const steps: Array<(index: number) => Promise<StepResult<void>>> = [
+    async index => mapStep(await pickStep(host, index, 'Type', 'Select the type of change', config.types.map(entry => ({ label: entry.type, description: entry.description })), parts.type), value => { parts.type = value; }),
+    async index => mapStep(await pickStep(host, index, 'Scope', 'Select a scope or type a new one', [
+      ...(config.requireScope ? [] : [{ label: '(no scope)', value: '' }]),
+      ...scopes.map(scope => ({ label: scope }))
+    ], parts.scope ?? '', true, config.requireScope), value => { parts.scope = value || undefined; }),
+    async index => mapStep(await pickStep(host, index, 'Breaking Change', 'Does this commit break compatibility?', [
+      { label: 'No', value: 'no' },
+      { label: 'Yes', description: 'adds "!" and a BREAKING CHANGE footer', value: 'yes' }
+    ], parts.breaking ? 'yes' : 'no'), value => { parts.breaking = value === 'yes'; }),
+    async index => mapStep(await inputStep(host, index, 'Subject', `Short summary in the imperative mood, e.g. "add export button"`, parts.subject,
+      value => validateSubject({ ...parts, subject: value }, config.maxHeaderLength)), value => { parts.subject = value.trim(); }),
+    async index => parts.breaking
+      ? mapStep(await inputStep(host, index, 'Breaking Change', 'Describe what breaks and how to migrate', parts.breakingDescription ?? '',
+        value => value.trim() ? undefined : 'Describe the breaking change.'), value => { parts.breakingDescription = value.trim(); })
+      : { value: undefined },
+    async index => mapStep(await inputStep(host, index, 'Trailers', config.trailers.length > 0
+      ? `Optional trailers separated by ";", e.g. ${config.trailers.map(token => `${token}: ...`).join('; ')}`
+      : 'Optional trailers separated by ";", e.g. Refs: #123', parts.trailers.join('; '),
+      value => parseTrailers(value).error), value => { parts.trailers = parseTrailers(value).trailers; })
+  ];
+
+  let index = 0;
+  while (index < steps.length) {
+    const result = await steps[index](index);
+    if (result === undefined) {
+      return undefined;
+    }
+    if (result === 'back') {
+      // Steps that were skipped going forward are skipped going back too.
+      index = Math.max(0, index - 1);
+      if (index === 4 && !parts.breaking) {
+        index--;
+      }
+      continue;
+    }
+    index++;
+  }
+
+  return { message: buildConventionalMessage(parts), syncToRemote, commitOptions: options?.commitOptions ?? NO_COMMIT_OPTIONS };
+}
+
+function mapStep<T>(result: StepResult<T>, apply: (value: T) => void): StepResult<void> {
+  if (result === undefined || result === 'back') {
+    return result;
+  }
+
+  apply(result.value);
+  return { value: undefined };
+}
+
+async function pickStep(
+  host: StepHost,
+  index: number,
+  step: string,
+  placeholder: string,
+  items: Array<vscode.QuickPickItem & { value?: string }>,
+  selected: string,
+  allowCustom: boolean = false,
+  requireValue: boolean = false
+): Promise<StepResult<string>> {
+  const pick = vscode.window.createQuickPick<vscode.QuickPickItem & { value?: string }>();
+  pick.placeholder = placeholder;
+  pick.items = items;
+  pick.ignoreFocusOut = true;
+  const current = items.find(item => (item.value ?? item.label) === selected);
+  if (current) {
+    pick.activeItems = [current];
+  }
+
+  const updateUi = () => {
+    pick.title = host.title(step);
+    pick.buttons = host.buttons(index);
+  };
+  updateUi();
+
+  return new Promise<StepResult<string>>(resolve => {
+    let settled = false;
+    const finish = (result: StepResult<string>) => {
+      if (settled) {
+        return;
+      }
+
+      settled = true;
+      disposables.forEach(disposable => disposable.dispose());
+      pick.dispose();
+      resolve(result);
+    };
+
+    const disposables: vscode.Disposable[] = [
+      pick.onDidTriggerButton(button => {
+        if (host.onButton(button) === 'back') {
+          finish('back');
+        } else {
+          updateUi();
+        }
+      }),
+      pick.onDidAccept(() => {
+        const typed = pick.value.trim();
+        const chosen = pick.selectedItems[0] ?? pick.activeItems[0];
+        // A typed value that no item matches becomes a new scope.
+        if (allowCustom && typed && (!chosen || !chosen.label.toLowerCase().includes(typed.toLowerCase()))) {
+          if (!/^[\w.\/-]+$/.test(typed)) {
+            pick.placeholder = 'A scope may only contain letters, digits, "-", "_", "." and "/".';
+            return;
+          }
+          finish({ value: typed });
+          return;
+        }
+        if (!chosen) {
+          if (requireValue) {
+            pick.placeholder = 'A scope is required; type one to add it.';
+          }
+          return;
+        }
+        finish({ value: chosen.value ?? chosen.label });
+      }),
+      pick.onDidHide(() => finish(undefined))
+    ];
+
+    pick.show();
+  });
+}
+
+async function inputStep(
+  host: StepHost,
+  index: number,
+  step: string,
+  prompt: string,
+  value: string,
+  validate: (value: string) => string | undefined
+): Promise<StepResult<string>> {
+  const input = vscode.window.createInputBox();
+  input.prompt = prompt;
+  input.value = value;
+  input.ignoreFocusOut = true;
+
+  const updateUi = () => {
+    input.title = host.title(step);
+    input.buttons = host.buttons(index);
+    input.validationMessage = input.value ? validate(input.value) : undefined;
+  };
+  updateUi();
+
+  return new Promise<StepResult<string>>(resolve => {
+    let settled = false;
+    const finish = (result: StepResult<string>) => {
+      if (settled) {
+        return;
+      }
+
+      settled = true;
+      disposables.forEach(disposable => disposable.dispose());
+      input.dispose();
+      resolve(result);
+    };
+
+    const disposables: vscode.Disposable[] = [
+      input.onDidChangeValue(() => updateUi()),
+      input.onDidTriggerButton(button => {
+        if (host.onButton(button) === 'back') {
+          finish('back');
+        } else {
+          updateUi();
+        }
+      }),
+      input.onDidAccept(() => {
+        const error = validate(input.value);
+        if (error) {
+          input.validationMessage = error;
+          return;
+        }
+        finish({ value: input.value });
+      }),
+      input.onDidHide(() => finish(undefined))
+    ];
+
+    input.show();
+  });
+}
@@ -1,64 +1,57 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { spawn } from 'child_process';
 import { promptForCommitInput } from './commitQuickInput';
-import { FileNode, GitFileGroupsProvider, GroupNode, getGitCommitErrorMessage } from './GitFileGroupsProvider';
-import { log } from './logging';
+import { FileChangeDecorationProvider } from './fileDecorations';
+import { GIT_SHOW_SCHEME, GitShowContentProvider } from './gitBackend';
+import { CommitFileItem, FileNode, GitFileGroupsProvider, GroupNode, HunkNode, IncomingCommitItem, PendingCommitItem, PendingCommitsNode, ShelvedGroupItem, SubmoduleNode, getGitCommitErrorMessage } from './GitFileGroupsProvider';
+import { log, setLogOutput } from './logging';
+import { toPathKey } from './pathKeys';
+import { WorkspaceTreeDataProvider } from './WorkspaceTreeDataProvider';
+import { API, GitExtension, Repository } from './vscodeGitApi';
 
 log('Loading extension.ts', 'lifecycle');
 
-class BootstrapTreeDataProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
-    private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<vscode.TreeItem | undefined>();
-    readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
-    private delegate: GitFileGroupsProvider | undefined;
-
-    attach(provider: GitFileGroupsProvider): void {
-        this.delegate = provider;
-        provider.onDidChangeTreeData((item) => {
-            this.onDidChangeTreeDataEmitter.fire(item);
-        });
-        this.onDidChangeTreeDataEmitter.fire(undefined);
-    }
-
-    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
-        if (this.delegate) {
-            return this.delegate.getTreeItem(element);
-        }
-
-        return element;
-    }
-
-    getParent(element: vscode.TreeItem): vscode.ProviderResult<vscode.TreeItem> {
-        return this.delegate?.getParent(element);
-    }
-
-    getChildren(element?: vscode.TreeItem): vscode.ProviderResult<vscode.TreeItem[]> {
-        if (this.delegate) {
-            return this.delegate.getChildren(element);
-        }
-
-        return [];
-    }
-}
-
 export function activate(context: vscode.ExtensionContext) {
+    const outputChannel = vscode.window.createOutputChannel('Git File Groups');
+    context.subscriptions.push(outputChannel);
+    setLogOutput(outputChannel);
     log('Activating extension...', 'lifecycle');
-    let gitFileGroupsProvider: GitFileGroupsProvider | undefined;
     let workspaceInitializationTimer: ReturnType<typeof setTimeout> | undefined;
 
     try {
-        const bootstrapProvider = new BootstrapTreeDataProvider();
+        const workspaceTreeDataProvider = new WorkspaceTreeDataProvider();
+        context.subscriptions.push(workspaceTreeDataProvider);
 
-        registerCommands(() => gitFileGroupsProvider, context);
+        registerCommands(workspaceTreeDataProvider, context);
         log('Commands registered', 'lifecycle');
+        context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(GIT_SHOW_SCHEME, new GitShowContentProvider()));
+        context.subscriptions.push(vscode.window.registerFileDecorationProvider(new FileChangeDecorationProvider()));
 
         const dragAndDropController: vscode.TreeDragAndDropController<vscode.TreeItem> = {
             dragMimeTypes: ['application/vnd.code.tree.git-file-groups'],
             dropMimeTypes: ['application/vnd.code.tree.git-file-groups'],
             handleDrag: async (source: readonly vscode.TreeItem[], dataTransfer: vscode.DataTransfer) => {
                 const uris: string[] = [];
+                const hunks: Array<{ uri: string; fingerprints: string[] }> = [];
+                const commits: string[] = [];
                 for (const item of source) {
-                    const uri = item instanceof FileNode ? item.fileUri : item.resourceUri;
+                    if (item instanceof PendingCommitItem) {
+                        commits.push(item.commit.hash);
+                        continue;
+                    }
+
+                    if (item instanceof HunkNode) {
+                        hunks.push({ uri: item.fileUri.toString(), fingerprints: [item.fingerprint] });
+                        continue;
+                    }
+
+                    // A split file only carries the hunks shown under the group it was dragged from.
+                    if (item instanceof FileNode && item.hunks) {
+                        hunks.push({ uri: item.fileUri.toString(), fingerprints: item.hunks.fingerprints });
+                        continue;
+                    }
+
+                    const uri = toFileUri(item);
                     if (uri) {
                         uris.push(uri.toString());
                     }
@@ -66,20 +59,41 @@ export function activate(context: vscode.ExtensionContext) {
 
                 dataTransfer.set(
                     'application/vnd.code.tree.git-file-groups',
-                    new vscode.DataTransferItem(JSON.stringify({ uris }))
+                    new vscode.DataTransferItem(JSON.stringify({ uris, hunks, commits }))
                 );
             },
             handleDrop: async (target: vscode.TreeItem | undefined, dataTransfer: vscode.DataTransfer) => {
+                const gitFileGroupsProvider = workspaceTreeDataProvider.getProviderForItem(target);
                 if (!target || !gitFileGroupsProvider) {
                     return;
                 }
 
+                // Dropping an unpushed commit onto another one reorders them with a rebase.
+                if (target instanceof PendingCommitItem || target instanceof PendingCommitsNode) {
+                    const commitItem = dataTransfer.get('application/vnd.code.tree.git-file-groups');
+                    let draggedCommits: string[] = [];
+                    try {
+                        draggedCommits = JSON.parse(await commitItem?.asString() ?? '{}').commits ?? [];
+                    } catch {
+                        draggedCommits = [];
+                    }
+
+                    if (draggedCommits.length === 1) {
+                        await gitFileGroupsProvider.moveUnpushedCommit(draggedCommits[0], target instanceof PendingCommitItem ? target.commit.hash : undefined);
+                    }
+                    return;
+                }
+
                 let targetGroupName: string | undefined;
                 if (target instanceof GroupNode) {
                     targetGroupName = target.groupName;
+                } else if (target instanceof HunkNode || target instanceof SubmoduleNode) {
+                    targetGroupName = target.groupName;
                 } else if (target instanceof FileNode) {
                     const parent = gitFileGroupsProvider.getParent(target);
-                    if (parent instanceof GroupNode) {
+                    if (target.groupName) {
+                        targetGroupName = target.groupName;
+                    } else if (parent instanceof GroupNode) {
                         targetGroupName = parent.groupName;
                     }
                 }
@@ -94,214 +108,321 @@ export function activate(context: vscode.ExtensionContext) {
                 }
 
                 const raw = await item.asString();
-                let parsed: { uris: string[] } | undefined;
+                let parsed: { uris: string[]; hunks?: Array<{ uri: string; fingerprints: string[] }> } | undefined;
                 try {
                     parsed = JSON.parse(raw);
                 } catch {
                     parsed = undefined;
                 }
 
+                // Groups are per repository, so only files from the drop target's repository move.
+                const belongsToTarget = (uri: vscode.Uri) => workspaceTreeDataProvider.getProviderForUri(uri) === gitFileGroupsProvider;
+
+                for (const hunkSelection of parsed?.hunks ?? []) {
+                    const hunkUri = vscode.Uri.parse(hunkSelection.uri);
+                    if (belongsToTarget(hunkUri)) {
+                        await gitFileGroupsProvider.moveHunksToGroup(hunkUri, hunkSelection.fingerprints, targetGroupName);
+                    }
+                }
+
                 if (!parsed?.uris?.length) {
                     return;
                 }
 
-                const uris = parsed.uris.map(u => vscode.Uri.parse(u));
+                const uris = parsed.uris.map(u => vscode.Uri.parse(u)).filter(belongsToTarget);
                 await gitFileGroupsProvider.moveFilesToGroup(uris, targetGroupName);
             }
         };
 
         const treeView = vscode.window.createTreeView('gitFileGroupsTreeView', {
-            treeDataProvider: bootstrapProvider,
+            treeDataProvider: workspaceTreeDataProvider,
             showCollapseAll: false,
             canSelectMany: true,
             dragAndDropController
         });
         treeView.message = 'Initializing...';
         context.subscriptions.push(treeView);
+        workspaceTreeDataProvider.setTreeView(treeView);
 
         void vscode.commands.executeCommand('setContext', 'gitFileGroups.isExpanded', true);
 
-        // Helper to initialize extension when a workspace root is available.
-        const initializeForWorkspace = (workspaceRoot: string) => {
-            if (gitFileGroupsProvider) {
-                return;
+        let gitApi: API | undefined;
+        const repositoryStateSubscriptions = new Map<string, vscode.Disposable>();
+        const normalizeFsPath = (value: string | undefined): string | undefined => {
+            if (!value) {
+                return undefined;
             }
 
-            log(`Creating GitFileGroupsProvider with workspaceRoot: ${workspaceRoot}`, 'lifecycle');
-            try {
-                gitFileGroupsProvider = new GitFileGroupsProvider(workspaceRoot, context.globalState);
-                const repositoryStateSubscriptions = new Map<string, vscode.Disposable>();
-                const updateSyncHeader = (repository: any | undefined) => {
-                    const ahead = typeof repository?.state?.HEAD?.ahead === 'number' ? repository.state.HEAD.ahead : 0;
-                    const behind = typeof repository?.state?.HEAD?.behind === 'number' ? repository.state.HEAD.behind : 0;
-                    gitFileGroupsProvider?.setSyncStatus(ahead, behind);
-                };
-                const scheduleAssignmentSync = (reason: string) => {
-                    log(`${reason} - scheduling assignment sync`, 'git');
-                    gitFileGroupsProvider?.scheduleSyncAssignmentsWithGitStatus();
-                };
-                const normalizeFsPath = (value: string | undefined): string | undefined => {
-                    if (!value) {
-                        return undefined;
-                    }
+            return toPathKey(value);
+        };
+        const isSameOrInside = (candidatePath: string | undefined, parentPath: string | undefined): boolean => {
+            const normalizedCandidate = normalizeFsPath(candidatePath);
+            const normalizedParent = normalizeFsPath(parentPath);
+            if (!normalizedCandidate || !normalizedParent) {
+                return false;
+            }
 
-                    return path.normalize(value).toLowerCase();
-                };
-                const matchesProviderRepository = (repositoryPath: string | undefined): boolean => {
-                    const normalizedRepositoryPath = normalizeFsPath(repositoryPath);
-                    const normalizedProviderPath = normalizeFsPath(gitFileGroupsProvider?.getWorkspaceRoot());
-                    if (!normalizedRepositoryPath || !normalizedProviderPath) {
-                        return false;
+            return normalizedCandidate === normalizedParent || normalizedCandidate.startsWith(`${normalizedParent}${path.sep}`);
+        };
+        const updateSyncHeader = (provider: GitFileGroupsProvider, repository: Repository | undefined) => {
+            const ahead = typeof repository?.state?.HEAD?.ahead === 'number' ? repository.state.HEAD.ahead : 0;
+            const behind = typeof repository?.state?.HEAD?.behind === 'number' ? repository.state.HEAD.behind : 0;
+            provider.setSyncStatus(ahead, behind);
+        };
+        const providersForRepository = (repositoryPath: string | undefined): GitFileGroupsProvider[] => {
+            return workspaceTreeDataProvider.getProviders().filter(provider => {
+                const providerRoot = provider.getWorkspaceRoot();
+                return isSameOrInside(providerRoot, repositoryPath) || isSameOrInside(repositoryPath, providerRoot);
+            });
+        };
+        const refreshProvidersForRepository = (repository: Repository, reason: string) => {
+            const repositoryPath = repository?.rootUri?.fsPath;
+            for (const provider of providersForRepository(repositoryPath)) {
+                // Nested repositories refresh their parent's tree but don't own its sync header.
+                if (isSameOrInside(provider.getWorkspaceRoot(), repositoryPath)) {
+                    updateSyncHeader(provider, repository);
+                    // HEAD is missing until the Git extension has loaded the repository state.
+                    const head = repository?.state?.HEAD;
+                    if (head) {
+                        void provider.setActiveBranch(head.name);
                     }
+                    void provider.updateOperationContext();
+                }
+                log(`${reason} - scheduling assignment sync`, 'git');
+                provider.scheduleSyncAssignmentsWithGitStatus();
+            }
+        };
+        const subscribeToRepositoryState = (repository: Repository, reason: string) => {
+            const repositoryPath = repository?.rootUri?.fsPath;
+            refreshProvidersForRepository(repository, reason);
 
-                    return normalizedRepositoryPath === normalizedProviderPath
-                        || normalizedProviderPath.startsWith(`${normalizedRepositoryPath}${path.sep}`)
-                        || normalizedRepositoryPath.startsWith(`${normalizedProviderPath}${path.sep}`);
-                };
-                const subscribeToRepositoryState = (repository: any, reason: string) => {
-                    if (!gitFileGroupsProvider) {
-                        return;
-                    }
+            if (!repositoryPath || repositoryStateSubscriptions.has(repositoryPath) || !repository.state || typeof repository.state.onDidChange !== 'function') {
+                return;
+            }
 
-                    const repositoryPath = repository?.rootUri?.fsPath;
-                    if (!matchesProviderRepository(repositoryPath)) {
-                        return;
-                    }
+            const disposable = repository.state.onDidChange(() => {
+                refreshProvidersForRepository(repository, 'Repository state changed');
+            });
+            repositoryStateSubscriptions.set(repositoryPath, disposable);
+            context.subscriptions.push(disposable);
+        };
 
-                    updateSyncHeader(repository);
-                    scheduleAssignmentSync(reason);
+        /**
+         * Bring the set of providers in line with the open workspace folders and the repositories
+         * the Git extension has discovered: one provider per repository related to a folder, or
+         * per folder while Git has not reported a repository for it yet.
+         */
+        const reconcileProviders = (reason: string) => {
+            const folderPaths = (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+            const allRepositoryPaths: string[] = (gitApi?.repositories ?? [])
+                .map(repository => repository?.rootUri?.fsPath)
+                .filter((repositoryPath: unknown): repositoryPath is string => typeof repositoryPath === 'string' && repositoryPath.length > 0);
+            // Submodules and other nested repositories are shown inside their parent repository's tree.
+            const repositoryPaths = allRepositoryPaths.filter(repositoryPath => !allRepositoryPaths.some(other =>
+                other !== repositoryPath
+                && isSameOrInside(repositoryPath, other)
+                && folderPaths.some(folderPath => isSameOrInside(folderPath, other) || isSameOrInside(other, folderPath))
+            ));
+
+            const desired = new Map<string, { root: string; storageRoot: string }>();
+            for (const folderPath of folderPaths) {
+                const related = repositoryPaths.filter(repositoryPath => isSameOrInside(repositoryPath, folderPath) || isSameOrInside(folderPath, repositoryPath));
+                if (related.length === 0) {
+                    desired.set(WorkspaceTreeDataProvider.toProviderKey(folderPath), { root: folderPath, storageRoot: folderPath });
+                    continue;
+                }
 
-                    if (!repositoryPath || repositoryStateSubscriptions.has(repositoryPath) || !repository.state || typeof repository.state.onDidChange !== 'function') {
-                        return;
+                for (const repositoryPath of related) {
+                    const key = WorkspaceTreeDataProvider.toProviderKey(repositoryPath);
+                    if (!desired.has(key)) {
+                        // A folder opened inside a larger repository keeps its config in its own .vscode folder.
+                        const storageRoot = isSameOrInside(folderPath, repositoryPath) ? folderPath : repositoryPath;
+                        desired.set(key, { root: repositoryPath, storageRoot });
                     }
+                }
+            }
 
-                    const disposable = repository.state.onDidChange(() => {
-                        updateSyncHeader(repository);
-                        scheduleAssignmentSync('Repository state changed');
-                    });
-                    repositoryStateSubscriptions.set(repositoryPath, disposable);
-                    context.subscriptions.push(disposable);
-                };
-
-                log('Registering Tree Data Provider', 'lifecycle');
-                bootstrapProvider.attach(gitFileGroupsProvider);
-                gitFileGroupsProvider.setTreeView(treeView);
-                treeView.message = undefined;
-                updateSyncHeader(undefined);
-
-                context.subscriptions.push(gitFileGroupsProvider);
-
-                const documentChangeDisposable = vscode.workspace.onDidChangeTextDocument((event) => {
-                    if (!gitFileGroupsProvider || event.contentChanges.length === 0) {
-                        return;
-                    }
+            for (const provider of workspaceTreeDataProvider.getProviders()) {
+                if (!desired.has(WorkspaceTreeDataProvider.toProviderKey(provider.getWorkspaceRoot()))) {
+                    log(`${reason} - removing repository ${provider.getWorkspaceRoot()}`, 'lifecycle');
+                    workspaceTreeDataProvider.detach(provider);
+                    provider.dispose();
+                }
+            }
 
-                    const documentUri = event.document.uri;
-                    if (documentUri.scheme !== 'file') {
-                        return;
-                    }
+            for (const { root, storageRoot } of desired.values()) {
+                if (workspaceTreeDataProvider.getProvider(root)) {
+                    continue;
+                }
 
-                    const workspaceRootNormalized = path.normalize(gitFileGroupsProvider.getWorkspaceRoot()).toLowerCase();
-                    const documentPathNormalized = path.normalize(documentUri.fsPath).toLowerCase();
-                    if (!documentPathNormalized.startsWith(workspaceRootNormalized)) {
-                        return;
-                    }
+                log(`${reason} - creating GitFileGroupsProvider for ${root}`, 'lifecycle');
+                try {
+                    const provider = new GitFileGroupsProvider(root, context.globalState, storageRoot);
+                    workspaceTreeDataProvider.attach(provider);
+                    updateSyncHeader(provider, undefined);
+                } catch (error) {
+                    log(`Failed to initialize Git File Groups for ${root}: ${error}`, 'lifecycle');
+                    void vscode.window.showErrorMessage('Git File Groups failed to initialize. Check the extension output for details.');
+                }
+            }
 
-                    void gitFileGroupsProvider.assignDefaultGroupToEditedFiles([documentUri], true).catch(error => {
-                        log(`Default-group assignment after document edit failed: ${error}`, 'git');
-                    });
-                });
-                context.subscriptions.push(documentChangeDisposable);
+            for (const repository of gitApi?.repositories ?? []) {
+                subscribeToRepositoryState(repository, reason);
+            }
+        };
 
-                const fileCreateDisposable = vscode.workspace.onDidCreateFiles((event) => {
-                    if (!gitFileGroupsProvider || event.files.length === 0) {
-                        return;
-                    }
+        context.subscriptions.push(new vscode.Disposable(() => {
+            for (const provider of workspaceTreeDataProvider.getProviders()) {
+                provider.dispose();
+            }
+        }));
 
-                    const workspaceRootNormalized = path.normalize(gitFileGroupsProvider.getWorkspaceRoot()).toLowerCase();
-                    const fileUris = event.files.filter(fileUri => {
-                        if (fileUri.scheme !== 'file') {
-                            return false;
-                        }
+        const documentChangeDisposable = vscode.workspace.onDidChangeTextDocument((event) => {
+            if (event.contentChanges.length === 0 || event.document.uri.scheme !== 'file') {
+                return;
+            }
 
-                        const filePathNormalized = path.normalize(fileUri.fsPath).toLowerCase();
-                        return filePathNormalized.startsWith(workspaceRootNormalized);
-                    });
+            const documentUri = event.document.uri;
+            const provider = workspaceTreeDataProvider.getProviderForUri(documentUri);
+            if (!provider) {
+                return;
+            }
 
-                    if (fileUris.length === 0) {
-                        return;
-                    }
+            void provider.assignDefaultGroupToEditedFiles([documentUri], true).catch(error => {
+                log(`Default-group assignment after document edit failed: ${error}`, 'git');
+            });
+        });
+        context.subscriptions.push(documentChangeDisposable);
+
+        const fileCreateDisposable = vscode.workspace.onDidCreateFiles((event) => {
+            const urisByProvider = new Map<GitFileGroupsProvider, vscode.Uri[]>();
+            for (const fileUri of event.files) {
+                const provider = fileUri.scheme === 'file' ? workspaceTreeDataProvider.getProviderForUri(fileUri) : undefined;
+                if (provider) {
+                    urisByProvider.set(provider, [...(urisByProvider.get(provider) ?? []), fileUri]);
+                }
+            }
 
-                    void gitFileGroupsProvider.assignDefaultGroupToEditedFiles(fileUris, true).catch(error => {
-                        log(`Default-group assignment after file creation failed: ${error}`, 'git');
-                    });
+            for (const [provider, fileUris] of urisByProvider) {
+                void provider.assignDefaultGroupToEditedFiles(fileUris, true).catch(error => {
+                    log(`Default-group assignment after file creation failed: ${error}`, 'git');
                 });
-                context.subscriptions.push(fileCreateDisposable);
-
-                const configureGitIntegration = async (): Promise<void> => {
-                    const gitExtension = vscode.extensions.getExtension('vscode.git');
-                    if (!gitExtension) {
-                        log('Git extension not available', 'git');
-                        return;
+            }
+        });
+        context.subscriptions.push(fileCreateDisposable);
+
+        // Without the Git extension nothing reports repository changes, so watch the files git
+        // rewrites when the index, HEAD or a branch changes and let the CLI backend re-read them.
+        const watchRepositoriesWithoutGitExtension = () => {
+            const changedRoots = new Set<string>();
+            let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+            const onGitFileChanged = (uri: vscode.Uri) => {
+                changedRoots.add(uri.fsPath.split(`${path.sep}.git${path.sep}`)[0]);
+                if (refreshTimer) {
+                    clearTimeout(refreshTimer);
+                }
+                refreshTimer = setTimeout(() => {
+                    refreshTimer = undefined;
+                    const providers = new Set(Array.from(changedRoots).flatMap(root => providersForRepository(root)));
+                    changedRoots.clear();
+                    for (const provider of providers) {
+                        void provider.refreshRepositoryState().catch(error => {
+                            log(`Refreshing repository state failed: ${error}`, 'git');
+                        });
                     }
+                }, 300);
+            };
 
-                    if (!gitExtension.isActive) {
-                        await gitExtension.activate();
+            const watcher = vscode.workspace.createFileSystemWatcher('**/.git/{index,HEAD,refs/**}');
+            context.subscriptions.push(
+                watcher,
+                watcher.onDidChange(onGitFileChanged),
+                watcher.onDidCreate(onGitFileChanged),
+                watcher.onDidDelete(onGitFileChanged),
+                new vscode.Disposable(() => {
+                    if (refreshTimer) {
+                        clearTimeout(refreshTimer);
                     }
+                })
+            );
 
-                    const api = gitExtension.exports.getAPI(1);
-                    const currentProvider = gitFileGroupsProvider;
-                    if (!currentProvider) {
-                        return;
-                    }
+            reconcileProviders('Git extension unavailable');
+            for (const provider of workspaceTreeDataProvider.getProviders()) {
+                void provider.refreshRepositoryState().catch(error => {
+                    log(`Refreshing repository state failed: ${error}`, 'git');
+                });
+            }
+        };
 
-                    for (const repository of api.repositories || []) {
-                        subscribeToRepositoryState(repository, 'Git integration configured');
-                    }
+        const configureGitIntegration = async (): Promise<void> => {
+            const gitExtension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+            if (!gitExtension) {
+                log('Git extension not available, falling back to the git CLI', 'git');
+                watchRepositoriesWithoutGitExtension();
+                return;
+            }
 
-                    if (typeof api.onDidOpenRepository === 'function') {
-                        const openRepositoryDisposable = api.onDidOpenRepository((repository: any) => {
-                            subscribeToRepositoryState(repository, 'Repository opened');
-                        });
-                        context.subscriptions.push(openRepositoryDisposable);
-                    }
+            if (!gitExtension.isActive) {
+                await gitExtension.activate();
+            }
 
-                    if (typeof api.onDidChangeState === 'function') {
-                        const gitStateDisposable = api.onDidChangeState(() => {
-                            for (const repository of api.repositories || []) {
-                                subscribeToRepositoryState(repository, 'Git state changed');
-                            }
-                        });
-                        context.subscriptions.push(gitStateDisposable);
-                    }
+            if (gitExtension.exports?.enabled === false) {
+                log('Git extension disabled, falling back to the git CLI', 'git');
+                watchRepositoriesWithoutGitExtension();
+                return;
+            }
+
+            const api = gitExtension.exports.getAPI(1);
+            gitApi = api;
+            reconcileProviders('Git integration configured');
 
-                    for (let attempt = 0; attempt < 20; attempt += 1) {
-                        const matchingRepository = (api.repositories || []).find((repository: any) => matchesProviderRepository(repository?.rootUri?.fsPath));
-                        if (matchingRepository) {
-                            subscribeToRepositoryState(matchingRepository, attempt === 0 ? 'Matching repository already available' : `Matching repository detected on retry ${attempt}`);
-                            return;
-                        }
+            if (typeof api.onDidOpenRepository === 'function') {
+                const openRepositoryDisposable = api.onDidOpenRepository(() => {
+                    reconcileProviders('Repository opened');
+                });
+                context.subscriptions.push(openRepositoryDisposable);
+            }
 
-                        await new Promise(r => setTimeout(r, 200));
+            if (typeof api.onDidCloseRepository === 'function') {
+                const closeRepositoryDisposable = api.onDidCloseRepository(repository => {
+                    const repositoryPath = repository?.rootUri?.fsPath;
+                    if (repositoryPath) {
+                        repositoryStateSubscriptions.get(repositoryPath)?.dispose();
+                        repositoryStateSubscriptions.delete(repositoryPath);
                     }
+                    reconcileProviders('Repository closed');
+                });
+                context.subscriptions.push(closeRepositoryDisposable);
+            }
 
-                    log(`Git repositories not yet matched to workspace ${currentProvider.getWorkspaceRoot()} during startup`, 'git');
-                };
-
-                configureGitIntegration().catch((e) => {
-                    log(`Failed to configure Git integration: ${e}`, 'git');
+            if (typeof api.onDidChangeState === 'function') {
+                const gitStateDisposable = api.onDidChangeState(() => {
+                    reconcileProviders('Git state changed');
                 });
-            } catch (error) {
-                gitFileGroupsProvider = undefined;
-                log(`Failed to initialize Git File Groups for workspace ${workspaceRoot}: ${error}`, 'lifecycle');
-                void vscode.window.showErrorMessage('Git File Groups failed to initialize. Check the extension output for details.');
+                context.subscriptions.push(gitStateDisposable);
+            }
+
+            // The Git extension can report repositories a little after activation.
+            for (let attempt = 0; attempt < 20; attempt += 1) {
+                const folderPaths = (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+                const allFoldersMatched = folderPaths.every(folderPath => (api.repositories || []).some(repository => {
+                    const repositoryPath = repository?.rootUri?.fsPath;
+                    return isSameOrInside(repositoryPath, folderPath) || isSameOrInside(folderPath, repositoryPath);
+                }));
+                if (folderPaths.length > 0 && allFoldersMatched) {
+                    reconcileProviders(attempt === 0 ? 'Matching repositories already available' : `Matching repositories detected on retry ${attempt}`);
+                    return;
+                }
+
+                await new Promise(r => setTimeout(r, 200));
             }
+
+            reconcileProviders('Git repository discovery finished');
+            log('Git repositories not matched to every workspace folder during startup', 'git');
         };
 
         const tryInitializeFromCurrentWorkspace = (): boolean => {
-            const folder = vscode.workspace.workspaceFolders?.[0];
-            const workspaceRoot = folder?.uri.fsPath;
-            if (!workspaceRoot) {
+            if (!vscode.workspace.workspaceFolders?.length) {
                 return false;
             }
 
@@ -310,12 +431,12 @@ export function activate(context: vscode.ExtensionContext) {
                 workspaceInitializationTimer = undefined;
             }
 
-            initializeForWorkspace(workspaceRoot);
+            reconcileProviders('Workspace folders available');
             return true;
         };
 
         const scheduleWorkspaceInitializationRetry = (attempt: number = 0) => {
-            if (gitFileGroupsProvider || workspaceInitializationTimer || attempt >= 20) {
+            if (workspaceTreeDataProvider.getProviders().length > 0 || workspaceInitializationTimer || attempt >= 20) {
                 return;
             }
 
@@ -328,22 +449,9 @@ export function activate(context: vscode.ExtensionContext) {
             }, 250);
         };
 
-        // If a workspace is already open, initialize immediately. Otherwise listen for folders.
-        if (tryInitializeFromCurrentWorkspace()) {
-            return;
-        }
-
-        scheduleWorkspaceInitializationRetry();
-
-        // No workspace open — listen for workspace folder additions and initialize then.
-        const folderDisposable = vscode.workspace.onDidChangeWorkspaceFolders((e) => {
-            if (gitFileGroupsProvider || !vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
-                return;
-            }
-
-            if (tryInitializeFromCurrentWorkspace()) {
-                folderDisposable.dispose();
-            }
+        // Folders added or removed later add or remove their repository trees live.
+        const folderDisposable = vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            reconcileProviders('Workspace folders changed');
         });
         context.subscriptions.push(folderDisposable);
         context.subscriptions.push(new vscode.Disposable(() => {
@@ -352,26 +460,75 @@ export function activate(context: vscode.ExtensionContext) {
                 workspaceInitializationTimer = undefined;
             }
         }));
+
+        // If a workspace is already open, initialize immediately. Otherwise retry briefly.
+        if (!tryInitializeFromCurrentWorkspace()) {
+            scheduleWorkspaceInitializationRetry();
+        }
+
+        configureGitIntegration().catch((e) => {
+            log(`Failed to configure Git integration: ${e}`, 'git');
+        });
     } catch (error) {
         log(`Activation failed before initialization completed: ${error}`, 'lifecycle');
         void vscode.window.showErrorMessage('Git File Groups failed to activate completely. Check the extension output for details.');
     }
 }
 
-function registerCommands(getProvider: () => GitFileGroupsProvider | undefined, context: vscode.ExtensionContext) {
-    const runWithProvider = async <T>(action: (provider: GitFileGroupsProvider) => Promise<T> | T): Promise<T | undefined> => {
-        const gitFileGroupsProvider = getProvider();
-        if (!gitFileGroupsProvider) {
+/**
+ * The file a command was invoked on. File nodes keep the real file in `fileUri`; their
+ * `resourceUri` carries the change decoration.
+ */
+function toFileUri(arg: vscode.Uri | vscode.TreeItem | undefined): vscode.Uri | undefined {
+    if (arg instanceof vscode.Uri) {
+        return arg;
+    }
+
+    return arg instanceof FileNode ? arg.fileUri : arg?.resourceUri;
+}
+
+function registerCommands(workspaceTreeDataProvider: WorkspaceTreeDataProvider, context: vscode.ExtensionContext) {
+    /**
+     * Run a command against the repository owning `target`; without a target the user picks
+     * a repository when more than one is open.
+     */
+    const runWithProvider = async <T>(
+        action: (provider: GitFileGroupsProvider) => Promise<T> | T,
+        target?: vscode.TreeItem | vscode.Uri,
+        title: string = 'Git File Groups'
+    ): Promise<T | undefined> => {
+        if (workspaceTreeDataProvider.getProviders().length === 0) {
             log('Command invoked before provider initialization completed', 'lifecycle');
             void vscode.window.showWarningMessage('Git File Groups is still initializing. Try again in a moment.');
             return undefined;
         }
 
+        const gitFileGroupsProvider = target
+            ? workspaceTreeDataProvider.getProviderForItem(target)
+            : await workspaceTreeDataProvider.pickProvider(title);
+        if (!gitFileGroupsProvider) {
+            log('No repository resolved for command', 'lifecycle');
+            return undefined;
+        }
+
         return action(gitFileGroupsProvider);
     };
 
+    const runWithAllProviders = async (action: (provider: GitFileGroupsProvider) => Promise<void> | void): Promise<void> => {
+        const providers = workspaceTreeDataProvider.getProviders();
+        if (providers.length === 0) {
+            log('Command invoked before provider initialization completed', 'lifecycle');
+            void vscode.window.showWarningMessage('Git File Groups is still initializing. Try again in a moment.');
+            return;
+        }
+
+        for (const provider of providers) {
+            await action(provider);
+        }
+    };
+
     let disposable = vscode.commands.registerCommand('git-file-groups.refreshGroup', () => {
-        return runWithProvider((gitFileGroupsProvider) => {
+        return runWithAllProviders((gitFileGroupsProvider) => {
             log('Refresh command triggered', 'view');
             gitFileGroupsProvider.refresh();
         });
@@ -389,7 +546,7 @@ function registerCommands(getProvider: () => GitFileGroupsProvider | undefined,
         }
 
         await gitFileGroupsProvider.addGroup(name);
-        });
+        }, undefined, 'Create Group');
     });
 
     let renameGroupCommand = vscode.commands.registerCommand('git-file-groups.renameGroup', async (groupNode: GroupNode) => {
@@ -410,7 +567,26 @@ function registerCommands(getProvider: () => GitFileGroupsProvider | undefined,
         }
 
         await gitFileGroupsProvider.renameGroup(oldName, newName);
+        }, groupNode);
+    });
+
+    let editGroupNotesCommand = vscode.commands.registerCommand('git-file-groups.editGroupNotes', async (groupNode: GroupNode) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+        if (!groupNode || !groupNode.groupName) {
+            return;
+        }
+
+        const notes = await vscode.window.showInputBox({
+            prompt: `Notes for group '${groupNode.groupName}', available as $notes in commit templates`,
+            value: await gitFileGroupsProvider.getGroupNotes(groupNode.groupName) ?? '',
+            placeHolder: 'Leave empty to remove the notes'
         });
+        if (typeof notes !== 'string') {
+            return;
+        }
+
+        await gitFileGroupsProvider.setGroupNotes(groupNode.groupName, notes);
+        }, groupNode);
     });
 
     let commitGroupCommand = vscode.commands.registerCommand('git-file-groups.commitGroup', async (groupNode: GroupNode) => {
@@ -426,7 +602,7 @@ function registerCommands(getProvider: () => GitFileGroupsProvider | undefined,
         } catch (err) {
             log(`commitGroup handler failed: ${err}`, 'view');
         }
-        });
+        }, groupNode);
     });
 
     let deleteGroupCommand = vscode.commands.registerCommand('git-file-groups.deleteGroup', async (groupNode: GroupNode) => {
@@ -448,7 +624,7 @@ function registerCommands(getProvider: () => GitFileGroupsProvider | undefined,
         if (confirmed === 'Delete') {
             await gitFileGroupsProvider.deleteGroup(groupNode.groupName);
         }
-        });
+        }, groupNode);
     });
 
     let setDefaultGroupCommand = vscode.commands.registerCommand('git-file-groups.setDefaultGroup', async (groupNode: GroupNode) => {
@@ -458,7 +634,7 @@ function registerCommands(getProvider: () => GitFileGroupsProvider | undefined,
         }
 
         await gitFileGroupsProvider.setDefaultGroup(groupNode.groupName);
-        });
+        }, groupNode);
     });
 
     let openLinkCommand = vscode.commands.registerCommand('git-file-groups.openLink', async (url: string) => {
@@ -485,79 +661,71 @@ function registerCommands(getProvider: () => GitFileGroupsProvider | undefined,
             syncToRemote: gitFileGroupsProvider.getautoSyncEnabled(),
             onSyncToRemoteChanged: async (enabled: boolean) => {
                 await gitFileGroupsProvider.setautoSyncEnabled(enabled);
-            }
+            },
+            useEditor: gitFileGroupsProvider.getCommitEditorEnabled(),
+            onUseEditorChanged: async (enabled: boolean) => {
+                await gitFileGroupsProvider.setCommitEditorEnabled(enabled);
+            },
+            conventional: await gitFileGroupsProvider.getConventionalCommitsConfig(),
+            commitOptions: gitFileGroupsProvider.getCommitOptionDefaults(),
+            onCommitOptionsChanged: async (options) => {
+                await gitFileGroupsProvider.setCommitOptionDefaults(options);
+            },
+            getAmendMessage: () => gitFileGroupsProvider.getCommitMessage('HEAD')
         });
 
-        if (!commitInput) {
+        if (!commitInput || (commitInput.commitOptions.amend && !await gitFileGroupsProvider.confirmAmendOfPushedCommit(gitFileGroupsProvider.getWorkspaceRoot()))) {
             return;
         }
 
         const stagedUris = await gitFileGroupsProvider.stageAllChanges();
 
         try {
-            const gitExtension = vscode.extensions.getExtension('vscode.git');
-            if (gitExtension && gitExtension.isActive) {
-                const api = gitExtension.exports.getAPI(1);
-                const repository = api.repositories.find((repo: any) => {
-                    const repoPath = repo.rootUri?.fsPath;
-                    return repoPath && path.normalize(gitFileGroupsProvider.getWorkspaceRoot()).toLowerCase() === path.normalize(repoPath).toLowerCase();
-                });
-                if (repository) {
-                    await repository.commit(commitInput.message);
-                    log(`Committed with message: ${commitInput.message}`, 'git');
-                    await gitFileGroupsProvider.syncAssignmentsAfterGitOperation(stagedUris, true);
-
-                    if (commitInput.syncToRemote) {
-                        const synced = await gitFileGroupsProvider.syncRepositoryToRemote(repository);
-                        if (!synced) {
-                            vscode.window.showWarningMessage('Commit completed, but Git sync to the remote did not run successfully.');
-                        }
-                    }
+            const git = await gitFileGroupsProvider.getGitBackend();
+            const repositoryRoot = gitFileGroupsProvider.getWorkspaceRoot();
+            await git.commit(repositoryRoot, commitInput.message, commitInput.commitOptions);
+            log(`Committed${commitInput.commitOptions.amend ? ' (amend)' : ''} with message: ${commitInput.message}`, 'git');
+            await gitFileGroupsProvider.syncAssignmentsAfterGitOperation(stagedUris, true);
+
+            if (commitInput.syncToRemote) {
+                const synced = await gitFileGroupsProvider.syncRepositoryToRemote(repositoryRoot);
+                if (!synced) {
+                    vscode.window.showWarningMessage('Commit completed, but Git sync to the remote did not run successfully.');
                 }
             }
         } catch (error) {
             log(`Direct commit failed: ${error}`, 'git');
             vscode.window.showErrorMessage(getGitCommitErrorMessage(error));
         }
-        });
+        }, undefined, 'Commit Changes');
     });
 
-    let syncRepositoryCommand = vscode.commands.registerCommand('git-file-groups.syncRepository', async () => {
+    let commitAllGroupsCommand = vscode.commands.registerCommand('git-file-groups.commitAllGroups', async () => {
         return runWithProvider(async (gitFileGroupsProvider) => {
         try {
-            const gitExtension = vscode.extensions.getExtension('vscode.git');
-            if (!gitExtension) {
-                vscode.window.showErrorMessage('Git extension not available');
-                return;
-            }
-
-            if (!gitExtension.isActive) {
-                await gitExtension.activate();
-            }
-
-            const api = gitExtension.exports.getAPI(1);
-            const repository = api.repositories.find((repo: any) => {
-                const repoPath = repo.rootUri?.fsPath;
-                return repoPath && path.normalize(gitFileGroupsProvider.getWorkspaceRoot()).toLowerCase() === path.normalize(repoPath).toLowerCase();
-            });
-
-            if (!repository) {
-                vscode.window.showErrorMessage('Repository not found for workspace');
-                return;
-            }
+            await gitFileGroupsProvider.commitAllGroups();
+        } catch (err) {
+            log(`commitAllGroups handler failed: ${err}`, 'view');
+            vscode.window.showErrorMessage(`Commit All Groups failed: ${err instanceof Error ? err.message : String(err)}`);
+        }
+        }, undefined, 'Commit All Groups');
+    });
 
-            const synced = await gitFileGroupsProvider.syncRepositoryToRemote(repository);
+    let syncRepositoryCommand = vscode.commands.registerCommand('git-file-groups.syncRepository', async () => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+        try {
+            const synced = await gitFileGroupsProvider.syncRepositoryToRemote(gitFileGroupsProvider.getWorkspaceRoot());
             if (!synced) {
                 vscode.window.showWarningMessage('Git sync to the remote did not run successfully.');
             }
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to sync repository: ${error}`);
         }
-        });
+        }, undefined, 'Sync Changes');
     });
 
     let openDiffCommand = vscode.commands.registerCommand('git-file-groups.openDiff', async (arg: vscode.Uri | vscode.TreeItem | undefined) => {
-        const resourceUri = arg instanceof vscode.Uri ? arg : arg?.resourceUri;
+        const resourceUri = toFileUri(arg);
         log(`Open diff command triggered! Arg: ${JSON.stringify(arg)}, ResourceUri: ${resourceUri}`, 'view');
 
         if (!resourceUri) {
@@ -583,7 +751,7 @@ function registerCommands(getProvider: () => GitFileGroupsProvider | undefined,
     });
 
     let openFileCommand = vscode.commands.registerCommand('git-file-groups.openFile', async (arg: vscode.Uri | vscode.TreeItem | undefined) => {
-        const resourceUri = arg instanceof vscode.Uri ? arg : arg?.resourceUri;
+        const resourceUri = toFileUri(arg);
         log(`Open file command triggered! Arg: ${JSON.stringify(arg)}, ResourceUri: ${resourceUri}`, 'view');
 
         if (!resourceUri) {
@@ -614,7 +782,7 @@ function registerCommands(getProvider: () => GitFileGroupsProvider | undefined,
 
     let renameFileCommand = vscode.commands.registerCommand('git-file-groups.renameFile', async (arg: vscode.Uri | vscode.TreeItem | undefined) => {
         return runWithProvider(async (gitFileGroupsProvider) => {
-        const resourceUri = arg instanceof vscode.Uri ? arg : arg instanceof vscode.TreeItem ? arg.resourceUri : undefined;
+        const resourceUri = toFileUri(arg);
         if (!resourceUri) return;
 
         const oldFs = resourceUri.fsPath;
@@ -647,12 +815,12 @@ function registerCommands(getProvider: () => GitFileGroupsProvider | undefined,
             // ignore provider update errors but refresh view
             try { gitFileGroupsProvider.refresh(); } catch { }
         }
-        });
+        }, arg);
     });
 
     let discardChangeCommand = vscode.commands.registerCommand('git-file-groups.discardChange', async (arg: vscode.Uri | vscode.TreeItem | undefined) => {
         return runWithProvider(async (gitFileGroupsProvider) => {
-        const resourceUri = arg instanceof vscode.Uri ? arg : arg instanceof vscode.TreeItem ? arg.resourceUri : undefined;
+        const resourceUri = toFileUri(arg);
         if (!resourceUri) return;
 
         const fileName = resourceUri.fsPath.split(/[\/]/).pop() || resourceUri.fsPath;
@@ -669,161 +837,457 @@ function registerCommands(getProvider: () => GitFileGroupsProvider | undefined,
         vscode.window.setStatusBarMessage(`Git File Groups: confirmed discard for ${fileName}`, 2500);
 
         try {
-            const gitExtension = vscode.extensions.getExtension('vscode.git');
-            if (!gitExtension) {
-                log('[discardChange] vscode.git extension not found', 'git-discard');
-                vscode.window.showErrorMessage('Git extension not available');
+            const git = await gitFileGroupsProvider.getGitBackend();
+            const repositoryRoot = await git.findRepositoryRoot(resourceUri.fsPath);
+            if (!repositoryRoot) {
+                log('[discardChange] repository not found for file', 'git-discard');
+                vscode.window.showErrorMessage('Repository not found for file');
                 return;
             }
-            log(`[discardChange] vscode.git extension found; active=${gitExtension.isActive}`, 'git-discard');
-            if (!gitExtension.isActive) {
-                log('[discardChange] activating vscode.git extension', 'git-discard');
-                vscode.window.setStatusBarMessage('Git File Groups: activating Git extension...', 2500);
-                await gitExtension.activate();
+
+            log(`[discardChange] discarding in ${repositoryRoot} via the ${git.name} backend`, 'git-discard');
+            try {
+                await git.discard(repositoryRoot, [resourceUri.fsPath]);
+            } catch (error) {
+                log(`[discardChange] discard failed for ${resourceUri.fsPath}: ${error}`, 'git-discard');
+                vscode.window.showErrorMessage(`Failed to discard changes to ${fileName}`);
+                return;
             }
-            const api = gitExtension.exports.getAPI(1);
-            log(`[discardChange] Git API repositories: ${api.repositories?.length ?? 0}`, 'git-discard');
-            const repository = api.repositories.find((repo: any) => {
-                const repoPath = repo.rootUri?.fsPath;
-                return repoPath && path.normalize(repoPath).toLowerCase() === path.normalize(gitFileGroupsProvider.getWorkspaceRoot()).toLowerCase();
+
+            vscode.window.showInformationMessage(`Discarded changes to ${fileName}`);
+            await gitFileGroupsProvider.syncAssignmentsAfterGitOperation([resourceUri], true);
+        } catch (e) {
+            vscode.window.showErrorMessage(`Failed to discard changes: ${e}`);
+        }
+        }, arg);
+    });
+
+    let stageFileCommand = vscode.commands.registerCommand('git-file-groups.stageFile', async (arg: vscode.Uri | vscode.TreeItem | undefined) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+        const resourceUri = toFileUri(arg);
+        if (!resourceUri) {
+            return;
+        }
+
+        // A split file stages only the hunks of the group it was clicked in.
+        await gitFileGroupsProvider.stageFile(resourceUri, arg instanceof FileNode ? arg.groupName : undefined);
+        }, arg);
+    });
+
+    let unstageFileCommand = vscode.commands.registerCommand('git-file-groups.unstageFile', async (arg: vscode.Uri | vscode.TreeItem | undefined) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+        const resourceUri = toFileUri(arg);
+        if (!resourceUri) {
+            return;
+        }
+
+        await gitFileGroupsProvider.unstageFile(resourceUri);
+        }, arg);
+    });
+
+    let stageGroupCommand = vscode.commands.registerCommand('git-file-groups.stageGroup', async (groupNode: GroupNode) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+        if (!groupNode || !groupNode.groupName) {
+            return;
+        }
+
+        await gitFileGroupsProvider.stageGroup(groupNode.groupName);
+        }, groupNode);
+    });
+
+    let unstageGroupCommand = vscode.commands.registerCommand('git-file-groups.unstageGroup', async (groupNode: GroupNode) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+        if (!groupNode || !groupNode.groupName) {
+            return;
+        }
+
+        await gitFileGroupsProvider.unstageGroup(groupNode.groupName);
+        }, groupNode);
+    });
+
+    let splitFileHunksCommand = vscode.commands.registerCommand('git-file-groups.splitFileHunks', async (arg: vscode.Uri | vscode.TreeItem | undefined) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+        const resourceUri = toFileUri(arg);
+        if (!resourceUri) {
+            return;
+        }
+
+        const hunks = await gitFileGroupsProvider.getFileHunks(resourceUri);
+        if (hunks.length < 2) {
+            vscode.window.showInformationMessage(`${path.basename(resourceUri.fsPath)} has no separate hunks to split.`);
+            return;
+        }
+
+        const pickedHunks = await vscode.window.showQuickPick(
+            hunks.map(hunk => ({
+                label: hunk.label,
+                description: hunk.groupName,
+                detail: hunk.detail,
+                fingerprint: hunk.fingerprint
+            })),
+            {
+                title: `Split ${path.basename(resourceUri.fsPath)}: pick hunks to move`,
+                canPickMany: true
+            }
+        );
+        if (!pickedHunks || pickedHunks.length === 0) {
+            return;
+        }
+
+        const targetGroupName = await vscode.window.showQuickPick(gitFileGroupsProvider.getKnownGroupNames(), {
+            title: `Move ${pickedHunks.length} hunk(s) to group`
+        });
+        if (!targetGroupName) {
+            return;
+        }
+
+        await gitFileGroupsProvider.moveHunksToGroup(resourceUri, pickedHunks.map(hunk => hunk.fingerprint), targetGroupName);
+        }, arg);
+    });
+
+    let moveHunkToGroupCommand = vscode.commands.registerCommand('git-file-groups.moveHunkToGroup', async (hunkNode: HunkNode) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+        if (!(hunkNode instanceof HunkNode)) {
+            return;
+        }
+
+        const targetGroupName = await vscode.window.showQuickPick(
+            gitFileGroupsProvider.getKnownGroupNames().filter(groupName => groupName !== hunkNode.groupName),
+            { title: 'Move hunk to group' }
+        );
+        if (!targetGroupName) {
+            return;
+        }
+
+        await gitFileGroupsProvider.moveHunksToGroup(hunkNode.fileUri, [hunkNode.fingerprint], targetGroupName);
+        }, hunkNode);
+    });
+
+    let shelveGroupCommand = vscode.commands.registerCommand('git-file-groups.shelveGroup', async (groupNode: GroupNode) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+        if (!groupNode || !groupNode.groupName) {
+            return;
+        }
+
+        await gitFileGroupsProvider.shelveGroup(groupNode.groupName);
+        }, groupNode);
+    });
+
+    let unshelveGroupCommand = vscode.commands.registerCommand('git-file-groups.unshelveGroup', async (shelvedItem: ShelvedGroupItem) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+        if (!(shelvedItem instanceof ShelvedGroupItem)) {
+            return;
+        }
+
+        await gitFileGroupsProvider.unshelveGroup(shelvedItem.shelved.stash);
+        }, shelvedItem);
+    });
+
+    let previewShelvedGroupCommand = vscode.commands.registerCommand('git-file-groups.previewShelvedGroup', async (shelvedItem: ShelvedGroupItem) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+        if (!(shelvedItem instanceof ShelvedGroupItem)) {
+            return;
+        }
+
+        const diff = await gitFileGroupsProvider.getShelvedGroupDiff(shelvedItem.shelved.stash);
+        if (diff === undefined) {
+            vscode.window.showWarningMessage(`The stash for shelved group '${shelvedItem.shelved.group}' no longer exists.`);
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument({ content: diff, language: 'diff' });
+        await vscode.window.showTextDocument(document, { preview: true });
+        }, shelvedItem);
+    });
+
+    let dropShelvedGroupCommand = vscode.commands.registerCommand('git-file-groups.dropShelvedGroup', async (shelvedItem: ShelvedGroupItem) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+        if (!(shelvedItem instanceof ShelvedGroupItem)) {
+            return;
+        }
+
+        const confirmed = await vscode.window.showWarningMessage(
+            `Drop shelved group "${shelvedItem.shelved.group}"? Its stashed changes will be discarded.`,
+            { modal: true },
+            'Drop'
+        );
+
+        if (confirmed === 'Drop') {
+            await gitFileGroupsProvider.dropShelvedGroup(shelvedItem.shelved.stash);
+        }
+        }, shelvedItem);
+    });
+
+    let moveGroupToBranchCommand = vscode.commands.registerCommand('git-file-groups.moveGroupToBranch', async (groupNode: GroupNode) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+        if (!groupNode || !groupNode.groupName) {
+            return;
+        }
+
+        const groupName = groupNode.groupName;
+        const suggestedBranch = groupName.toLowerCase().replace(/[^a-z0-9._/-]+/g, '-').replace(/^-+|-+$/g, '') || 'group';
+        const branchName = await vscode.window.showInputBox({
+            title: `Move Group to Branch: ${groupName}`,
+            prompt: 'Name of the new branch',
+            value: suggestedBranch
+        });
+        if (!branchName || !branchName.trim()) {
+            return;
+        }
+
+        const mode = await vscode.window.showQuickPick([
+            { label: '$(folder-opened) New worktree folder', detail: 'Check the branch out in a separate folder that receives the group\'s changes and definition', worktree: true },
+            { label: '$(git-branch) Branch only', detail: 'Commit the group\'s changes onto the new branch and remove them here', worktree: false }
+        ], { title: `Move Group to Branch: ${groupName}` });
+        if (!mode) {
+            return;
+        }
+
+        let worktreePath: string | undefined;
+        if (mode.worktree) {
+            const repositoryRoot = gitFileGroupsProvider.getWorkspaceRoot();
+            worktreePath = await vscode.window.showInputBox({
+                title: `Move Group to Branch: ${groupName}`,
+                prompt: 'Folder for the new worktree',
+                value: path.join(path.dirname(repositoryRoot), `${path.basename(repositoryRoot)}-${branchName.trim().replace(/\//g, '-')}`)
             });
-            if (!repository) {
-                log('[discardChange] repository not found for workspace root', 'git-discard');
-                vscode.window.showErrorMessage('Repository not found for file');
+            if (!worktreePath || !worktreePath.trim()) {
                 return;
             }
+            worktreePath = path.resolve(gitFileGroupsProvider.getWorkspaceRoot(), worktreePath.trim());
+        }
 
-            log(`[discardChange] repository found at ${repository.rootUri?.fsPath}`, 'git-discard');
-            vscode.window.setStatusBarMessage(`Git File Groups: running discard for ${fileName}`, 2500);
+        const moved = await gitFileGroupsProvider.moveGroupToBranch(groupName, branchName.trim(), worktreePath);
+        if (!moved) {
+            return;
+        }
 
-            // Determine whether the change appears untracked
-            const state = repository.state;
-            const changes = (state?.workingTreeChanges || []).concat(state?.indexChanges || []);
-            const match = changes.find((c: any) => {
-                const p = c?.resourceUri?.fsPath ?? c?.uri?.fsPath ?? c?.path;
-                if (!p) return false;
-                try { return path.normalize(p).toLowerCase() === path.normalize(resourceUri.fsPath).toLowerCase(); } catch { return false; }
-            });
+        if (worktreePath) {
+            const choice = await vscode.window.showInformationMessage(`Moved group '${groupName}' to branch '${branchName.trim()}' in ${worktreePath}.`, 'Open Worktree');
+            if (choice === 'Open Worktree') {
+                await vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(worktreePath), { forceNewWindow: true });
+            }
+            return;
+        }
 
-            let isUntracked = false;
-            if (match) {
-                try {
-                    const repr = JSON.stringify(match).toLowerCase();
-                    isUntracked = repr.includes('untracked') || (typeof match.status === 'number' && match.status === 7);
-                } catch { isUntracked = false; }
-            }
-
-            // Use the Git extension repository API directly with defensive fallbacks.
-            const callRepositoryMethodWithFallback = async (methodName: 'clean' | 'revert') => {
-                log(`[discardChange] trying repository.${methodName} fallbacks`, 'git-discard');
-                // Try the most-compatible shapes first: filesystem path string, then Uri, then a stringified Uri.
-                const attempts: any[][] = [[resourceUri.fsPath], [resourceUri], [resourceUri.toString()]];
-                if (match) {
-                    attempts.unshift([match]);
-                }
+        const choice = await vscode.window.showInformationMessage(`Committed group '${groupName}' onto the new branch '${branchName.trim()}'.`, 'Switch Now');
+        if (choice === 'Switch Now') {
+            await gitFileGroupsProvider.switchToBranch(branchName.trim());
+        }
+        }, groupNode);
+    });
 
-                for (const args of attempts) {
-                    try {
-                        const fn = (repository as any)[methodName];
-                        if (typeof fn !== 'function') {
-                            log(`repository.${methodName} is not a function`, 'git-discard');
-                            continue;
-                        }
-                        const argPreview = args.map(a => (a && (a as any).fsPath) ? (a as any).fsPath : String(a));
-                        log(`Attempting repository.${methodName} with args: ${JSON.stringify(argPreview)}`, 'git-discard');
-                        await fn.call(repository, args);
-                        log(`repository.${methodName} succeeded with args: ${JSON.stringify(argPreview)}`, 'git-discard');
-                        return true;
-                    } catch (err: any) {
-                        log(`repository.${methodName} failed with args ${JSON.stringify(args)}: ${err && err.message ? err.message : String(err)}`, 'git-discard');
-                        // If this is the specific replace-type error, continue to next attempt.
-                        continue;
-                    }
-                }
+    let publishGroupToBranchCommand = vscode.commands.registerCommand('git-file-groups.publishGroupToBranch', async (groupNode: GroupNode) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+        if (!groupNode || !groupNode.groupName) {
+            return;
+        }
 
-                // Final fallback: try invoking the git command (CommandCenter) with the matched resource if available
-                if (match) {
-                    try {
-                        const cmd = methodName === 'clean' ? 'git.clean' : 'git.revertChange';
-                        log(`Falling back to executeCommand('${cmd}', match)`, 'git-discard');
-                        await vscode.commands.executeCommand(cmd, match as any);
-                        return true;
-                    } catch (err: any) {
-                        log(`Fallback command ${methodName} failed: ${err && err.message ? err.message : String(err)}`, 'git-discard');
-                    }
-                }
+        const branchName = await vscode.window.showInputBox({
+            title: `Publish Group to Branch: ${groupNode.groupName}`,
+            prompt: 'Branch to commit to. A new branch starts at the upstream tip; an existing branch gets the commit on top.',
+            value: groupNode.groupName.toLowerCase().replace(/[^a-z0-9._/-]+/g, '-').replace(/^-+|-+$/g, '') || 'group'
+        });
+        if (!branchName || !branchName.trim()) {
+            return;
+        }
 
-                try {
-                    const cmd = methodName === 'clean' ? 'git.clean' : 'git.revertChange';
-                    log(`Falling back to executeCommand('${cmd}', resourceUri)`, 'git-discard');
-                    await vscode.commands.executeCommand(cmd, resourceUri);
-                    return true;
-                } catch (err: any) {
-                    log(`Fallback command ${methodName} with resourceUri failed: ${err && err.message ? err.message : String(err)}`, 'git-discard');
-                }
+        await gitFileGroupsProvider.publishGroupToBranch(groupNode.groupName, branchName.trim());
+        }, groupNode);
+    });
 
-                return false;
-            };
+    let reapplyRulesCommand = vscode.commands.registerCommand('git-file-groups.reapplyRules', async () => {
+        let movedCount = 0;
+        await runWithAllProviders(async (gitFileGroupsProvider) => {
+            movedCount += await gitFileGroupsProvider.reapplyRules();
+        });
+        vscode.window.showInformationMessage(movedCount > 0
+            ? `Moved ${movedCount} uncategorized file(s) into groups by rule.`
+            : 'No uncategorized files matched a rule.');
+    });
 
-            const runGitRestore = async () => {
-                log('[discardChange] falling back to direct git restore', 'git-discard');
-                const workspaceRoot = gitFileGroupsProvider.getWorkspaceRoot();
-                const args = ['-C', workspaceRoot, 'restore', '--source=HEAD', '--staged', '--worktree', resourceUri.fsPath];
-                return await new Promise<boolean>((resolve) => {
-                    const child = spawn('git', args, { shell: false });
-                    let stderr = '';
-
-                    child.stderr.on('data', (chunk) => {
-                        stderr += chunk.toString();
-                    });
-
-                    child.on('error', (err) => {
-                        log(`git restore spawn failed: ${err instanceof Error ? err.message : String(err)}`, 'git-discard');
-                        resolve(false);
-                    });
-
-                    child.on('close', (code) => {
-                        if (code === 0) {
-                            log(`git restore succeeded for ${resourceUri.fsPath}`, 'git-discard');
-                            vscode.window.setStatusBarMessage(`Git File Groups: discard completed for ${fileName}`, 2500);
-                            resolve(true);
-                        } else {
-                            log(`git restore failed for ${resourceUri.fsPath} (code ${code}): ${stderr.trim()}`, 'git-discard');
-                            resolve(false);
-                        }
-                    });
-                });
-            };
+    let copyGroupSetCommand = vscode.commands.registerCommand('git-file-groups.copyGroupSet', async () => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+        const sources = await gitFileGroupsProvider.getOtherGroupSets();
+        if (sources.length === 0) {
+            vscode.window.showInformationMessage('No other branch has a group set yet.');
+            return;
+        }
 
-            if (isUntracked) {
-                log(`[discardChange] file appears untracked: ${resourceUri.fsPath}`, 'git-discard');
-                const ok = await callRepositoryMethodWithFallback('clean');
-                if (ok) {
-                    vscode.window.showInformationMessage(`Discarded untracked file ${fileName}`);
-                } else {
-                    vscode.window.showErrorMessage(`Failed to discard untracked file ${fileName}`);
-                    return;
-                }
-            } else {
-                log(`[discardChange] file appears tracked/modified: ${resourceUri.fsPath}`, 'git-discard');
-                const ok = await runGitRestore() || await callRepositoryMethodWithFallback('revert');
-                if (ok) {
-                    vscode.window.showInformationMessage(`Discarded changes to ${fileName}`);
-                } else {
-                    vscode.window.showErrorMessage(`Failed to discard changes to ${fileName}`);
+        const activeBranch = gitFileGroupsProvider.getActiveBranch();
+        const target = activeBranch ? `branch '${activeBranch}'` : 'detached HEAD';
+        const source = await vscode.window.showQuickPick(
+            sources.map(branch => ({
+                label: branch ? `$(git-branch) ${branch}` : '$(debug-disconnect) Detached HEAD',
+                description: branch ? undefined : 'fallback set',
+                branch
+            })),
+            { title: `Copy Group Set into ${target}`, placeHolder: 'Copy groups from...' }
+        );
+        if (!source) {
+            return;
+        }
+
+        const mode = await vscode.window.showQuickPick([
+            { label: 'Merge', detail: 'Add missing groups and assignments, keep the current ones', mode: 'merge' as const },
+            { label: 'Replace', detail: `Replace the groups and assignments of ${target}`, mode: 'replace' as const }
+        ], { title: `Copy Group Set into ${target}` });
+        if (!mode) {
+            return;
+        }
+
+        await gitFileGroupsProvider.copyGroupSet(source.branch, mode.mode);
+        }, undefined, 'Copy Group Set');
+    });
+
+    let undoCommitCommand = vscode.commands.registerCommand('git-file-groups.undoCommit', async (commitItem: PendingCommitItem) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+        if (!(commitItem instanceof PendingCommitItem)) {
+            return;
+        }
+
+        await gitFileGroupsProvider.undoCommit(commitItem.commit.hash);
+        }, commitItem);
+    });
+
+    const registerCommitRewriteCommand = (commandId: string, action: (provider: GitFileGroupsProvider, commitItem: PendingCommitItem) => Promise<void>) => {
+        return vscode.commands.registerCommand(commandId, async (commitItem: PendingCommitItem) => {
+            return runWithProvider(async (gitFileGroupsProvider) => {
+                if (!(commitItem instanceof PendingCommitItem)) {
                     return;
                 }
+
+                await action(gitFileGroupsProvider, commitItem);
+            }, commitItem);
+        });
+    };
+
+    let squashCommitCommand = registerCommitRewriteCommand('git-file-groups.squashCommit', async (gitFileGroupsProvider, commitItem) => {
+        await gitFileGroupsProvider.squashUnpushedCommit(commitItem.commit.hash, 'squash');
+    });
+
+    let fixupCommitCommand = registerCommitRewriteCommand('git-file-groups.fixupCommit', async (gitFileGroupsProvider, commitItem) => {
+        await gitFileGroupsProvider.squashUnpushedCommit(commitItem.commit.hash, 'fixup');
+    });
+
+    let rewordCommitCommand = registerCommitRewriteCommand('git-file-groups.rewordCommit', async (gitFileGroupsProvider, commitItem) => {
+        const currentMessage = await gitFileGroupsProvider.getCommitMessage(commitItem.commit.hash);
+        const message = await vscode.window.showInputBox({
+            title: `Reword Commit ${commitItem.commit.shortHash}`,
+            prompt: 'New commit message',
+            value: currentMessage ?? commitItem.commit.message,
+            validateInput: value => value.trim() ? undefined : 'Commit message is required.'
+        });
+        if (!message || message === currentMessage) {
+            return;
+        }
+
+        await gitFileGroupsProvider.rewordUnpushedCommit(commitItem.commit.hash, message.trim());
+    });
+
+    let dropCommitCommand = registerCommitRewriteCommand('git-file-groups.dropCommit', async (gitFileGroupsProvider, commitItem) => {
+        const confirmed = await vscode.window.showWarningMessage(
+            `Drop commit "${commitItem.commit.message}"? Its changes will be discarded.`,
+            { modal: true },
+            'Drop Commit'
+        );
+        if (confirmed === 'Drop Commit') {
+            await gitFileGroupsProvider.dropUnpushedCommit(commitItem.commit.hash);
+        }
+    });
+
+    let viewCommitCommand = vscode.commands.registerCommand('git-file-groups.viewCommit', async (commitItem: PendingCommitItem | IncomingCommitItem) => {
+        if (!(commitItem instanceof PendingCommitItem) && !(commitItem instanceof IncomingCommitItem)) {
+            return;
+        }
+
+        await vscode.commands.executeCommand('git.viewCommit', vscode.Uri.file(commitItem.commit.repositoryRoot), commitItem.commit.hash);
+    });
+
+    let openCommitFileDiffCommand = vscode.commands.registerCommand('git-file-groups.openCommitFileDiff', async (fileItem: CommitFileItem) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+            if (!(fileItem instanceof CommitFileItem)) {
+                return;
             }
 
-            await gitFileGroupsProvider.syncAssignmentsAfterGitOperation([resourceUri], true);
-        } catch (e) {
-            vscode.window.showErrorMessage(`Failed to discard changes: ${e}`);
+            await gitFileGroupsProvider.openCommitFileDiff(fileItem.commitItem.commit, fileItem.file);
+        }, fileItem);
+    });
+
+    let moveFileOutOfCommitCommand = vscode.commands.registerCommand('git-file-groups.moveFileOutOfCommit', async (fileItem: CommitFileItem) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+            if (!(fileItem instanceof CommitFileItem) || !(fileItem.commitItem instanceof PendingCommitItem)) {
+                return;
+            }
+
+            const commit = fileItem.commitItem.commit;
+            const confirmed = await vscode.window.showWarningMessage(
+                `Move ${fileItem.label} out of commit "${commit.message}"? Its change in that commit goes back to the working tree.`,
+                { modal: true },
+                'Move to Working Tree'
+            );
+            if (confirmed === 'Move to Working Tree') {
+                await gitFileGroupsProvider.moveFileOutOfCommit(commit, fileItem.file);
+            }
+        }, fileItem);
+    });
+
+    let abortRebaseCommand = vscode.commands.registerCommand('git-file-groups.abortRebase', async () => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+            await gitFileGroupsProvider.abortRebase();
+        }, undefined, 'Abort Rebase');
+    });
+
+    let continueOperationCommand = vscode.commands.registerCommand('git-file-groups.continueOperation', async (item?: vscode.TreeItem) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+            await gitFileGroupsProvider.continueOperation();
+        }, item, 'Continue');
+    });
+
+    let abortOperationCommand = vscode.commands.registerCommand('git-file-groups.abortOperation', async (item?: vscode.TreeItem) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+            await gitFileGroupsProvider.abortOperation();
+        }, item, 'Abort');
+    });
+
+    let openMergeEditorCommand = vscode.commands.registerCommand('git-file-groups.openMergeEditor', async (arg: vscode.Uri | vscode.TreeItem | undefined) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+        const resourceUri = toFileUri(arg);
+        if (resourceUri) {
+            await gitFileGroupsProvider.openMergeEditor(resourceUri);
         }
-        });
+        }, arg);
     });
 
-    let toggleExpandCollapseCommand = vscode.commands.registerCommand('git-file-groups.toggleExpandCollapse', async () => {
+    let acceptOursCommand = vscode.commands.registerCommand('git-file-groups.acceptOurs', async (arg: vscode.Uri | vscode.TreeItem | undefined) => {
         return runWithProvider(async (gitFileGroupsProvider) => {
+        const resourceUri = toFileUri(arg);
+        if (resourceUri) {
+            await gitFileGroupsProvider.acceptConflictSide([resourceUri], 'ours');
+        }
+        }, arg);
+    });
+
+    let acceptTheirsCommand = vscode.commands.registerCommand('git-file-groups.acceptTheirs', async (arg: vscode.Uri | vscode.TreeItem | undefined) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+        const resourceUri = toFileUri(arg);
+        if (resourceUri) {
+            await gitFileGroupsProvider.acceptConflictSide([resourceUri], 'theirs');
+        }
+        }, arg);
+    });
+
+    let markResolvedCommand = vscode.commands.registerCommand('git-file-groups.markResolved', async (arg: vscode.Uri | vscode.TreeItem | undefined) => {
+        return runWithProvider(async (gitFileGroupsProvider) => {
+        const resourceUri = toFileUri(arg);
+        if (resourceUri) {
+            await gitFileGroupsProvider.markResolved([resourceUri]);
+        }
+        }, arg);
+    });
+
+    let toggleExpandCollapseCommand = vscode.commands.registerCommand('git-file-groups.toggleExpandCollapse', async () => {
+        return runWithAllProviders(async (gitFileGroupsProvider) => {
             log('Toggle command triggered!', 'view');
             try {
                 await gitFileGroupsProvider.toggleExpandCollapse();
@@ -835,7 +1299,7 @@ function registerCommands(getProvider: () => GitFileGroupsProvider | undefined,
     });
 
     let collapseAllGroupsCommand = vscode.commands.registerCommand('git-file-groups.collapseAllGroups', async () => {
-        return runWithProvider(async (gitFileGroupsProvider) => {
+        return runWithAllProviders(async (gitFileGroupsProvider) => {
             log('Collapse command triggered!', 'view');
             try {
                 await gitFileGroupsProvider.collapseAllGroups();
@@ -847,7 +1311,7 @@ function registerCommands(getProvider: () => GitFileGroupsProvider | undefined,
     });
     
     let copyRelativePathCommand = vscode.commands.registerCommand('git-file-groups.copyRelativePath', async (arg: vscode.Uri | vscode.TreeItem | undefined) => {
-        const resourceUri = arg instanceof vscode.Uri ? arg : arg instanceof vscode.TreeItem ? (arg as any).resourceUri : undefined;
+        const resourceUri = toFileUri(arg);
         if (!resourceUri) {
             vscode.window.showErrorMessage('No file selected to copy relative path.');
             return;
@@ -863,7 +1327,7 @@ function registerCommands(getProvider: () => GitFileGroupsProvider | undefined,
     });
 
     let revealInExplorerCommand = vscode.commands.registerCommand('git-file-groups.revealInExplorer', async (arg: vscode.Uri | vscode.TreeItem | undefined) => {
-        const resourceUri = arg instanceof vscode.Uri ? arg : arg instanceof vscode.TreeItem ? (arg as any).resourceUri : undefined;
+        const resourceUri = toFileUri(arg);
         if (!resourceUri) {
             vscode.window.showErrorMessage('No file selected to reveal.');
             return;
@@ -892,8 +1356,10 @@ function registerCommands(getProvider: () => GitFileGroupsProvider | undefined,
     context.subscriptions.push(disposable);
     context.subscriptions.push(createGroupCommand);
     context.subscriptions.push(renameGroupCommand);
+    context.subscriptions.push(editGroupNotesCommand);
     context.subscriptions.push(renameFileCommand);
     context.subscriptions.push(commitGroupCommand);
+    context.subscriptions.push(commitAllGroupsCommand);
     context.subscriptions.push(deleteGroupCommand);
     context.subscriptions.push(setDefaultGroupCommand);
     context.subscriptions.push(openLinkCommand);
@@ -901,6 +1367,35 @@ function registerCommands(getProvider: () => GitFileGroupsProvider | undefined,
     context.subscriptions.push(syncRepositoryCommand);
     context.subscriptions.push(openDiffCommand);
     context.subscriptions.push(openFileCommand);
+    context.subscriptions.push(stageFileCommand);
+    context.subscriptions.push(unstageFileCommand);
+    context.subscriptions.push(stageGroupCommand);
+    context.subscriptions.push(unstageGroupCommand);
+    context.subscriptions.push(splitFileHunksCommand);
+    context.subscriptions.push(moveHunkToGroupCommand);
+    context.subscriptions.push(shelveGroupCommand);
+    context.subscriptions.push(unshelveGroupCommand);
+    context.subscriptions.push(previewShelvedGroupCommand);
+    context.subscriptions.push(dropShelvedGroupCommand);
+    context.subscriptions.push(moveGroupToBranchCommand);
+    context.subscriptions.push(publishGroupToBranchCommand);
+    context.subscriptions.push(reapplyRulesCommand);
+    context.subscriptions.push(copyGroupSetCommand);
+    context.subscriptions.push(undoCommitCommand);
+    context.subscriptions.push(viewCommitCommand);
+    context.subscriptions.push(openCommitFileDiffCommand);
+    context.subscriptions.push(moveFileOutOfCommitCommand);
+    context.subscriptions.push(squashCommitCommand);
+    context.subscriptions.push(fixupCommitCommand);
+    context.subscriptions.push(rewordCommitCommand);
+    context.subscriptions.push(dropCommitCommand);
+    context.subscriptions.push(abortRebaseCommand);
+    context.subscriptions.push(continueOperationCommand);
+    context.subscriptions.push(abortOperationCommand);
+    context.subscriptions.push(openMergeEditorCommand);
+    context.subscriptions.push(acceptOursCommand);
+    context.subscriptions.push(acceptTheirsCommand);
+    context.subscriptions.push(markResolvedCommand);
     context.subscriptions.push(toggleExpandCollapseCommand);
     context.subscriptions.push(collapseAllGroupsCommand);
     context.subscriptions.push(copyRelativePathCommand);
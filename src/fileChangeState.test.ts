@@ -0,0 +1,65 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { FileChangeState, describeChangeDecoration, describeChangeKinds, encodeChangeState, parseChangeState } from './fileChangeState';
+
+describe('change state in decorated URIs', () => {
+  it('reads back what was encoded, also after the query is escaped in a URI string', () => {
+    const states: FileChangeState[] = [
+      { kind: 'modified', stageState: 'partial' },
+      { kind: 'renamed', stageState: 'staged' },
+      { conflicted: true },
+      {}
+    ];
+    for (const state of states) {
+      assert.deepEqual(parseChangeState(encodeChangeState(state)), state);
+      assert.deepEqual(parseChangeState(decodeURIComponent(encodeURIComponent(encodeChangeState(state)))), state);
+    }
+  });
+
+  it('ignores queries that are not a state', () => {
+    assert.equal(parseChangeState(''), undefined);
+    assert.equal(parseChangeState('kind=modified'), undefined);
+    assert.equal(parseChangeState('null'), undefined);
+  });
+});
+
+describe('describeChangeDecoration', () => {
+  it('uses the Changes view letters', () => {
+    const badges = (['modified', 'added', 'deleted', 'untracked', 'renamed'] as const).map(kind => describeChangeDecoration({ kind })?.badge);
+    assert.deepEqual(badges, ['M', 'A', 'D', 'U', 'R']);
+    assert.deepEqual(describeChangeDecoration({ kind: 'modified', conflicted: true, stageState: 'staged' }), {
+      badge: 'C',
+      tooltip: 'Conflict',
+      color: 'gitDecoration.conflictingResourceForeground'
+    });
+    assert.equal(describeChangeDecoration({}), undefined);
+  });
+
+  it('marks staged and partially staged files', () => {
+    assert.deepEqual(describeChangeDecoration({ kind: 'modified', stageState: 'staged' }), {
+      badge: 'M✓',
+      tooltip: 'Index Modified',
+      color: 'gitDecoration.stageModifiedResourceForeground'
+    });
+    assert.deepEqual(describeChangeDecoration({ kind: 'added', stageState: 'partial' }), {
+      badge: 'A±',
+      tooltip: 'Added, partially staged',
+      color: 'gitDecoration.addedResourceForeground'
+    });
+    assert.equal(describeChangeDecoration({ kind: 'deleted', stageState: 'unstaged' })?.badge, 'D');
+  });
+});
+
+describe('describeChangeKinds', () => {
+  it('counts conflicts first, then the kinds in Changes view order', () => {
+    const summary = describeChangeKinds([
+      { kind: 'untracked' },
+      { kind: 'modified', stageState: 'staged' },
+      { kind: 'modified', conflicted: true },
+      { kind: 'modified' },
+      {}
+    ]);
+    assert.equal(summary, '1 conflicted, 2 modified, 1 untracked');
+    assert.equal(describeChangeKinds([{}]), undefined);
+  });
+});
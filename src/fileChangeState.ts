@@ -0,0 +1,94 @@
+import { ChangeKind } from './assignmentRules';
+
+/** whether a file's changes are in the index, the working tree, or both */
+export type StageState = 'staged' | 'unstaged' | 'partial';
+
+export interface FileChangeState {
+  kind?: ChangeKind;
+  stageState?: StageState;
+  conflicted?: boolean;
+}
+
+/** badge, tooltip and theme color id of a file decoration */
+export interface ChangeDecoration {
+  badge: string;
+  tooltip: string;
+  color: string;
+}
+
+interface KindStyle {
+  letter: string;
+  label: string;
+  color: string;
+  /** color of the staged variant, where the Changes view has one */
+  stagedColor?: string;
+}
+
+// Letters and theme colors of the Git extension's Changes view.
+const KIND_STYLES: Record<ChangeKind, KindStyle> = {
+  modified: { letter: 'M', label: 'Modified', color: 'gitDecoration.modifiedResourceForeground', stagedColor: 'gitDecoration.stageModifiedResourceForeground' },
+  added: { letter: 'A', label: 'Added', color: 'gitDecoration.addedResourceForeground' },
+  deleted: { letter: 'D', label: 'Deleted', color: 'gitDecoration.deletedResourceForeground', stagedColor: 'gitDecoration.stageDeletedResourceForeground' },
+  untracked: { letter: 'U', label: 'Untracked', color: 'gitDecoration.untrackedResourceForeground' },
+  renamed: { letter: 'R', label: 'Renamed', color: 'gitDecoration.renamedResourceForeground' }
+};
+
+const CONFLICT_STYLE: KindStyle = { letter: 'C', label: 'Conflict', color: 'gitDecoration.conflictingResourceForeground' };
+
+/** badge suffix marking files with staged changes */
+const STAGE_MARKERS: Record<StageState, string> = { staged: '✓', partial: '±', unstaged: '' };
+
+/**
+ * The state as carried in the query of a decorated file URI.
+ */
+export function encodeChangeState(state: FileChangeState): string {
+  return JSON.stringify(state);
+}
+
+export function parseChangeState(query: string): FileChangeState | undefined {
+  try {
+    const state = JSON.parse(query);
+    return state && typeof state === 'object' ? state as FileChangeState : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+function getKindStyle(state: FileChangeState): KindStyle | undefined {
+  return state.conflicted ? CONFLICT_STYLE : state.kind ? KIND_STYLES[state.kind] : undefined;
+}
+
+export function describeChangeDecoration(state: FileChangeState): ChangeDecoration | undefined {
+  const style = getKindStyle(state);
+  if (!style) {
+    return undefined;
+  }
+
+  const stageState = state.conflicted ? undefined : state.stageState;
+  const staged = stageState === 'staged';
+  return {
+    badge: `${style.letter}${stageState ? STAGE_MARKERS[stageState] : ''}`,
+    // Like the Changes view: "Index Modified" for staged changes.
+    tooltip: staged ? `Index ${style.label}` : stageState === 'partial' ? `${style.label}, partially staged` : style.label,
+    color: staged && style.stagedColor ? style.stagedColor : style.color
+  };
+}
+
+/**
+ * Summary of a group's files by change kind, e.g. "3 modified, 1 added, 2 untracked".
+ */
+export function describeChangeKinds(states: FileChangeState[]): string | undefined {
+  const counts = new Map<KindStyle, number>();
+  for (const state of states) {
+    const style = getKindStyle(state);
+    if (style) {
+      counts.set(style, (counts.get(style) ?? 0) + 1);
+    }
+  }
+
+  const order = [CONFLICT_STYLE, ...Object.values(KIND_STYLES)];
+  const parts = order
+    .filter(style => counts.has(style))
+    .map(style => `${counts.get(style)} ${style === CONFLICT_STYLE ? 'conflicted' : style.label.toLowerCase()}`);
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
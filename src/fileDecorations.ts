@@ -0,0 +1,29 @@
+import * as vscode from 'vscode';
+import { FileChangeState, describeChangeDecoration, encodeChangeState, parseChangeState } from './fileChangeState';
+
+/**
+ * File nodes carry their change state in a URI of this scheme instead of the plain file URI,
+ * so the decorations below show up in the groups view only and the Git extension's own
+ * decorations of the real file don't double up with them.
+ */
+export const FILE_DECORATION_SCHEME = 'git-file-groups-file';
+
+export function toDecoratedUri(fileUri: vscode.Uri, state: FileChangeState): vscode.Uri {
+  return fileUri.with({ scheme: FILE_DECORATION_SCHEME, query: encodeChangeState(state) });
+}
+
+export class FileChangeDecorationProvider implements vscode.FileDecorationProvider {
+  provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+    if (uri.scheme !== FILE_DECORATION_SCHEME) {
+      return undefined;
+    }
+
+    const state = parseChangeState(uri.query);
+    const decoration = state && describeChangeDecoration(state);
+    if (!decoration) {
+      return undefined;
+    }
+
+    return new vscode.FileDecoration(decoration.badge, decoration.tooltip, new vscode.ThemeColor(decoration.color));
+  }
+}
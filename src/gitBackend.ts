@@ -0,0 +1,428 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChangeKind, changeKindFromGitStatus } from './assignmentRules';
+import { CommitToggleOptions } from './commitOptions';
+import { execGit, execGitOrThrow, pushBranchToRemote } from './gitCli';
+import { log } from './logging';
+import { isSameOrInsidePath, toPathKey } from './pathKeys';
+import { PorcelainChange, PorcelainStatus, parsePorcelainV2Status } from './porcelainStatus';
+import { API, Change, GitExtension, Repository } from './vscodeGitApi';
+
+/** `git_backend` in the project config */
+export type GitBackendPreference = 'auto' | 'vscode' | 'cli';
+
+export interface GitChange {
+  uri: vscode.Uri;
+  /** where a renamed file came from */
+  originalUri?: vscode.Uri;
+  kind: ChangeKind | undefined;
+}
+
+export interface GitRepositoryStatus {
+  root: string;
+  /** undefined on a detached HEAD */
+  branch?: string;
+  ahead: number;
+  behind: number;
+  indexChanges: GitChange[];
+  /** unstaged changes, untracked files included */
+  workingTreeChanges: GitChange[];
+  /** unmerged paths of a conflicted merge, rebase or cherry-pick */
+  mergeChanges: GitChange[];
+}
+
+export interface GitLogEntry {
+  hash: string;
+  subject: string;
+}
+
+/**
+ * The git operations the extension relies on, whichever way they reach git. Every method
+ * takes the root of the repository it acts on; paths are absolute filesystem paths.
+ *
+ * Operations the Git extension's API has no counterpart for always run on the git CLI (see
+ * gitCli.ts): resetting the whole index, hunk diffs (`diff -U0`) and `apply --cached`, work in
+ * a temporary index, commits built with `commit-tree`/`update-ref`, stashes, soft resets and
+ * rebases. They also have to see git's state as it is now, which the API's repository state
+ * lags behind right after a change.
+ */
+export interface GitBackend {
+  readonly name: 'vscode.git' | 'cli';
+  /** the deepest repository containing the path */
+  findRepositoryRoot(fsPath: string): Promise<string | undefined>;
+  /** submodules and other repositories inside `root` */
+  findNestedRepositoryRoots(root: string): Promise<string[]>;
+  status(root: string): Promise<GitRepositoryStatus | undefined>;
+  stage(root: string, paths: string[]): Promise<void>;
+  unstage(root: string, paths: string[]): Promise<void>;
+  commit(root: string, message: string, options?: Partial<CommitToggleOptions>): Promise<void>;
+  /** drop staged and unstaged changes to the paths; untracked files are deleted */
+  discard(root: string, paths: string[]): Promise<void>;
+  /** commits in `range` (e.g. `@{upstream}..HEAD`), newest first */
+  log(root: string, range: string): Promise<GitLogEntry[]>;
+  /** pull and push the current branch; resolves to false when that did not work */
+  sync(root: string): Promise<boolean>;
+  /** read-only document of the file as of `ref`, for diffs */
+  toGitUri(uri: vscode.Uri, ref: string): vscode.Uri;
+}
+
+export function parseGitBackendPreference(raw: unknown): GitBackendPreference {
+  return raw === 'vscode' || raw === 'cli' ? raw : 'auto';
+}
+
+/**
+ * The vscode.git backend unless the preference asks for the CLI or the Git extension is
+ * missing, disabled or doesn't offer the API this extension was written against.
+ */
+export async function resolveGitBackend(preference: GitBackendPreference): Promise<GitBackend> {
+  if (preference !== 'cli') {
+    const api = await getVsCodeGitApi();
+    if (api) {
+      return new VsCodeGitBackend(api);
+    }
+    log(`Git extension API not available${preference === 'vscode' ? ' although git_backend is "vscode"' : ''}, using the git CLI`, 'git');
+  }
+
+  return cliGitBackend;
+}
+
+async function getVsCodeGitApi(): Promise<API | undefined> {
+  const gitExtension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+  if (!gitExtension) {
+    return undefined;
+  }
+
+  try {
+    if (!gitExtension.isActive) {
+      await gitExtension.activate();
+    }
+    if (gitExtension.exports.enabled === false) {
+      return undefined;
+    }
+
+    const api = gitExtension.exports.getAPI(1);
+    return api && Array.isArray(api.repositories) ? api : undefined;
+  } catch (error) {
+    log(`Failed to get the Git extension API: ${error}`, 'git');
+    return undefined;
+  }
+}
+
+export class VsCodeGitBackend implements GitBackend {
+  readonly name = 'vscode.git';
+
+  constructor(private readonly api: API) {}
+
+  async findRepositoryRoot(fsPath: string): Promise<string | undefined> {
+    const roots: string[] = this.getRepositoryRoots().filter(root => isSameOrInsidePath(fsPath, root));
+    return roots.sort((a, b) => b.length - a.length)[0];
+  }
+
+  async findNestedRepositoryRoots(root: string): Promise<string[]> {
+    return this.getRepositoryRoots().filter(candidate => isSameOrInsidePath(candidate, root) && !isSameOrInsidePath(root, candidate));
+  }
+
+  async status(root: string): Promise<GitRepositoryStatus | undefined> {
+    const state = this.getRepository(root)?.state;
+    if (!state) {
+      return undefined;
+    }
+
+    const toChanges = (changes: Change[] | undefined): GitChange[] => (changes ?? [])
+      .filter(change => change?.uri instanceof vscode.Uri)
+      .map(change => ({
+        uri: change.uri,
+        ...(change.originalUri && change.originalUri.fsPath !== change.uri.fsPath ? { originalUri: change.originalUri } : {}),
+        kind: changeKindFromGitStatus(change.status)
+      }));
+
+    return {
+      root,
+      branch: state.HEAD?.name,
+      ahead: typeof state.HEAD?.ahead === 'number' ? state.HEAD.ahead : 0,
+      behind: typeof state.HEAD?.behind === 'number' ? state.HEAD.behind : 0,
+      indexChanges: toChanges(state.indexChanges),
+      // Untracked files are listed separately when git.untrackedChanges is "separate".
+      workingTreeChanges: [...toChanges(state.workingTreeChanges), ...toChanges(state.untrackedChanges)],
+      mergeChanges: toChanges(state.mergeChanges)
+    };
+  }
+
+  async stage(root: string, paths: string[]): Promise<void> {
+    if (paths.length > 0) {
+      await this.requireRepository(root).add(paths);
+    }
+  }
+
+  async unstage(root: string, paths: string[]): Promise<void> {
+    if (paths.length > 0) {
+      // The API's revert resets the index entries, it doesn't touch the working tree.
+      await this.requireRepository(root).revert(paths);
+    }
+  }
+
+  async commit(root: string, message: string, options?: Partial<CommitToggleOptions>): Promise<void> {
+    await this.requireRepository(root).commit(message, options);
+  }
+
+  async discard(root: string, paths: string[]): Promise<void> {
+    if (paths.length === 0) {
+      return;
+    }
+
+    const repository = this.requireRepository(root);
+    const staged = new Set((repository.state?.indexChanges ?? []).map(change => path.normalize(change.uri.fsPath)));
+    const stagedPaths = paths.filter(filePath => staged.has(path.normalize(filePath)));
+    if (stagedPaths.length > 0) {
+      await repository.revert(stagedPaths);
+    }
+    await repository.clean(paths);
+  }
+
+  async log(root: string, range: string): Promise<GitLogEntry[]> {
+    const commits = await this.requireRepository(root).log({ range });
+    return commits.map(commit => ({ hash: commit.hash, subject: String(commit.message ?? '').split(/\r?\n/)[0].trim() }));
+  }
+
+  async sync(root: string): Promise<boolean> {
+    const repository = this.getRepository(root);
+    if (!repository) {
+      return false;
+    }
+
+    try {
+      await repository.sync();
+      return true;
+    } catch (error) {
+      log(`Git sync failed for ${root}: ${error}`, 'git');
+    }
+
+    // `git.sync` also publishes a branch without an upstream, which repository.sync refuses.
+    try {
+      await vscode.commands.executeCommand('git.sync', repository.rootUri);
+      return true;
+    } catch (error) {
+      log(`git.sync command failed for ${root}: ${error}`, 'git');
+      return false;
+    }
+  }
+
+  toGitUri(uri: vscode.Uri, ref: string): vscode.Uri {
+    return this.api.toGitUri(uri, ref);
+  }
+
+  private getRepositoryRoots(): string[] {
+    return (this.api.repositories ?? [])
+      .map(repository => repository?.rootUri?.fsPath)
+      .filter((root: unknown): root is string => typeof root === 'string' && root.length > 0);
+  }
+
+  private getRepository(root: string): Repository | undefined {
+    const rootKey = toPathKey(root);
+    return (this.api.repositories ?? []).find(repository => {
+      const repositoryPath = repository?.rootUri?.fsPath;
+      return !!repositoryPath && toPathKey(repositoryPath) === rootKey;
+    });
+  }
+
+  private requireRepository(root: string): Repository {
+    const repository = this.getRepository(root);
+    if (!repository) {
+      throw new Error(`The Git extension has no repository open at ${root}.`);
+    }
+    return repository;
+  }
+}
+
+export class CliGitBackend implements GitBackend {
+  readonly name = 'cli';
+
+  async findRepositoryRoot(fsPath: string): Promise<string | undefined> {
+    let directory = fsPath;
+    try {
+      if (!(await fs.promises.stat(fsPath)).isDirectory()) {
+        directory = path.dirname(fsPath);
+      }
+    } catch {
+      directory = path.dirname(fsPath);
+    }
+
+    const result = await execGit(['-C', directory, 'rev-parse', '--show-toplevel']);
+    return result.code === 0 ? path.normalize(result.stdout.trim()) : undefined;
+  }
+
+  /**
+   * Only submodules: unlike the Git extension the CLI doesn't scan for unrelated nested
+   * repositories.
+   */
+  async findNestedRepositoryRoots(root: string): Promise<string[]> {
+    const result = await execGit(['-C', root, 'submodule', 'foreach', '--recursive', '--quiet', 'echo "$toplevel/$sm_path"']);
+    if (result.code !== 0) {
+      return [];
+    }
+
+    return result.stdout.split(/\r?\n/).filter(line => line.trim().length > 0).map(line => path.normalize(line.trim()));
+  }
+
+  async status(root: string): Promise<GitRepositoryStatus | undefined> {
+    const result = await execGit(['-C', root, 'status', '--porcelain=v2', '-z', '--branch', '--untracked-files=all']);
+    if (result.code !== 0) {
+      log(`git status failed for ${root} (${result.code}): ${result.stderr.trim()}`, 'git');
+      return undefined;
+    }
+
+    return toRepositoryStatus(root, parsePorcelainV2Status(result.stdout));
+  }
+
+  async stage(root: string, paths: string[]): Promise<void> {
+    if (paths.length > 0) {
+      await execGitOrThrow(['-C', root, 'add', '-A', '--', ...paths]);
+    }
+  }
+
+  async unstage(root: string, paths: string[]): Promise<void> {
+    if (paths.length === 0) {
+      return;
+    }
+
+    if (await this.hasHead(root)) {
+      await execGitOrThrow(['-C', root, 'reset', '-q', 'HEAD', '--', ...paths]);
+    } else {
+      await execGitOrThrow(['-C', root, 'rm', '-q', '-r', '--cached', '--ignore-unmatch', '--', ...paths]);
+    }
+  }
+
+  async commit(root: string, message: string, options?: Partial<CommitToggleOptions>): Promise<void> {
+    await execGitOrThrow([
+      '-C',
+      root,
+      'commit',
+      '--quiet',
+      '--file=-',
+      ...(options?.amend ? ['--amend'] : []),
+      ...(options?.signoff ? ['--signoff'] : []),
+      ...(options?.signCommit ? ['--gpg-sign'] : []),
+      ...(options?.noVerify ? ['--no-verify'] : [])
+    ], { input: message });
+  }
+
+  async discard(root: string, paths: string[]): Promise<void> {
+    if (paths.length === 0) {
+      return;
+    }
+
+    const status = await this.status(root);
+    const untracked = new Set((status?.workingTreeChanges ?? []).filter(change => change.kind === 'untracked').map(change => path.normalize(change.uri.fsPath)));
+    const untrackedPaths = paths.filter(filePath => untracked.has(path.normalize(filePath)));
+    const trackedPaths = paths.filter(filePath => !untracked.has(path.normalize(filePath)));
+    if (untrackedPaths.length > 0) {
+      await execGitOrThrow(['-C', root, 'clean', '-f', '-q', '--', ...untrackedPaths]);
+    }
+    if (trackedPaths.length > 0) {
+      await execGitOrThrow(['-C', root, 'restore', '--source=HEAD', '--staged', '--worktree', '--', ...trackedPaths]);
+    }
+  }
+
+  async log(root: string, range: string): Promise<GitLogEntry[]> {
+    const output = await execGitOrThrow(['-C', root, 'log', '--format=%H%x09%s', range]);
+    return output
+      .split(/\r?\n/)
+      .filter(line => line.trim().length > 0)
+      .map(line => {
+        const [hash, ...subject] = line.split('\t');
+        return { hash: hash.trim(), subject: subject.join('\t').trim() };
+      });
+  }
+
+  /**
+   * Pull and push a branch that has an upstream; publish one that doesn't, like `git.sync`.
+   */
+  async sync(root: string): Promise<boolean> {
+    const hasUpstream = (await execGit(['-C', root, 'rev-parse', '--verify', '--quiet', '@{upstream}'])).code === 0;
+    if (hasUpstream) {
+      for (const args of [['pull', '--no-edit'], ['push']]) {
+        const result = await execGit(['-C', root, ...args]);
+        if (result.code !== 0) {
+          log(`git ${args[0]} failed for ${root} (${result.code}): ${result.stderr.trim()}`, 'git');
+          return false;
+        }
+      }
+
+      return true;
+    }
+
+    const branch = (await execGit(['-C', root, 'symbolic-ref', '--quiet', '--short', 'HEAD'])).stdout.trim();
+    if (!branch) {
+      log(`Nothing to sync for ${root}: HEAD is detached`, 'git');
+      return false;
+    }
+
+    const result = await pushBranchToRemote(root, branch);
+    if (!result.pushed) {
+      log(`Publishing ${branch} failed for ${root}: ${result.error}`, 'git');
+    }
+    return result.pushed;
+  }
+
+  toGitUri(uri: vscode.Uri, ref: string): vscode.Uri {
+    return uri.with({ scheme: GIT_SHOW_SCHEME, query: JSON.stringify({ path: uri.fsPath, ref }) });
+  }
+
+  private async hasHead(root: string): Promise<boolean> {
+    return (await execGit(['-C', root, 'rev-parse', '--verify', '--quiet', 'HEAD'])).code === 0;
+  }
+}
+
+const cliGitBackend = new CliGitBackend();
+
+/** scheme of the CLI backend's `git show` documents */
+export const GIT_SHOW_SCHEME = 'git-file-groups-show';
+
+/**
+ * Serves the CLI backend's git uris with `git show <ref>:<path>`; a file missing at that ref
+ * is an empty document.
+ */
+export class GitShowContentProvider implements vscode.TextDocumentContentProvider {
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    let request: { path?: unknown; ref?: unknown };
+    try {
+      request = JSON.parse(uri.query);
+    } catch {
+      return '';
+    }
+    if (typeof request.path !== 'string' || typeof request.ref !== 'string') {
+      return '';
+    }
+
+    const root = await cliGitBackend.findRepositoryRoot(request.path);
+    if (!root) {
+      return '';
+    }
+
+    const relativePath = path.relative(root, request.path).split(path.sep).join('/');
+    const result = await execGit(['-C', root, 'show', `${request.ref}:${relativePath}`]);
+    return result.code === 0 ? result.stdout : '';
+  }
+}
+
+/**
+ * The CLI status with absolute uris, as the Git extension reports it.
+ */
+function toRepositoryStatus(root: string, parsed: PorcelainStatus): GitRepositoryStatus {
+  const toChange = (change: PorcelainChange): GitChange => ({
+    uri: vscode.Uri.file(path.join(root, change.path)),
+    ...(change.originalPath ? { originalUri: vscode.Uri.file(path.join(root, change.originalPath)) } : {}),
+    kind: change.kind
+  });
+
+  return {
+    root,
+    branch: parsed.branch,
+    ahead: parsed.ahead,
+    behind: parsed.behind,
+    indexChanges: parsed.indexChanges.map(toChange),
+    workingTreeChanges: parsed.workingTreeChanges.map(toChange),
+    mergeChanges: parsed.mergeChanges.map(toChange)
+  };
+}
@@ -0,0 +1,156 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface GitCommandResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+export interface GitCommandOptions {
+  cwd?: string;
+  input?: string;
+  env?: Record<string, string>;
+}
+
+/**
+ * Run a git command and capture its full result, including failures. Callers that only
+ * care about success output can check `code === 0` and use `stdout`.
+ */
+export async function execGit(args: string[], options?: GitCommandOptions): Promise<GitCommandResult> {
+  return await new Promise<GitCommandResult>((resolve) => {
+    const child = spawn('git', args, {
+      shell: false,
+      cwd: options?.cwd,
+      env: options?.env ? { ...process.env, ...options.env } : process.env
+    });
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (chunk: Buffer | string) => {
+      stdout += chunk.toString();
+    });
+
+    child.stderr.on('data', (chunk: Buffer | string) => {
+      stderr += chunk.toString();
+    });
+
+    child.on('error', (error: Error) => {
+      resolve({ code: null, stdout, stderr: stderr || String(error) });
+    });
+
+    child.on('close', (code: number | null) => {
+      resolve({ code, stdout, stderr });
+    });
+
+    if (options?.input !== undefined) {
+      child.stdin.write(options.input);
+    }
+    child.stdin.end();
+  });
+}
+
+export class GitCommandError extends Error {
+  constructor(
+    public readonly args: string[],
+    public readonly result: GitCommandResult
+  ) {
+    super(`git ${args.join(' ')} failed (${result.code}): ${result.stderr.trim()}`);
+    this.name = 'GitCommandError';
+  }
+
+  get stderr(): string {
+    return this.result.stderr;
+  }
+
+  get stdout(): string {
+    return this.result.stdout;
+  }
+}
+
+/**
+ * Run a git command and return stdout, throwing a GitCommandError on a non-zero exit.
+ */
+export async function execGitOrThrow(args: string[], options?: GitCommandOptions): Promise<string> {
+  const result = await execGit(args, options);
+  if (result.code !== 0) {
+    throw new GitCommandError(args, result);
+  }
+
+  return result.stdout;
+}
+
+export interface PushBranchResult {
+  pushed: boolean;
+  remote?: string;
+  /** git's message from the last attempt when no remote took the push */
+  error?: string;
+}
+
+/**
+ * Push a local branch, trying the remotes most likely to be meant in turn: the branch's own
+ * remote, the current branch's upstream remote, origin, then any other remote. Each remote is
+ * tried with `--set-upstream` first so a newly published branch tracks it.
+ */
+export async function pushBranchToRemote(repositoryRoot: string, branch: string): Promise<PushBranchResult> {
+  const remotes = (await execGitOrThrow(['-C', repositoryRoot, 'remote'])).split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const preferred = [
+    (await execGit(['-C', repositoryRoot, 'config', '--get', `branch.${branch}.remote`])).stdout.trim(),
+    (await execGit(['-C', repositoryRoot, 'rev-parse', '--abbrev-ref', '@{upstream}'])).stdout.trim().split('/')[0],
+    'origin'
+  ];
+  const candidates = Array.from(new Set([...preferred, ...remotes])).filter(remote => remotes.includes(remote));
+  if (candidates.length === 0) {
+    return { pushed: false, error: 'The repository has no remote to push to.' };
+  }
+
+  let error: string | undefined;
+  for (const remote of candidates) {
+    const attempts = [
+      ['push', '--set-upstream', remote, `refs/heads/${branch}:refs/heads/${branch}`],
+      ['push', remote, `refs/heads/${branch}:refs/heads/${branch}`]
+    ];
+    for (const args of attempts) {
+      const result = await execGit(['-C', repositoryRoot, ...args]);
+      if (result.code === 0) {
+        return { pushed: true, remote };
+      }
+      error = result.stderr.trim();
+    }
+  }
+
+  return { pushed: false, error };
+}
+
+/**
+ * Run git commands against a throwaway index so trees can be built without touching the
+ * user's staging area. The action receives the environment to pass to each command.
+ */
+export async function withTemporaryIndex<T>(action: (env: Record<string, string>) => Promise<T>): Promise<T> {
+  const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'git-file-groups-'));
+  try {
+    return await action({ GIT_INDEX_FILE: path.join(directory, 'index') });
+  } finally {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Capture the index, partially staged content included, as a tree object. Undefined when the
+ * index can't be written as a tree, e.g. while it has unmerged entries.
+ */
+export async function snapshotIndex(repositoryRoot: string): Promise<string | undefined> {
+  const result = await execGit(['-C', repositoryRoot, 'write-tree']);
+  return result.code === 0 ? result.stdout.trim() : undefined;
+}
+
+/**
+ * Put back an index captured by `snapshotIndex`. The working tree is not touched.
+ */
+export async function restoreIndex(repositoryRoot: string, tree: string): Promise<void> {
+  await execGitOrThrow(['-C', repositoryRoot, 'read-tree', tree]);
+  // read-tree drops the cached stat data; refresh it so unchanged files don't look modified.
+  await execGit(['-C', repositoryRoot, 'update-index', '-q', '--refresh']);
+}
@@ -0,0 +1,70 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { execGit, execGitOrThrow } from './gitCli';
+import { abortGitOperation, acceptConflictSide, continueGitOperation, detectGitOperation } from './gitOperations';
+
+describe('gitOperations', () => {
+  let repositoryRoot: string;
+  const git = (...args: string[]) => execGitOrThrow(['-C', repositoryRoot, ...args]);
+  const readFile = (name: string) => fs.promises.readFile(path.join(repositoryRoot, name), 'utf8');
+
+  // main and topic both change a.txt, so merging or cherry-picking topic conflicts.
+  beforeEach(async () => {
+    repositoryRoot = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'git-file-groups-test-')));
+    await execGitOrThrow(['init', '-q', '-b', 'main', repositoryRoot]);
+    await git('config', 'user.name', 'Test');
+    await git('config', 'user.email', 'test@example.com');
+    await fs.promises.writeFile(path.join(repositoryRoot, 'a.txt'), 'base\n', 'utf8');
+    await git('add', 'a.txt');
+    await git('commit', '-q', '-m', 'base');
+    await git('checkout', '-q', '-b', 'topic');
+    await fs.promises.writeFile(path.join(repositoryRoot, 'a.txt'), 'topic\n', 'utf8');
+    await git('commit', '-q', '-am', 'topic');
+    await git('checkout', '-q', 'main');
+    await fs.promises.writeFile(path.join(repositoryRoot, 'a.txt'), 'main\n', 'utf8');
+    await git('commit', '-q', '-am', 'main');
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(repositoryRoot, { recursive: true, force: true });
+  });
+
+  it('finds nothing in progress in a clean repository', async () => {
+    assert.equal(await detectGitOperation(repositoryRoot), undefined);
+  });
+
+  it('resolves a conflicted merge with their side and continues it', async () => {
+    assert.notEqual((await execGit(['-C', repositoryRoot, 'merge', 'topic'])).code, 0);
+    assert.equal(await detectGitOperation(repositoryRoot), 'merge');
+
+    await acceptConflictSide(repositoryRoot, [path.join(repositoryRoot, 'a.txt')], 'theirs');
+    assert.equal(await readFile('a.txt'), 'topic\n');
+    await continueGitOperation(repositoryRoot, 'merge');
+
+    assert.equal(await detectGitOperation(repositoryRoot), undefined);
+    assert.equal((await git('rev-list', '--count', '--merges', 'HEAD')).trim(), '1');
+  });
+
+  it('aborts a conflicted cherry-pick', async () => {
+    assert.notEqual((await execGit(['-C', repositoryRoot, 'cherry-pick', 'topic'])).code, 0);
+    assert.equal(await detectGitOperation(repositoryRoot), 'cherry-pick');
+
+    await abortGitOperation(repositoryRoot, 'cherry-pick');
+    assert.equal(await detectGitOperation(repositoryRoot), undefined);
+    assert.equal(await readFile('a.txt'), 'main\n');
+  });
+
+  it('reports a stopped rebase as a rebase', async () => {
+    await git('checkout', '-q', 'topic');
+    assert.notEqual((await execGit(['-C', repositoryRoot, 'rebase', 'main'])).code, 0);
+    assert.equal(await detectGitOperation(repositoryRoot), 'rebase');
+
+    await acceptConflictSide(repositoryRoot, [path.join(repositoryRoot, 'a.txt')], 'ours');
+    assert.equal(await readFile('a.txt'), 'main\n');
+    await abortGitOperation(repositoryRoot, 'rebase');
+    assert.equal(await readFile('a.txt'), 'topic\n');
+  });
+});
@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execGitOrThrow } from './gitCli';
+import { isRebaseInProgress } from './rebaseLite';
+
+/** a multi-step git command that stopped halfway, usually on conflicts */
+export type GitOperation = 'merge' | 'rebase' | 'cherry-pick' | 'revert';
+
+export const GIT_OPERATION_LABELS: Record<GitOperation, string> = {
+  merge: 'Merge',
+  rebase: 'Rebase',
+  'cherry-pick': 'Cherry-pick',
+  revert: 'Revert'
+};
+
+// The file in the git directory that marks each operation; rebases have their own check.
+const OPERATION_HEADS: Array<[GitOperation, string]> = [
+  ['merge', 'MERGE_HEAD'],
+  ['cherry-pick', 'CHERRY_PICK_HEAD'],
+  ['revert', 'REVERT_HEAD']
+];
+
+export async function detectGitOperation(repositoryRoot: string): Promise<GitOperation | undefined> {
+  // A rebase that stops on a picked commit also leaves CHERRY_PICK_HEAD behind.
+  if (await isRebaseInProgress(repositoryRoot)) {
+    return 'rebase';
+  }
+
+  for (const [operation, head] of OPERATION_HEADS) {
+    const gitPath = (await execGitOrThrow(['-C', repositoryRoot, 'rev-parse', '--git-path', head])).trim();
+    if (fs.existsSync(path.resolve(repositoryRoot, gitPath))) {
+      return operation;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Continue the operation with git's prepared commit message, without opening an editor.
+ */
+export async function continueGitOperation(repositoryRoot: string, operation: GitOperation): Promise<void> {
+  await execGitOrThrow(['-C', repositoryRoot, operation, '--continue'], { env: { GIT_EDITOR: 'true' } });
+}
+
+export async function abortGitOperation(repositoryRoot: string, operation: GitOperation): Promise<void> {
+  await execGitOrThrow(['-C', repositoryRoot, operation, '--abort']);
+}
+
+/**
+ * Resolve conflicted files with one side's version and stage them. During a rebase "ours" is
+ * the branch being rebased onto, as in git itself.
+ */
+export async function acceptConflictSide(repositoryRoot: string, filePaths: string[], side: 'ours' | 'theirs'): Promise<void> {
+  await execGitOrThrow(['-C', repositoryRoot, 'checkout', `--${side}`, '--', ...filePaths]);
+  await execGitOrThrow(['-C', repositoryRoot, 'add', '--', ...filePaths]);
+}
@@ -0,0 +1,48 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { StagingEntry, isCommittedWhole, offersStagedOnlyCommit, planGroupStaging } from './groupStaging';
+
+const staged: StagingEntry = { key: 'staged.ts', stageState: 'staged' };
+const partiallyStaged: StagingEntry = { key: 'partial.ts', stageState: 'partial' };
+const unstaged: StagingEntry = { key: 'unstaged.ts', stageState: 'unstaged' };
+const split: StagingEntry = { key: 'split.ts', stageState: 'unstaged', hunks: { fingerprints: ['a'], total: 2 } };
+
+describe('offersStagedOnlyCommit', () => {
+  it('asks only when some but not all of the group is staged as whole files', () => {
+    assert.equal(offersStagedOnlyCommit([unstaged, split]), false);
+    assert.equal(offersStagedOnlyCommit([staged]), false);
+    assert.equal(offersStagedOnlyCommit([staged, unstaged]), true);
+    assert.equal(offersStagedOnlyCommit([partiallyStaged]), true);
+    assert.equal(offersStagedOnlyCommit([{ ...split, stageState: 'staged' }]), true);
+  });
+});
+
+describe('planGroupStaging', () => {
+  it('stages the whole group from an empty index, split files hunk by hunk', () => {
+    assert.deepEqual(planGroupStaging([staged, partiallyStaged, unstaged, split], ['other.ts', 'staged.ts', 'partial.ts'], false), {
+      unstage: ['other.ts', 'staged.ts', 'partial.ts'],
+      stageFiles: ['staged.ts', 'partial.ts', 'unstaged.ts'],
+      stageHunks: ['split.ts'],
+      wholeFiles: ['staged.ts', 'partial.ts', 'unstaged.ts']
+    });
+  });
+
+  it('keeps only the staged changes of the group for a staged-only commit', () => {
+    assert.deepEqual(planGroupStaging([staged, partiallyStaged, unstaged], ['other.ts', 'staged.ts', 'partial.ts'], true), {
+      unstage: ['other.ts'],
+      stageFiles: [],
+      stageHunks: [],
+      wholeFiles: ['staged.ts']
+    });
+  });
+
+  it('commits a fully staged group as it is', () => {
+    assert.deepEqual(planGroupStaging([staged], ['staged.ts'], true), { unstage: [], stageFiles: [], stageHunks: [], wholeFiles: ['staged.ts'] });
+  });
+
+  it('leaves the unstaged rest of files behind only in staged-only commits', () => {
+    assert.equal(isCommittedWhole(partiallyStaged, true), false);
+    assert.equal(isCommittedWhole(partiallyStaged, false), true);
+    assert.equal(isCommittedWhole(split, false), false);
+  });
+});
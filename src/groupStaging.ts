@@ -0,0 +1,77 @@
+import { StageState } from './fileChangeState';
+import { FileHunkSelection } from './GroupModel';
+
+/**
+ * A file of the group being committed, as far as staging is concerned.
+ */
+export interface StagingEntry {
+  /** path key, see `toPathKey` */
+  key: string;
+  stageState?: StageState;
+  /** set when the file's hunks are split across groups: the hunks of this group */
+  hunks?: FileHunkSelection;
+}
+
+/**
+ * How the index is prepared for a group commit, by file key.
+ */
+export interface GroupStagingPlan {
+  /** staged files to unstage first */
+  unstage: string[];
+  /** files staged as a whole */
+  stageFiles: string[];
+  /** split files of which only the group's hunks are staged */
+  stageHunks: string[];
+  /** files the commit takes completely, so nothing of them is left afterwards */
+  wholeFiles: string[];
+}
+
+export function hasStagedChanges(entry: Pick<StagingEntry, 'stageState'>): boolean {
+  return entry.stageState === 'staged' || entry.stageState === 'partial';
+}
+
+export function isSplitEntry(entry: Pick<StagingEntry, 'hunks'>): boolean {
+  return !!entry.hunks && entry.hunks.fingerprints.length < entry.hunks.total;
+}
+
+/**
+ * Whether committing the entry takes all of its changes: split files keep the other groups'
+ * hunks, and a staged-only commit leaves a partially staged file's unstaged changes behind.
+ */
+export function isCommittedWhole(entry: StagingEntry, stagedOnly: boolean): boolean {
+  return !isSplitEntry(entry) && (!stagedOnly || entry.stageState === 'staged');
+}
+
+/**
+ * Whether to ask about committing only what is staged: some of the group is staged, but not
+ * all of it as whole files.
+ */
+export function offersStagedOnlyCommit(entries: StagingEntry[]): boolean {
+  return entries.some(entry => hasStagedChanges(entry))
+    && !entries.every(entry => entry.stageState === 'staged' && !isSplitEntry(entry));
+}
+
+/**
+ * Which files and hunks to stage for a group commit, given the keys of the files with staged
+ * changes. A full commit starts from an empty index and stages the whole group; a staged-only
+ * commit keeps the group's staged changes as they are and unstages everything else.
+ */
+export function planGroupStaging(entries: StagingEntry[], stagedKeys: string[], stagedOnly: boolean): GroupStagingPlan {
+  if (stagedOnly) {
+    const committed = entries.filter(entry => hasStagedChanges(entry));
+    const keptKeys = new Set(committed.map(entry => entry.key));
+    return {
+      unstage: stagedKeys.filter(key => !keptKeys.has(key)),
+      stageFiles: [],
+      stageHunks: [],
+      wholeFiles: committed.filter(entry => isCommittedWhole(entry, true)).map(entry => entry.key)
+    };
+  }
+
+  return {
+    unstage: [...stagedKeys],
+    stageFiles: entries.filter(entry => !isSplitEntry(entry)).map(entry => entry.key),
+    stageHunks: entries.filter(entry => isSplitEntry(entry)).map(entry => entry.key),
+    wholeFiles: entries.filter(entry => isCommittedWhole(entry, false)).map(entry => entry.key)
+  };
+}
@@ -0,0 +1,99 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { execGitOrThrow } from './gitCli';
+import { buildPartialPatch, parseFileDiff } from './hunks';
+
+const HEADER = 'diff --git a/f.txt b/f.txt\nindex 1111111..2222222 100644\n--- a/f.txt\n+++ b/f.txt\n';
+
+// Three lines inserted at the top, line 5 deleted, line 8 replaced and one line added after line 10.
+const DIFF = `${HEADER}@@ -0,0 +1,3 @@
++top 1
++top 2
++top 3
+@@ -5 +7,0 @@
+-line 5
+@@ -8 +10,2 @@
+-line 8
++line 8 changed
++line 8 extra
+@@ -10,0 +13 @@ section
++NEW
+`;
+
+function hunkHeaders(patch: string | undefined): string[] {
+  return (patch ?? '').split('\n').filter(line => line.startsWith('@@'));
+}
+
+describe('parseFileDiff', () => {
+  it('reads hunk ranges, defaulting omitted counts to one', () => {
+    const fileDiff = parseFileDiff(DIFF);
+    assert.equal(fileDiff.isBinary, false);
+    assert.deepEqual(fileDiff.headerLines, HEADER.trimEnd().split('\n'));
+    assert.deepEqual(
+      fileDiff.hunks.map(hunk => [hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines]),
+      [[0, 0, 1, 3], [5, 1, 7, 0], [8, 1, 10, 2], [10, 0, 13, 1]]
+    );
+    assert.deepEqual(fileDiff.hunks[1].lines, ['-line 5']);
+  });
+
+  it('fingerprints hunks by content, numbering identical ones', () => {
+    const fileDiff = parseFileDiff(`${HEADER}@@ -1 +1 @@\n-a\n+b\n@@ -5 +5 @@\n-a\n+b\n`);
+    const [first, second] = fileDiff.hunks.map(hunk => hunk.fingerprint);
+    assert.equal(second, `${first}#2`);
+    assert.equal(parseFileDiff(`${HEADER}@@ -9 +9 @@\n-a\n+b\n`).hunks[0].fingerprint, first);
+  });
+
+  it('flags binary files', () => {
+    assert.equal(parseFileDiff(`${HEADER}Binary files a/f.png and b/f.png differ\n`).isBinary, true);
+  });
+});
+
+describe('buildPartialPatch', () => {
+  const fileDiff = parseFileDiff(DIFF);
+  const select = (...indexes: number[]) => new Set(indexes.map(index => fileDiff.hunks[index].fingerprint));
+
+  it('places hunks as if the unselected hunks above them were not there', () => {
+    assert.deepEqual(hunkHeaders(buildPartialPatch(fileDiff, select(3))), ['@@ -10,0 +11,1 @@ section']);
+    assert.deepEqual(hunkHeaders(buildPartialPatch(fileDiff, select(1))), ['@@ -5,1 +4,0 @@']);
+    assert.deepEqual(hunkHeaders(buildPartialPatch(fileDiff, select(2))), ['@@ -8,1 +8,2 @@']);
+  });
+
+  it('shifts later hunks by the selected insertions and deletions only', () => {
+    assert.deepEqual(hunkHeaders(buildPartialPatch(fileDiff, select(0, 2, 3))), [
+      '@@ -0,0 +1,3 @@',
+      '@@ -8,1 +11,2 @@',
+      '@@ -10,0 +15,1 @@ section'
+    ]);
+    assert.deepEqual(hunkHeaders(buildPartialPatch(fileDiff, select(1, 3))), ['@@ -5,1 +4,0 @@', '@@ -10,0 +10,1 @@ section']);
+  });
+
+  it('keeps the file header and returns nothing without a selection', () => {
+    assert.ok(buildPartialPatch(fileDiff, select(3))?.startsWith(HEADER));
+    assert.equal(buildPartialPatch(fileDiff, new Set()), undefined);
+  });
+
+  it('stages a lower hunk at its own place with git apply', async () => {
+    const repositoryRoot = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'git-file-groups-test-')));
+    try {
+      const filePath = path.join(repositoryRoot, 'f.txt');
+      const original = Array.from({ length: 10 }, (_, index) => `line ${index + 1}`);
+      await execGitOrThrow(['init', '-q', repositoryRoot]);
+      await fs.promises.writeFile(filePath, `${original.join('\n')}\n`, 'utf8');
+      await execGitOrThrow(['-C', repositoryRoot, 'add', 'f.txt']);
+
+      const changed = ['top 1', 'top 2', 'top 3', ...original.slice(0, 7), 'NEW', ...original.slice(7)];
+      await fs.promises.writeFile(filePath, `${changed.join('\n')}\n`, 'utf8');
+      const changedDiff = parseFileDiff(await execGitOrThrow(['-C', repositoryRoot, 'diff', '-U0', '--no-color', '--', 'f.txt']));
+      const patch = buildPartialPatch(changedDiff, new Set([changedDiff.hunks[1].fingerprint]));
+      await execGitOrThrow(['-C', repositoryRoot, 'apply', '--cached', '--unidiff-zero', '-'], { input: patch });
+
+      const staged = await execGitOrThrow(['-C', repositoryRoot, 'show', ':f.txt']);
+      assert.equal(staged, `${[...original.slice(0, 7), 'NEW', ...original.slice(7)].join('\n')}\n`);
+    } finally {
+      await fs.promises.rm(repositoryRoot, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,120 @@
+import { createHash } from 'crypto';
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+  fingerprint: string;
+}
+
+export interface FileDiff {
+  headerLines: string[];
+  hunks: DiffHunk[];
+  isBinary: boolean;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parse the output of `git diff -U0` for a single file into its hunks.
+ *
+ * Hunks are identified by a fingerprint of their removed/added lines rather than by line
+ * numbers, so an assignment keeps pointing at the same hunk when edits elsewhere in the
+ * file shift it up or down. Identical hunks within one file get an occurrence suffix.
+ */
+export function parseFileDiff(diffText: string): FileDiff {
+  const lines = diffText.split(/\r?\n/);
+  if (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  const headerLines: string[] = [];
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | undefined;
+  let isBinary = false;
+
+  for (const line of lines) {
+    const match = HUNK_HEADER.exec(line);
+    if (match) {
+      current = {
+        header: line,
+        oldStart: Number(match[1]),
+        oldLines: match[2] === undefined ? 1 : Number(match[2]),
+        newStart: Number(match[3]),
+        newLines: match[4] === undefined ? 1 : Number(match[4]),
+        lines: [],
+        fingerprint: ''
+      };
+      hunks.push(current);
+      continue;
+    }
+
+    if (current) {
+      current.lines.push(line);
+      continue;
+    }
+
+    if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+      isBinary = true;
+    }
+    headerLines.push(line);
+  }
+
+  const occurrences = new Map<string, number>();
+  for (const hunk of hunks) {
+    const body = hunk.lines.filter(l => l.startsWith('+') || l.startsWith('-')).join('\n');
+    const digest = createHash('sha1').update(body).digest('hex').slice(0, 12);
+    const seen = occurrences.get(digest) ?? 0;
+    occurrences.set(digest, seen + 1);
+    hunk.fingerprint = seen === 0 ? digest : `${digest}#${seen + 1}`;
+  }
+
+  return { headerLines, hunks, isBinary };
+}
+
+/**
+ * Build a patch containing only the selected hunks, suitable for
+ * `git apply --cached --unidiff-zero` against HEAD's version of the file. Git places
+ * zero-context hunks by their new-side start, so each selected hunk's `+start` is recomputed
+ * from its old-side start and the lines added or removed by the selected hunks above it;
+ * the unselected hunks don't shift it.
+ */
+export function buildPartialPatch(fileDiff: FileDiff, fingerprints: Set<string>): string | undefined {
+  const selected = fileDiff.hunks.filter(hunk => fingerprints.has(hunk.fingerprint));
+  if (selected.length === 0) {
+    return undefined;
+  }
+
+  const output = [...fileDiff.headerLines];
+  let offset = 0;
+  for (const hunk of selected) {
+    // An insertion comes after its old-side line, a deletion leaves the line before it.
+    const newStart = hunk.oldStart + offset + (hunk.oldLines === 0 ? 1 : 0) - (hunk.newLines === 0 ? 1 : 0);
+    const header = hunk.header.replace(HUNK_HEADER, `@@ -${hunk.oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@`);
+    output.push(header, ...hunk.lines);
+    offset += hunk.newLines - hunk.oldLines;
+  }
+
+  return `${output.join('\n')}\n`;
+}
+
+/**
+ * Short human-readable summary of a hunk for pickers and tree labels.
+ */
+export function describeHunk(hunk: DiffHunk): { label: string; detail: string } {
+  const removed = hunk.lines.filter(l => l.startsWith('-')).length;
+  const added = hunk.lines.filter(l => l.startsWith('+')).length;
+  const firstChanged = hunk.lines.find(l => l.startsWith('+') && l.slice(1).trim().length > 0)
+    ?? hunk.lines.find(l => l.startsWith('-') && l.slice(1).trim().length > 0);
+  const lineRange = hunk.newLines === 0
+    ? `after line ${hunk.newStart}`
+    : hunk.newLines === 1 ? `line ${hunk.newStart}` : `lines ${hunk.newStart}-${hunk.newStart + hunk.newLines - 1}`;
+
+  return {
+    label: `${lineRange} (+${added} -${removed})`,
+    detail: firstChanged ? firstChanged.trim() : ''
+  };
+}
@@ -0,0 +1,74 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { execGitOrThrow } from './gitCli';
+import { LineStatsCache, countLines, describeLargestFiles, parseNumstat, sumLineStats } from './lineStats';
+
+describe('parseNumstat', () => {
+  it('reads counts, binary files and paths with tabs', () => {
+    const stats = parseNumstat('3\t1\tsrc/app.ts\0-\t-\timage.png\u00002\t0\tname\twith tab.txt\0');
+    assert.deepEqual(stats.get('src/app.ts'), { insertions: 3, deletions: 1 });
+    assert.deepEqual(stats.get('image.png'), { insertions: 0, deletions: 0, binary: true });
+    assert.deepEqual(stats.get('name\twith tab.txt'), { insertions: 2, deletions: 0 });
+  });
+});
+
+describe('line stat summaries', () => {
+  it('counts lines of new files with or without a final newline', () => {
+    assert.deepEqual(countLines(Buffer.from('a\nb\n')), { insertions: 2, deletions: 0 });
+    assert.deepEqual(countLines(Buffer.from('a\nb')), { insertions: 2, deletions: 0 });
+    assert.deepEqual(countLines(Buffer.from('')), { insertions: 0, deletions: 0 });
+    assert.equal(countLines(Buffer.from([0x50, 0x00])).binary, true);
+  });
+
+  it('sums text files and lists the largest first', () => {
+    const files = [
+      { label: 'small.ts', stats: { insertions: 1, deletions: 0 } },
+      { label: 'large.ts', stats: { insertions: 10, deletions: 5 } },
+      { label: 'image.png', stats: { insertions: 0, deletions: 0, binary: true } },
+      { label: 'split.ts' }
+    ];
+    assert.deepEqual(sumLineStats(files.map(file => file.stats)), { insertions: 11, deletions: 5 });
+    assert.equal(describeLargestFiles(files, 1), 'Largest changes:\n+10 −5  large.ts');
+    assert.equal(sumLineStats([undefined]), undefined);
+  });
+});
+
+describe('LineStatsCache', () => {
+  let repositoryRoot: string;
+  const filePath = (name: string) => path.join(repositoryRoot, name);
+
+  beforeEach(async () => {
+    repositoryRoot = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'git-file-groups-test-')));
+    await execGitOrThrow(['init', '-q', repositoryRoot]);
+    await execGitOrThrow(['-C', repositoryRoot, 'config', 'user.name', 'Test']);
+    await execGitOrThrow(['-C', repositoryRoot, 'config', 'user.email', 'test@example.com']);
+    await fs.promises.writeFile(filePath('a.txt'), 'one\ntwo\n', 'utf8');
+    await execGitOrThrow(['-C', repositoryRoot, 'add', 'a.txt']);
+    await execGitOrThrow(['-C', repositoryRoot, 'commit', '-q', '-m', 'base']);
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(repositoryRoot, { recursive: true, force: true });
+  });
+
+  it('counts staged, unstaged and untracked changes and follows later edits', async () => {
+    await fs.promises.writeFile(filePath('a.txt'), 'one\n2\nthree\n', 'utf8');
+    await execGitOrThrow(['-C', repositoryRoot, 'add', 'a.txt']);
+    await fs.promises.writeFile(filePath('a.txt'), 'one\n2\nthree\nfour\n', 'utf8');
+    await fs.promises.writeFile(filePath('new.txt'), 'x\ny\nz\n', 'utf8');
+
+    const cache = new LineStatsCache();
+    const files = [{ fsPath: filePath('a.txt') }, { fsPath: filePath('new.txt'), untracked: true }];
+    await cache.update(repositoryRoot, files);
+    assert.deepEqual(cache.get(repositoryRoot, filePath('a.txt')), { insertions: 3, deletions: 1 });
+    assert.deepEqual(cache.get(repositoryRoot, filePath('new.txt')), { insertions: 3, deletions: 0 });
+
+    await fs.promises.writeFile(filePath('new.txt'), 'x\n', 'utf8');
+    await cache.update(repositoryRoot, files.slice(1));
+    assert.equal(cache.get(repositoryRoot, filePath('a.txt')), undefined);
+    assert.deepEqual(cache.get(repositoryRoot, filePath('new.txt')), { insertions: 1, deletions: 0 });
+  });
+});
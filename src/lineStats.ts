@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execGit } from './gitCli';
+
+export interface LineStats {
+  insertions: number;
+  deletions: number;
+  /** git doesn't count lines of binary files */
+  binary?: boolean;
+}
+
+export interface LineStatsFile {
+  fsPath: string;
+  /** counted from the file itself, since git diff doesn't list untracked files */
+  untracked?: boolean;
+}
+
+interface CachedStats {
+  /** size and modification time of the file when its stats were taken */
+  signature: string;
+  stats: LineStats;
+}
+
+interface RepositoryStats {
+  head: string;
+  files: Map<string, CachedStats>;
+}
+
+// `git hash-object -t tree /dev/null`, the base to diff against before the first commit.
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+// Above this many files one diff of the whole repository is cheaper than a long pathspec.
+const MAX_PATHSPEC_FILES = 100;
+
+/**
+ * Parse `git diff --numstat -z --no-renames` into stats by repository-relative path.
+ */
+export function parseNumstat(output: string): Map<string, LineStats> {
+  const stats = new Map<string, LineStats>();
+  for (const record of output.split('\0')) {
+    const match = /^(-|\d+)\t(-|\d+)\t([\s\S]+)$/.exec(record);
+    if (!match) {
+      continue;
+    }
+
+    stats.set(match[3], match[1] === '-'
+      ? { insertions: 0, deletions: 0, binary: true }
+      : { insertions: Number(match[1]), deletions: Number(match[2]) });
+  }
+  return stats;
+}
+
+/**
+ * Stats of a new file: every line is an insertion.
+ */
+export function countLines(content: Buffer): LineStats {
+  if (content.includes(0)) {
+    return { insertions: 0, deletions: 0, binary: true };
+  }
+
+  const text = content.toString('utf8');
+  const lines = text.length === 0 ? 0 : text.split('\n').length - (text.endsWith('\n') ? 1 : 0);
+  return { insertions: lines, deletions: 0 };
+}
+
+export function formatLineStats(stats: LineStats): string {
+  return stats.binary ? 'binary' : `+${stats.insertions} −${stats.deletions}`;
+}
+
+export function sumLineStats(stats: Array<LineStats | undefined>): LineStats | undefined {
+  const counted = stats.filter((entry): entry is LineStats => !!entry && !entry.binary);
+  if (counted.length === 0) {
+    return undefined;
+  }
+
+  return counted.reduce((total, entry) => ({
+    insertions: total.insertions + entry.insertions,
+    deletions: total.deletions + entry.deletions
+  }), { insertions: 0, deletions: 0 });
+}
+
+/**
+ * The files with the most changed lines, one "+12 −3 path" line each.
+ */
+export function describeLargestFiles(files: Array<{ label: string; stats?: LineStats }>, limit: number = 5): string | undefined {
+  const size = (stats: LineStats) => stats.insertions + stats.deletions;
+  const largest = files
+    .filter((file): file is { label: string; stats: LineStats } => !!file.stats && !file.stats.binary && size(file.stats) > 0)
+    .sort((a, b) => size(b.stats) - size(a.stats))
+    .slice(0, limit);
+  if (largest.length === 0) {
+    return undefined;
+  }
+
+  return ['Largest changes:', ...largest.map(file => `${formatLineStats(file.stats)}  ${file.label}`)].join('\n');
+}
+
+/**
+ * Insertions and deletions of changed files against HEAD, staged and unstaged together. Only
+ * files whose size or modification time changed since the last update are diffed again, with
+ * one git call per repository; a new HEAD starts the repository over.
+ */
+export class LineStatsCache {
+  private repositories = new Map<string, RepositoryStats>();
+
+  get(repositoryRoot: string, fsPath: string): LineStats | undefined {
+    return this.repositories.get(repositoryRoot)?.files.get(fsPath)?.stats;
+  }
+
+  async update(repositoryRoot: string, files: LineStatsFile[]): Promise<void> {
+    const headResult = await execGit(['-C', repositoryRoot, 'rev-parse', '-q', '--verify', 'HEAD']);
+    const head = headResult.code === 0 ? headResult.stdout.trim() : EMPTY_TREE;
+    let repository = this.repositories.get(repositoryRoot);
+    if (!repository || repository.head !== head) {
+      repository = { head, files: new Map() };
+      this.repositories.set(repositoryRoot, repository);
+    }
+
+    const current = new Map(files.map(file => [file.fsPath, file] as [string, LineStatsFile]));
+    for (const fsPath of Array.from(repository.files.keys())) {
+      if (!current.has(fsPath)) {
+        repository.files.delete(fsPath);
+      }
+    }
+
+    const stale: Array<{ file: LineStatsFile; signature: string }> = [];
+    for (const file of files) {
+      const signature = await getFileSignature(file.fsPath);
+      if (repository.files.get(file.fsPath)?.signature !== signature) {
+        stale.push({ file, signature });
+      }
+    }
+
+    const tracked = stale.filter(({ file }) => !file.untracked);
+    if (tracked.length > 0) {
+      const toGitPath = (fsPath: string) => path.relative(repositoryRoot, fsPath).split(path.sep).join('/');
+      const pathspec = tracked.length > MAX_PATHSPEC_FILES ? [] : ['--', ...tracked.map(({ file }) => toGitPath(file.fsPath))];
+      const result = await execGit(['-C', repositoryRoot, '--literal-pathspecs', 'diff', '--numstat', '-z', '--no-renames', head, ...pathspec]);
+      if (result.code === 0) {
+        const numstat = parseNumstat(result.stdout);
+        for (const { file, signature } of tracked) {
+          repository.files.set(file.fsPath, { signature, stats: numstat.get(toGitPath(file.fsPath)) ?? { insertions: 0, deletions: 0 } });
+        }
+      }
+    }
+
+    for (const { file, signature } of stale.filter(({ file }) => file.untracked)) {
+      try {
+        repository.files.set(file.fsPath, { signature, stats: countLines(await fs.promises.readFile(file.fsPath)) });
+      } catch (e) {
+        // Untracked folders (nested repositories) and files removed since the status was read.
+        repository.files.delete(file.fsPath);
+      }
+    }
+  }
+}
+
+async function getFileSignature(fsPath: string): Promise<string> {
+  try {
+    const stat = await fs.promises.stat(fsPath);
+    return `${stat.size}:${stat.mtimeMs}`;
+  } catch (e) {
+    return 'missing';
+  }
+}
@@ -1,7 +1,9 @@
-import * as vscode from 'vscode';
-
-// Centralized logging utilities and output channel for the extension.
-const outputChannel = vscode.window.createOutputChannel('Git File Groups');
+// Centralized logging utilities. The extension hands in its output channel on activation;
+// until then (and under plain Node, e.g. in unit tests) messages only go to the console.
+let output: { appendLine(value: string): void } | undefined;
+export function setLogOutput(target: { appendLine(value: string): void } | undefined) {
+  output = target;
+}
 
 // Module-level set of enabled features for logging.
 let loggedFeaturesGlobal: Set<string> = new Set();
@@ -20,11 +22,12 @@ export function log(message: string, feature: string) {
   const timestamp = new Date().toISOString();
   const formattedMessage = `[${timestamp} ${feature}] ${message}`;
   console.log(message);
-  outputChannel.appendLine(formattedMessage);
+  output?.appendLine(formattedMessage);
 }
 
 // Storage-specific logger that always writes (used for storage errors etc.)
 export default {
   log,
-  setLoggedFeatures
+  setLoggedFeatures,
+  setLogOutput
 };
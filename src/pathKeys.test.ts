@@ -0,0 +1,33 @@
+import { strict as assert } from 'assert';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { isCaseInsensitivePlatform, isSameOrInsidePath, toPathKey } from './pathKeys';
+
+const root = path.resolve('/Repo');
+
+describe('toPathKey', () => {
+  it('folds case on Windows and macOS and keeps it elsewhere', () => {
+    assert.equal(isCaseInsensitivePlatform('win32'), true);
+    assert.equal(isCaseInsensitivePlatform('darwin'), true);
+    assert.equal(isCaseInsensitivePlatform('linux'), false);
+
+    const fsPath = path.join(root, 'Src', '..', 'App.ts');
+    assert.equal(toPathKey(fsPath, 'darwin'), path.join(root, 'App.ts').toLowerCase());
+    assert.equal(toPathKey(fsPath, 'linux'), path.join(root, 'App.ts'));
+  });
+});
+
+describe('isSameOrInsidePath', () => {
+  it('matches the folder itself and paths below it, not siblings sharing a prefix', () => {
+    assert.equal(isSameOrInsidePath(root, root, 'linux'), true);
+    assert.equal(isSameOrInsidePath(path.join(root, 'src', 'a.ts'), root, 'linux'), true);
+    assert.equal(isSameOrInsidePath(`${root}-other`, root, 'linux'), false);
+    assert.equal(isSameOrInsidePath(root, path.join(root, 'src'), 'linux'), false);
+  });
+
+  it('compares case-insensitively only where the platform does', () => {
+    const candidate = path.join(root.toLowerCase(), 'src');
+    assert.equal(isSameOrInsidePath(candidate, root, 'win32'), true);
+    assert.equal(isSameOrInsidePath(candidate, root, 'linux'), false);
+  });
+});
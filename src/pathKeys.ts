@@ -0,0 +1,24 @@
+import * as path from 'path';
+
+/**
+ * Whether paths are compared case-insensitively: on Windows and macOS, whose filesystems
+ * usually are. Elsewhere paths differing only in case are different files.
+ */
+export function isCaseInsensitivePlatform(platform: NodeJS.Platform = process.platform): boolean {
+  return platform === 'win32' || platform === 'darwin';
+}
+
+/**
+ * The normalized path, case-folded where the platform compares paths case-insensitively.
+ * Used for map keys and for comparing paths.
+ */
+export function toPathKey(fsPath: string, platform: NodeJS.Platform = process.platform): string {
+  const normalizedPath = path.normalize(fsPath);
+  return isCaseInsensitivePlatform(platform) ? normalizedPath.toLowerCase() : normalizedPath;
+}
+
+export function isSameOrInsidePath(candidatePath: string, parentPath: string, platform: NodeJS.Platform = process.platform): boolean {
+  const candidate = toPathKey(candidatePath, platform);
+  const parent = toPathKey(parentPath, platform);
+  return candidate === parent || candidate.startsWith(`${parent}${path.sep}`);
+}
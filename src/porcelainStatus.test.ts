@@ -0,0 +1,79 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { execGit, execGitOrThrow } from './gitCli';
+import { parsePorcelainV2Status } from './porcelainStatus';
+
+describe('parsePorcelainV2Status', () => {
+  it('reads the branch and its ahead/behind counts', () => {
+    const status = parsePorcelainV2Status('# branch.oid abc\0# branch.head topic\0# branch.upstream origin/topic\0# branch.ab +2 -5\0');
+    assert.equal(status.branch, 'topic');
+    assert.equal(status.ahead, 2);
+    assert.equal(status.behind, 5);
+
+    assert.equal(parsePorcelainV2Status('# branch.oid abc\0# branch.head (detached)\0').branch, undefined);
+  });
+
+  it('splits staged and unstaged changes of the same file', () => {
+    const status = parsePorcelainV2Status('1 MD N... 100644 100644 000000 aaa bbb src/a file.ts\u00001 .M N... 100644 100644 100644 aaa aaa b.ts\0');
+    assert.deepEqual(status.indexChanges, [{ path: 'src/a file.ts', kind: 'modified' }]);
+    assert.deepEqual(status.workingTreeChanges, [{ path: 'src/a file.ts', kind: 'deleted' }, { path: 'b.ts', kind: 'modified' }]);
+  });
+
+  it('reports copies as added files', () => {
+    const status = parsePorcelainV2Status('2 C. N... 100644 100644 100644 aaa aaa C100 copy.ts\u0000orig.ts\0');
+    assert.deepEqual(status.indexChanges, [{ path: 'copy.ts', kind: 'added' }]);
+    assert.deepEqual(status.workingTreeChanges, []);
+  });
+
+  describe('on a real repository', () => {
+    let repositoryRoot: string;
+    const git = (...args: string[]) => execGitOrThrow(['-C', repositoryRoot, ...args]);
+    const writeFile = (name: string, content: string) => fs.promises.writeFile(path.join(repositoryRoot, name), content, 'utf8');
+    const status = async () => parsePorcelainV2Status(await git('status', '--porcelain=v2', '-z', '--branch', '--untracked-files=all'));
+
+    beforeEach(async () => {
+      repositoryRoot = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'git-file-groups-test-')));
+      await execGitOrThrow(['init', '-q', '-b', 'main', repositoryRoot]);
+      await git('config', 'user.name', 'Test');
+      await git('config', 'user.email', 'test@example.com');
+      await writeFile('old name.txt', 'content that is long enough to be detected as a rename\n');
+      await writeFile('conflict.txt', 'base\n');
+      await git('add', '.');
+      await git('commit', '-q', '-m', 'base');
+    });
+
+    afterEach(async () => {
+      await fs.promises.rm(repositoryRoot, { recursive: true, force: true });
+    });
+
+    it('reports renames with their original path and untracked files in folders', async () => {
+      await git('mv', 'old name.txt', 'new name.txt');
+      await fs.promises.mkdir(path.join(repositoryRoot, 'new dir'));
+      await writeFile(path.join('new dir', 'untracked file.txt'), 'x\n');
+
+      const parsed = await status();
+      assert.equal(parsed.branch, 'main');
+      assert.deepEqual(parsed.indexChanges, [{ path: 'new name.txt', originalPath: 'old name.txt', kind: 'renamed' }]);
+      assert.deepEqual(parsed.workingTreeChanges, [{ path: 'new dir/untracked file.txt', kind: 'untracked' }]);
+      assert.deepEqual(parsed.mergeChanges, []);
+    });
+
+    it('lists unmerged paths as merge changes only', async () => {
+      await git('checkout', '-q', '-b', 'topic');
+      await writeFile('conflict.txt', 'topic\n');
+      await git('commit', '-q', '-am', 'topic');
+      await git('checkout', '-q', 'main');
+      await writeFile('conflict.txt', 'main\n');
+      await git('commit', '-q', '-am', 'main');
+      assert.notEqual((await execGit(['-C', repositoryRoot, 'merge', 'topic'])).code, 0);
+
+      const parsed = await status();
+      assert.deepEqual(parsed.mergeChanges, [{ path: 'conflict.txt', kind: 'modified' }]);
+      assert.deepEqual(parsed.indexChanges, []);
+      assert.deepEqual(parsed.workingTreeChanges, []);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { ChangeKind } from './assignmentRules';
+
+export interface PorcelainChange {
+  /** repository-relative path, with forward slashes */
+  path: string;
+  /** where a renamed file came from */
+  originalPath?: string;
+  kind: ChangeKind | undefined;
+}
+
+export interface PorcelainStatus {
+  /** undefined on a detached HEAD */
+  branch?: string;
+  ahead: number;
+  behind: number;
+  indexChanges: PorcelainChange[];
+  /** unstaged changes, untracked files included */
+  workingTreeChanges: PorcelainChange[];
+  /** unmerged paths of a conflicted merge, rebase or cherry-pick */
+  mergeChanges: PorcelainChange[];
+}
+
+/**
+ * Parse `git status --porcelain=v2 -z --branch`.
+ */
+export function parsePorcelainV2Status(output: string): PorcelainStatus {
+  const status: PorcelainStatus = { ahead: 0, behind: 0, indexChanges: [], workingTreeChanges: [], mergeChanges: [] };
+  const records = output.split('\0');
+
+  for (let index = 0; index < records.length; index++) {
+    const record = records[index];
+    if (record.startsWith('# branch.head ')) {
+      const head = record.slice('# branch.head '.length);
+      status.branch = head === '(detached)' ? undefined : head;
+    } else if (record.startsWith('# branch.ab ')) {
+      const match = /^# branch\.ab \+(\d+) -(\d+)$/.exec(record);
+      status.ahead = match ? Number(match[1]) : 0;
+      status.behind = match ? Number(match[2]) : 0;
+    } else if (record.startsWith('? ')) {
+      status.workingTreeChanges.push({ path: record.slice(2), kind: 'untracked' });
+    } else if (record.startsWith('1 ') || record.startsWith('2 ')) {
+      // 1 XY sub mH mI mW hH hI path / 2 XY sub mH mI mW hH hI Xscore path, then NUL origPath
+      const fields = record.split(' ');
+      const renamed = record.startsWith('2 ');
+      const filePath = fields.slice(renamed ? 9 : 8).join(' ');
+      const originalPath = renamed ? records[++index] : undefined;
+      const [indexCode, workingTreeCode] = fields[1];
+      const indexKind = changeKindFromStatusCode(indexCode);
+      const workingTreeKind = changeKindFromStatusCode(workingTreeCode);
+      if (indexKind) {
+        status.indexChanges.push({ path: filePath, ...(originalPath && indexCode === 'R' ? { originalPath } : {}), kind: indexKind });
+      }
+      if (workingTreeKind) {
+        status.workingTreeChanges.push({ path: filePath, ...(originalPath && workingTreeCode === 'R' ? { originalPath } : {}), kind: workingTreeKind });
+      }
+    } else if (record.startsWith('u ')) {
+      // u XY sub m1 m2 m3 mW h1 h2 h3 path
+      status.mergeChanges.push({ path: record.split(' ').slice(10).join(' '), kind: 'modified' });
+    }
+  }
+
+  return status;
+}
+
+function changeKindFromStatusCode(code: string | undefined): ChangeKind | undefined {
+  switch (code) {
+    case 'M':
+    case 'T':
+      return 'modified';
+    case 'A':
+    case 'C':
+      return 'added';
+    case 'D':
+      return 'deleted';
+    case 'R':
+      return 'renamed';
+    default:
+      return undefined;
+  }
+}
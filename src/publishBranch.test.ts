@@ -0,0 +1,127 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { execGitOrThrow } from './gitCli';
+import { buildPartialPatch, parseFileDiff } from './hunks';
+import { publishToBranch } from './publishBranch';
+
+describe('publishToBranch', () => {
+  let directory: string;
+  let repositoryRoot: string;
+  let remotePath: string;
+  const filePath = (name: string) => path.join(repositoryRoot, name);
+  const git = (...args: string[]) => execGitOrThrow(['-C', repositoryRoot, ...args]);
+  const lines = (count: number) => Array.from({ length: count }, (_, index) => `line ${index + 1}`);
+
+  beforeEach(async () => {
+    directory = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'git-file-groups-test-')));
+    repositoryRoot = path.join(directory, 'work');
+    remotePath = path.join(directory, 'remote.git');
+    await execGitOrThrow(['init', '-q', '--bare', remotePath]);
+    await execGitOrThrow(['init', '-q', repositoryRoot]);
+    await git('config', 'user.name', 'Test');
+    await git('config', 'user.email', 'test@example.com');
+    await git('remote', 'add', 'origin', remotePath);
+    await fs.promises.writeFile(filePath('a.txt'), `${lines(10).join('\n')}\n`, 'utf8');
+    await fs.promises.writeFile(filePath('b.txt'), 'b\n', 'utf8');
+    await git('add', 'a.txt', 'b.txt');
+    await git('commit', '-q', '-m', 'base');
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it('creates a new branch from HEAD and pushes it with an upstream, leaving the checkout alone', async () => {
+    const head = (await git('rev-parse', 'HEAD')).trim();
+    await fs.promises.writeFile(filePath('a.txt'), 'changed\n', 'utf8');
+    await fs.promises.writeFile(filePath('b.txt'), 'not published\n', 'utf8');
+    await fs.promises.writeFile(filePath('new.txt'), 'new\n', 'utf8');
+
+    const result = await publishToBranch({ repositoryRoot, branch: 'topic', message: 'Publish a', files: [filePath('a.txt'), filePath('new.txt')], push: true });
+
+    assert.equal(result.created, true);
+    assert.equal(result.base, head);
+    assert.equal(result.pushed, true);
+    assert.equal(result.remote, 'origin');
+    assert.equal((await git('show', 'topic:a.txt')), 'changed\n');
+    assert.equal((await git('show', 'topic:new.txt')), 'new\n');
+    assert.equal((await git('show', 'topic:b.txt')), 'b\n');
+    assert.equal((await git('log', '-1', '--format=%s', 'topic')).trim(), 'Publish a');
+    assert.equal((await execGitOrThrow(['-C', remotePath, 'rev-parse', 'refs/heads/topic'])).trim(), result.commit);
+    assert.equal((await git('config', 'branch.topic.remote')).trim(), 'origin');
+
+    assert.equal((await git('rev-parse', 'HEAD')).trim(), head);
+    assert.equal(await git('diff', '--cached', '--name-only'), '');
+    assert.equal(await fs.promises.readFile(filePath('new.txt'), 'utf8'), 'new\n');
+  });
+
+  it('adds a commit on top of an existing branch', async () => {
+    await fs.promises.writeFile(filePath('a.txt'), 'first\n', 'utf8');
+    const first = await publishToBranch({ repositoryRoot, branch: 'topic', message: 'First', files: [filePath('a.txt')] });
+    await fs.promises.writeFile(filePath('b.txt'), 'second\n', 'utf8');
+
+    const second = await publishToBranch({ repositoryRoot, branch: 'topic', message: 'Second', files: [filePath('b.txt')], push: true });
+
+    assert.equal(second.created, false);
+    assert.equal(second.base, first.commit);
+    assert.equal((await git('rev-parse', 'topic^')).trim(), first.commit);
+    assert.equal((await git('show', 'topic:a.txt')), 'first\n');
+    assert.equal((await git('show', 'topic:b.txt')), 'second\n');
+    assert.equal((await execGitOrThrow(['-C', remotePath, 'rev-parse', 'refs/heads/topic'])).trim(), second.commit);
+  });
+
+  it('amends the branch tip and signs off when asked', async () => {
+    await fs.promises.writeFile(filePath('a.txt'), 'first\n', 'utf8');
+    const first = await publishToBranch({ repositoryRoot, branch: 'topic', message: 'First', files: [filePath('a.txt')] });
+    await fs.promises.writeFile(filePath('b.txt'), 'second\n', 'utf8');
+
+    const amended = await publishToBranch({
+      repositoryRoot,
+      branch: 'topic',
+      message: 'First and second',
+      files: [filePath('b.txt')],
+      commitOptions: { amend: true, signoff: true }
+    });
+
+    assert.equal(amended.base, first.commit);
+    assert.equal((await git('rev-parse', 'topic^')).trim(), (await git('rev-parse', `${first.commit}^`)).trim());
+    assert.equal((await git('show', 'topic:a.txt')), 'first\n');
+    assert.equal((await git('show', 'topic:b.txt')), 'second\n');
+    assert.equal((await git('log', '-1', '--format=%B', 'topic')).trim(), 'First and second\n\nSigned-off-by: Test <test@example.com>');
+
+    await assert.rejects(
+      publishToBranch({ repositoryRoot, branch: 'other', message: 'Nothing to amend', files: [filePath('b.txt')], commitOptions: { amend: true } }),
+      /no commit to amend/
+    );
+  });
+
+  it('publishes only the selected hunks of a file', async () => {
+    const changed = ['top', ...lines(10).slice(0, 8), 'NEW', ...lines(10).slice(8)];
+    await fs.promises.writeFile(filePath('a.txt'), `${changed.join('\n')}\n`, 'utf8');
+    const fileDiff = parseFileDiff(await git('diff', '-U0', '--no-color', '--', 'a.txt'));
+    const patch = buildPartialPatch(fileDiff, new Set([fileDiff.hunks[1].fingerprint]));
+    assert.ok(patch);
+
+    await publishToBranch({ repositoryRoot, branch: 'topic', message: 'Part of a', files: [], partialPatches: [patch] });
+
+    assert.equal(await git('show', 'topic:a.txt'), `${[...lines(10).slice(0, 8), 'NEW', ...lines(10).slice(8)].join('\n')}\n`);
+  });
+
+  it('refuses changes the branch already has and reports a push without remotes', async () => {
+    await assert.rejects(
+      publishToBranch({ repositoryRoot, branch: 'topic', message: 'Nothing', files: [filePath('a.txt')] }),
+      /already contained/
+    );
+    assert.equal((await git('branch', '--list', 'topic')).trim(), '');
+
+    await git('remote', 'remove', 'origin');
+    await fs.promises.writeFile(filePath('a.txt'), 'changed\n', 'utf8');
+    const result = await publishToBranch({ repositoryRoot, branch: 'topic', message: 'Local', files: [filePath('a.txt')], push: true });
+    assert.equal(result.pushed, false);
+    assert.match(result.pushError ?? '', /no remote/);
+    assert.equal((await git('rev-parse', 'topic')).trim(), result.commit);
+  });
+});
@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommitToggleOptions } from './commitOptions';
+import { execGit, execGitOrThrow, pushBranchToRemote, withTemporaryIndex } from './gitCli';
+
+export interface PublishBranchOptions {
+  repositoryRoot: string;
+  branch: string;
+  message: string;
+  /** files whose complete working tree state is published */
+  files: string[];
+  /** `git diff -U0` style patches for files of which only some hunks are published */
+  partialPatches?: string[];
+  /**
+   * `amend` replaces the branch's tip instead of adding to it. `noVerify` changes nothing:
+   * the commit is made with `commit-tree`, which runs no hooks.
+   */
+  commitOptions?: Partial<CommitToggleOptions>;
+  push?: boolean;
+}
+
+export interface PublishBranchResult {
+  commit: string;
+  base: string;
+  created: boolean;
+  pushed: boolean;
+  remote?: string;
+  pushError?: string;
+}
+
+/**
+ * Commit to use as the parent of a published commit: the branch itself when it already exists,
+ * otherwise the upstream tip of the current branch, falling back to HEAD.
+ */
+export async function resolvePublishBase(repositoryRoot: string, branch: string): Promise<{ base: string; created: boolean }> {
+  const existing = await execGit(['-C', repositoryRoot, 'rev-parse', '--verify', '--quiet', `refs/heads/${branch}^{commit}`]);
+  if (existing.code === 0) {
+    return { base: existing.stdout.trim(), created: false };
+  }
+
+  for (const candidate of ['@{upstream}', 'HEAD']) {
+    const result = await execGit(['-C', repositoryRoot, 'rev-parse', '--verify', '--quiet', `${candidate}^{commit}`]);
+    if (result.code === 0) {
+      return { base: result.stdout.trim(), created: true };
+    }
+  }
+
+  throw new Error('The repository has no commits to base the branch on.');
+}
+
+/**
+ * Commit working tree changes onto a branch without checking it out. The commit is built in a
+ * temporary index seeded from the base commit, so HEAD, the real index and the working tree
+ * are left alone.
+ */
+export async function publishToBranch(options: PublishBranchOptions): Promise<PublishBranchResult> {
+  const { repositoryRoot, branch } = options;
+  const commitOptions = options.commitOptions ?? {};
+  const { base, created } = await resolvePublishBase(repositoryRoot, branch);
+  if (commitOptions.amend && created) {
+    throw new Error(`Branch '${branch}' doesn't exist yet, so there is no commit to amend.`);
+  }
+
+  const tree = await withTemporaryIndex(async (env) => {
+    await execGitOrThrow(['-C', repositoryRoot, 'read-tree', base], { env });
+
+    if (options.files.length > 0) {
+      // Tracked changes travel as a patch so they rebase onto a base that differs from HEAD.
+      const patch = await execGitOrThrow(['-C', repositoryRoot, 'diff', '--binary', '--no-color', '--no-ext-diff', 'HEAD', '--', ...options.files]);
+      if (patch.trim()) {
+        await execGitOrThrow(['-C', repositoryRoot, 'apply', '--cached', '--binary', '--whitespace=nowarn', '-'], { input: patch, env });
+      }
+
+      const untracked = await execGitOrThrow(['-C', repositoryRoot, 'ls-files', '-z', '--others', '--exclude-standard', '--full-name', '--', ...options.files]);
+      for (const relativePath of untracked.split('\0').filter(Boolean)) {
+        await addUntrackedFile(repositoryRoot, relativePath, env);
+      }
+    }
+
+    for (const patch of options.partialPatches ?? []) {
+      await execGitOrThrow(['-C', repositoryRoot, 'apply', '--cached', '--unidiff-zero', '--whitespace=nowarn', '-'], { input: patch, env });
+    }
+
+    return (await execGitOrThrow(['-C', repositoryRoot, 'write-tree'], { env })).trim();
+  });
+
+  const baseTree = (await execGitOrThrow(['-C', repositoryRoot, 'rev-parse', `${base}^{tree}`])).trim();
+  if (tree === baseTree && !commitOptions.amend) {
+    throw new Error(`The changes are already contained in ${created ? 'the base commit' : `branch '${branch}'`}.`);
+  }
+
+  // An amended commit takes the place of the tip, on top of the tip's own parents.
+  const parents = commitOptions.amend
+    ? (await execGitOrThrow(['-C', repositoryRoot, 'rev-parse', `${base}^@`])).split(/\r?\n/).filter(Boolean)
+    : [base];
+  const message = commitOptions.signoff ? await addSignOff(repositoryRoot, options.message) : options.message;
+  const commit = (await execGitOrThrow([
+    '-C', repositoryRoot, 'commit-tree', tree,
+    ...parents.flatMap(parent => ['-p', parent]),
+    ...(commitOptions.signCommit ? ['-S'] : []),
+    '-m', message
+  ])).trim();
+  // Guard against the branch moving (or appearing) while the commit was being built.
+  await execGitOrThrow(['-C', repositoryRoot, 'update-ref', '-m', `git-file-groups: publish to ${branch}`, `refs/heads/${branch}`, commit, created ? '' : base]);
+
+  const result: PublishBranchResult = { commit, base, created, pushed: false };
+  if (options.push) {
+    const push = await pushBranchToRemote(repositoryRoot, branch);
+    result.pushed = push.pushed;
+    result.remote = push.remote;
+    result.pushError = push.error;
+  }
+
+  return result;
+}
+
+/**
+ * The message with a Signed-off-by trailer for the committer, as `git commit --signoff` adds.
+ */
+async function addSignOff(repositoryRoot: string, message: string): Promise<string> {
+  const ident = (await execGitOrThrow(['-C', repositoryRoot, 'var', 'GIT_COMMITTER_IDENT'])).trim();
+  const signer = ident.replace(/\s+\d+\s+[+-]\d{4}$/, '');
+  const result = await execGitOrThrow(
+    ['-C', repositoryRoot, 'interpret-trailers', '--if-exists', 'addIfDifferentNeighbor', '--trailer', `Signed-off-by: ${signer}`],
+    { input: `${message.replace(/\s+$/, '')}\n` }
+  );
+  return result.replace(/\s+$/, '');
+}
+
+async function addUntrackedFile(repositoryRoot: string, relativePath: string, env: Record<string, string>): Promise<void> {
+  const absolutePath = path.join(repositoryRoot, relativePath);
+  const stats = await fs.promises.lstat(absolutePath);
+  const mode = stats.isSymbolicLink() ? '120000' : (stats.mode & 0o111) ? '100755' : '100644';
+  const hash = stats.isSymbolicLink()
+    ? (await execGitOrThrow(['-C', repositoryRoot, 'hash-object', '-w', '--stdin'], { input: await fs.promises.readlink(absolutePath) })).trim()
+    : (await execGitOrThrow(['-C', repositoryRoot, 'hash-object', '-w', '--', absolutePath])).trim();
+  await execGitOrThrow(['-C', repositoryRoot, 'update-index', '--add', '--cacheinfo', `${mode},${hash},${relativePath}`], { env });
+}
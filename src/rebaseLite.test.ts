@@ -0,0 +1,91 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { execGitOrThrow } from './gitCli';
+import { buildRebaseTodo, isRebaseInProgress, runScriptedRebase } from './rebaseLite';
+
+describe('buildRebaseTodo', () => {
+  it('writes steps oldest first with their exec lines', () => {
+    const todo = buildRebaseTodo([
+      { hash: 'aaa', action: 'pick', exec: ['npm test'] },
+      { hash: 'bbb', action: 'squash' },
+      { hash: 'ccc', action: 'fixup' },
+      { hash: 'ddd', action: 'drop', exec: ['npm test'] }
+    ], new Map());
+    assert.equal(todo, 'pick aaa\nexec npm test\nsquash bbb\nfixup ccc\ndrop ddd\n');
+  });
+
+  it('turns a reword into a pick and an amend from its message file', () => {
+    const todo = buildRebaseTodo([
+      { hash: 'aaa', action: 'reword', message: 'New', exec: ['make'] },
+      { hash: 'bbb', action: 'reword' }
+    ], new Map([['aaa', path.join('/repo', '.git', 'rebase-merge', 'aaa "x".msg')]]));
+    assert.deepEqual(todo.split('\n'), [
+      'pick aaa',
+      `exec git commit --amend --allow-empty --only --no-verify -F "${['', 'repo', '.git', 'rebase-merge', 'aaa \\"x\\".msg'].join('/')}"`,
+      'exec make',
+      'pick bbb',
+      ''
+    ]);
+  });
+});
+
+describe('runScriptedRebase', () => {
+  let repositoryRoot: string;
+  const git = (...args: string[]) => execGitOrThrow(['-C', repositoryRoot, ...args]);
+  const commit = async (name: string, content: string, message: string) => {
+    await fs.promises.writeFile(path.join(repositoryRoot, name), content, 'utf8');
+    await git('add', name);
+    await git('commit', '-q', '-m', message);
+    return (await git('rev-parse', 'HEAD')).trim();
+  };
+
+  beforeEach(async () => {
+    repositoryRoot = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'git-file-groups-test-')));
+    await execGitOrThrow(['init', '-q', repositoryRoot]);
+    await git('config', 'user.name', 'Test');
+    await git('config', 'user.email', 'test@example.com');
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(repositoryRoot, { recursive: true, force: true });
+  });
+
+  it('rewords commits without an editor', async () => {
+    const base = await commit('a.txt', '1\n', 'base');
+    const first = await commit('a.txt', '2\n', 'first');
+    const second = await commit('b.txt', 'b\n', 'second');
+
+    const outcome = await runScriptedRebase(repositoryRoot, base, [
+      { hash: first, action: 'pick' },
+      { hash: second, action: 'reword', message: 'Second, reworded' }
+    ]);
+
+    assert.equal(outcome.status, 'done');
+    assert.equal((await git('log', '--format=%s', `${base}..HEAD`)).trim(), 'Second, reworded\nfirst');
+  });
+
+  it('keeps pending reword messages through a conflict until the rebase is continued', async () => {
+    const base = await commit('a.txt', '1\n', 'base');
+    const first = await commit('a.txt', '2\n', 'first');
+    const second = await commit('a.txt', '3\n', 'second');
+    const third = await commit('b.txt', 'b\n', 'third');
+
+    // Dropping the first commit makes the second one conflict.
+    const outcome = await runScriptedRebase(repositoryRoot, base, [
+      { hash: first, action: 'drop' },
+      { hash: second, action: 'pick' },
+      { hash: third, action: 'reword', message: 'Third, reworded' }
+    ]);
+    assert.equal(outcome.status, 'conflict');
+
+    await fs.promises.writeFile(path.join(repositoryRoot, 'a.txt'), '3\n', 'utf8');
+    await git('add', 'a.txt');
+    await execGitOrThrow(['-C', repositoryRoot, 'rebase', '--continue'], { env: { GIT_EDITOR: 'true' } });
+
+    assert.equal(await isRebaseInProgress(repositoryRoot), false);
+    assert.equal((await git('log', '--format=%s', `${base}..HEAD`)).trim(), 'Third, reworded\nsecond');
+  });
+});
@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execGit, execGitOrThrow } from './gitCli';
+
+export type RebaseAction = 'pick' | 'squash' | 'fixup' | 'reword' | 'drop';
+
+export interface RebaseStep {
+  hash: string;
+  action: RebaseAction;
+  /** new message for reword steps */
+  message?: string;
+  /** shell commands run right after the step's commit has been applied */
+  exec?: string[];
+}
+
+export interface RebaseOutcome {
+  status: 'done' | 'conflict' | 'failed';
+  /** git's output when the rebase did not complete */
+  detail?: string;
+}
+
+/**
+ * Build a rebase todo list for steps given oldest first. Rewording runs as a pick followed by
+ * an amend reading the new message from a file, so no editor is ever opened.
+ */
+export function buildRebaseTodo(steps: RebaseStep[], messageFiles: Map<string, string>): string {
+  const lines: string[] = [];
+  for (const step of steps) {
+    if (step.action === 'reword') {
+      lines.push(`pick ${step.hash}`);
+      const messageFile = messageFiles.get(step.hash);
+      if (messageFile) {
+        lines.push(`exec git commit --amend --allow-empty --only --no-verify -F "${toShellPath(messageFile)}"`);
+      }
+    } else {
+      lines.push(`${step.action} ${step.hash}`);
+    }
+
+    if (step.action !== 'drop') {
+      lines.push(...(step.exec ?? []).map(command => `exec ${command}`));
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+// Names reword message files apart from git's own files in the rebase directory.
+const MESSAGE_FILE_PREFIX = 'git-file-groups-';
+
+/**
+ * Run `git rebase -i` non-interactively: the prepared todo list replaces the one git writes,
+ * squash messages are accepted as git combines them, and local changes are auto-stashed.
+ * A conflicting rebase is left in progress so it can be resolved or aborted.
+ */
+export async function runScriptedRebase(repositoryRoot: string, base: string, steps: RebaseStep[]): Promise<RebaseOutcome> {
+  // Reword messages are copied into git's own rebase directory, which git deletes when the
+  // rebase finishes or is aborted, so steps pending after a conflict can still read them.
+  const stateDirectory = path.resolve(repositoryRoot, (await execGitOrThrow(['-C', repositoryRoot, 'rev-parse', '--git-path', 'rebase-merge'])).trim());
+  const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'git-file-groups-rebase-'));
+  try {
+    const messageFiles = new Map<string, string>();
+    for (const step of steps.filter(candidate => candidate.action === 'reword' && candidate.message !== undefined)) {
+      const fileName = `${MESSAGE_FILE_PREFIX}${step.hash}.msg`;
+      await fs.promises.writeFile(path.join(directory, fileName), step.message as string, 'utf8');
+      messageFiles.set(step.hash, path.join(stateDirectory, fileName));
+    }
+
+    const todoFile = path.join(directory, 'todo');
+    await fs.promises.writeFile(todoFile, buildRebaseTodo(steps, messageFiles), 'utf8');
+
+    // git appends the todo path to the sequence editor command, so the copy of the todo comes last.
+    const copyMessages = messageFiles.size > 0
+      ? `cp "${toShellPath(directory)}"/${MESSAGE_FILE_PREFIX}*.msg "${toShellPath(stateDirectory)}/" && `
+      : '';
+    const result = await execGit(['-C', repositoryRoot, 'rebase', '-i', '--autostash', base], {
+      env: {
+        GIT_SEQUENCE_EDITOR: `${copyMessages}cp "${toShellPath(todoFile)}"`,
+        GIT_EDITOR: 'true'
+      }
+    });
+    if (result.code === 0) {
+      return { status: 'done' };
+    }
+
+    const detail = `${result.stdout}\n${result.stderr}`.trim();
+    return { status: await isRebaseInProgress(repositoryRoot) ? 'conflict' : 'failed', detail };
+  } finally {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  }
+}
+
+export async function isRebaseInProgress(repositoryRoot: string): Promise<boolean> {
+  for (const marker of ['rebase-merge', 'rebase-apply']) {
+    const gitPath = (await execGitOrThrow(['-C', repositoryRoot, 'rev-parse', '--git-path', marker])).trim();
+    if (fs.existsSync(path.resolve(repositoryRoot, gitPath))) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+export async function abortRebase(repositoryRoot: string): Promise<void> {
+  await execGitOrThrow(['-C', repositoryRoot, 'rebase', '--abort']);
+}
+
+/**
+ * Quote a repository-relative path for an exec line.
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Git runs editors and exec lines through sh, which wants forward slashes even on Windows.
+ */
+function toShellPath(filePath: string): string {
+  return filePath.split(path.sep).join('/').replace(/"/g, '\\"');
+}
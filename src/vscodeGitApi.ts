@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+
+// The part of the vscode.git extension API (version 1) this extension uses, declared after
+// the Git extension's own git.d.ts.
+
+export interface Change {
+  readonly uri: vscode.Uri;
+  readonly originalUri: vscode.Uri;
+  readonly renameUri: vscode.Uri | undefined;
+  /** a `Status` value from git.d.ts, see changeKindFromGitStatus */
+  readonly status: number;
+}
+
+export interface Branch {
+  readonly name?: string;
+  readonly commit?: string;
+  readonly ahead?: number;
+  readonly behind?: number;
+}
+
+export interface Commit {
+  readonly hash: string;
+  readonly message: string;
+  readonly parents: string[];
+}
+
+export interface LogOptions {
+  readonly maxEntries?: number;
+  /** e.g. `@{upstream}..HEAD` */
+  readonly range?: string;
+}
+
+export interface CommitOptions {
+  amend?: boolean;
+  signoff?: boolean;
+  signCommit?: boolean;
+  noVerify?: boolean;
+}
+
+export interface RepositoryState {
+  readonly HEAD: Branch | undefined;
+  readonly mergeChanges: Change[];
+  readonly indexChanges: Change[];
+  readonly workingTreeChanges: Change[];
+  /** only filled when `git.untrackedChanges` is "separate" */
+  readonly untrackedChanges?: Change[];
+  readonly onDidChange: vscode.Event<void>;
+}
+
+export interface Repository {
+  readonly rootUri: vscode.Uri;
+  readonly state: RepositoryState;
+  add(paths: string[]): Promise<void>;
+  /** resets the index entries of the paths */
+  revert(paths: string[]): Promise<void>;
+  /** restores tracked paths and deletes untracked ones */
+  clean(paths: string[]): Promise<void>;
+  commit(message: string, opts?: CommitOptions): Promise<void>;
+  log(options?: LogOptions): Promise<Commit[]>;
+  sync(): Promise<void>;
+}
+
+export type APIState = 'uninitialized' | 'initialized';
+
+export interface API {
+  readonly state: APIState;
+  readonly onDidChangeState: vscode.Event<APIState>;
+  readonly repositories: Repository[];
+  readonly onDidOpenRepository: vscode.Event<Repository>;
+  readonly onDidCloseRepository: vscode.Event<Repository>;
+  toGitUri(uri: vscode.Uri, ref: string): vscode.Uri;
+}
+
+export interface GitExtension {
+  readonly enabled: boolean;
+  getAPI(version: 1): API;
+}